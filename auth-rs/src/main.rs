@@ -4,8 +4,10 @@ use std::net::SocketAddr;
 
 use argon2::{password_hash::{rand_core::OsRng, PasswordHasher, PasswordVerifier, SaltString}, Argon2};
 use axum::{extract::State, http::StatusCode, response::IntoResponse, routing::{get, post}, Json, Router};
+use base64::{engine::general_purpose::{STANDARD, URL_SAFE_NO_PAD}, Engine as _};
 use dotenvy::dotenv;
 use jsonwebtoken as jwt;
+use ring::signature::{Ed25519KeyPair, KeyPair};
 use serde::{Deserialize, Serialize};
 use thiserror::Error;
 use tracing::{error, info};
@@ -15,9 +17,20 @@ use tracing_subscriber::{layer::SubscriberExt, util::SubscriberInitExt};
 struct AppState {
     // Vec of (kid, secret bytes). First element is used as default when no active_kid specified.
     secrets: Vec<(String, Vec<u8>)>,
+    // Asymmetric (EdDSA) signing keys; their public halves are published at /.well-known/jwks.json
+    ed_keys: Vec<EdKey>,
     active_kid: String,
 }
 
+#[derive(Clone)]
+struct EdKey {
+    kid: String,
+    // PKCS#8 DER private key
+    pkcs8: Vec<u8>,
+    // raw 32-byte public key
+    public: Vec<u8>,
+}
+
 #[derive(Debug, Error)]
 enum ApiError {
     #[error("bad request")] BadRequest,
@@ -47,9 +60,15 @@ struct VerifyReq { password: String, hash: String }
 struct VerifyRes { valid: bool }
 
 #[derive(Deserialize)]
-struct TokenReq { sub: String, exp_seconds: Option<u64> }
+struct TokenReq { sub: String, exp_seconds: Option<u64>, sid: Option<String> }
 #[derive(Serialize, Deserialize)]
-struct Claims { sub: String, exp: u64 }
+struct Claims {
+    sub: String,
+    exp: u64,
+    // Session id (optional); lets the caller revoke tokens per session
+    #[serde(default, skip_serializing_if = "Option::is_none")]
+    sid: Option<String>,
+}
 #[derive(Serialize)]
 struct TokenRes { token: String }
 #[derive(Deserialize)]
@@ -91,7 +110,32 @@ async fn main() {
             (vec![("default".to_string(), secret.into_bytes())], "default".to_string())
         }
     };
-    let state = AppState { secrets, active_kid };
+
+    // Asymmetric signing: JWT_ED25519_KEYS="kid1:<base64 PKCS#8 DER>,kid2:..."
+    // Generate a key with: openssl genpkey -algorithm ed25519 -outform DER | base64 -w0
+    let ed_keys: Vec<EdKey> = std::env::var("JWT_ED25519_KEYS")
+        .map(|mult| {
+            mult.split(',')
+                .filter_map(|part| {
+                    let (kid, b64) = part.split_once(':')?;
+                    let kid = kid.trim().to_string();
+                    let pkcs8 = STANDARD.decode(b64.trim()).ok()?;
+                    match Ed25519KeyPair::from_pkcs8_maybe_unchecked(&pkcs8) {
+                        Ok(pair) => Some(EdKey { public: pair.public_key().as_ref().to_vec(), kid, pkcs8 }),
+                        Err(e) => { error!(%kid, ?e, "invalid ed25519 key"); None }
+                    }
+                })
+                .filter(|k| !k.kid.is_empty())
+                .collect()
+        })
+        .unwrap_or_default();
+    // Ed25519 keys take over issuing unless JWT_ACTIVE_KID names an HMAC secret
+    let active_kid = match std::env::var("JWT_ACTIVE_KID").ok().filter(|v| !v.is_empty()) {
+        Some(kid) if ed_keys.iter().any(|k| k.kid == kid) => kid,
+        None if !ed_keys.is_empty() => ed_keys[0].kid.clone(),
+        _ => active_kid,
+    };
+    let state = AppState { secrets, ed_keys, active_kid };
 
     let app = Router::new()
         .route("/health", get(|| async { "ok" }))
@@ -99,6 +143,7 @@ async fn main() {
         .route("/verify", post(verify_password))
         .route("/token", post(issue_token))
         .route("/token/verify", post(verify_token))
+        .route("/.well-known/jwks.json", get(jwks))
         .with_state(state);
 
     let port: u16 = std::env::var("PORT").ok().and_then(|s| s.parse().ok()).unwrap_or(8080);
@@ -130,18 +175,24 @@ async fn issue_token(State(state): State<AppState>, Json(req): Json<TokenReq>) -
     if req.sub.is_empty() { return Err(ApiError::BadRequest); }
     let now = std::time::SystemTime::now().duration_since(std::time::UNIX_EPOCH).map_err(|_| ApiError::Internal)?.as_secs();
     let exp = now + req.exp_seconds.unwrap_or(3600);
-    let claims = Claims { sub: req.sub, exp };
+    let claims = Claims { sub: req.sub, exp, sid: req.sid.filter(|s| !s.is_empty()) };
 
-    let mut header = jwt::Header { alg: jwt::Algorithm::HS256, ..Default::default() };
-    header.kid = Some(state.active_kid.clone());
-    // Find active key by kid
-    let secret_bytes = state
-        .secrets
-        .iter()
-        .find(|(kid, _)| kid == &state.active_kid)
-        .map(|(_, s)| s.as_slice())
-        .unwrap_or_else(|| state.secrets.first().map(|(_, s)| s.as_slice()).unwrap_or(&[]));
-    let key = jwt::EncodingKey::from_secret(secret_bytes);
+    let (header, key) = if let Some(ed) = state.ed_keys.iter().find(|k| k.kid == state.active_kid) {
+        let mut header = jwt::Header::new(jwt::Algorithm::EdDSA);
+        header.kid = Some(ed.kid.clone());
+        (header, jwt::EncodingKey::from_ed_der(&ed.pkcs8))
+    } else {
+        let mut header = jwt::Header { alg: jwt::Algorithm::HS256, ..Default::default() };
+        header.kid = Some(state.active_kid.clone());
+        // Find active key by kid
+        let secret_bytes = state
+            .secrets
+            .iter()
+            .find(|(kid, _)| kid == &state.active_kid)
+            .map(|(_, s)| s.as_slice())
+            .unwrap_or_else(|| state.secrets.first().map(|(_, s)| s.as_slice()).unwrap_or(&[]));
+        (header, jwt::EncodingKey::from_secret(secret_bytes))
+    };
 
     let token = jwt::encode(&header, &claims, &key).map_err(|e| { error!(?e, "jwt encode error"); ApiError::Internal })?;
     Ok(Json(TokenRes { token }))
@@ -149,9 +200,17 @@ async fn issue_token(State(state): State<AppState>, Json(req): Json<TokenReq>) -
 
 async fn verify_token(State(state): State<AppState>, Json(req): Json<VerifyTokenReq>) -> Result<Json<Claims>, ApiError> {
     if req.token.is_empty() { return Err(ApiError::BadRequest); }
+    let header = jwt::decode_header(&req.token).map_err(|_| ApiError::Unauthorized)?;
+    if header.alg == jwt::Algorithm::EdDSA {
+        let kid = header.kid.ok_or(ApiError::Unauthorized)?;
+        let ed = state.ed_keys.iter().find(|k| k.kid == kid).ok_or(ApiError::Unauthorized)?;
+        let key = jwt::DecodingKey::from_ed_components(&URL_SAFE_NO_PAD.encode(&ed.public)).map_err(|_| ApiError::Internal)?;
+        let data = jwt::decode::<Claims>(&req.token, &key, &jwt::Validation::new(jwt::Algorithm::EdDSA))
+            .map_err(|e| { error!(?e, "jwt verify failed"); ApiError::Unauthorized })?;
+        return Ok(Json(data.claims));
+    }
     let validation = jwt::Validation::new(jwt::Algorithm::HS256);
     // Try to use KID if present, else try all secrets
-    let header = jwt::decode_header(&req.token).map_err(|_| ApiError::Unauthorized)?;
     let try_order: Vec<&[u8]> = if let Some(kid) = header.kid {
         if let Some((_, sec)) = state.secrets.iter().find(|(k, _)| *k == kid) {
             vec![sec.as_slice()]
@@ -178,3 +237,20 @@ async fn verify_token(State(state): State<AppState>, Json(req): Json<VerifyToken
     error!(?last_err, "jwt verify failed");
     Err(ApiError::Unauthorized)
 }
+
+// Public verification keys (JWK set). HMAC secrets are never published.
+async fn jwks(State(state): State<AppState>) -> Json<serde_json::Value> {
+    let keys: Vec<serde_json::Value> = state
+        .ed_keys
+        .iter()
+        .map(|k| serde_json::json!({
+            "kty": "OKP",
+            "crv": "Ed25519",
+            "alg": "EdDSA",
+            "use": "sig",
+            "kid": k.kid,
+            "x": URL_SAFE_NO_PAD.encode(&k.public),
+        }))
+        .collect();
+    Json(serde_json::json!({ "keys": keys }))
+}
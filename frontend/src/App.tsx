@@ -4,7 +4,7 @@ import React, { useEffect, useMemo, useRef, useState } from 'react'
 import Background3D from './Background3D'
 import './styles.css'
 import { io, Socket } from 'socket.io-client'
-import type { ChatMessage, CallMedia, CallOffer, CallAnswer, CallIce, CallInvite, CallParticipants, Contact } from './types'
+import type { ChatMessage, CallMedia, CallOffer, CallAnswer, CallIce, CallInvite, CallParticipants, Contact, DirectChat, Receipt, SearchResult, Attachment, RoomSummary, RoomMember, RoomRole, ModerationEvent, CallHistoryEntry, PresenceInfo, CustomStatus, StatusState, FlaggedMessage, SlashCommand, CommandReply, Poll, Schedule, Reminder } from './types'
 
 declare global {
   interface ImportMetaEnv {
@@ -20,6 +20,12 @@ const SOCKET_URL = import.meta.env.VITE_SOCKET_URL || 'http://localhost:3000'
 const TURN_URL = (import.meta.env as any).VITE_TURN_URL as string | undefined
 const TURN_USERNAME = (import.meta.env as any).VITE_TURN_USERNAME as string | undefined
 const TURN_CREDENTIAL = (import.meta.env as any).VITE_TURN_CREDENTIAL as string | undefined
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '🎉', '😮', '😢']
+// Receipt scope of a message, matching the server: DM conversation, named room, or global
+function receiptScope(m: { room?: string | null; conversationId?: string | null }) {
+  if (m.conversationId) return m.conversationId
+  return m.room ? `room:${m.room}` : 'global'
+}
 const ICE_SERVERS: RTCIceServer[] = [
   { urls: 'stun:stun.l.google.com:19302' },
   ...(TURN_URL ? [{ urls: TURN_URL, username: TURN_USERNAME, credential: TURN_CREDENTIAL }] : []),
@@ -34,14 +40,169 @@ function getToken() {
 function setToken(t: string) {
   try { localStorage.setItem('echo:token', t) } catch {}
 }
+function getStored(key: string) {
+  try { return localStorage.getItem(key) || '' } catch { return '' }
+}
+function clearAuth() {
+  try { ['echo:token', 'echo:refresh', 'echo:userId'].forEach((k) => localStorage.removeItem(k)) } catch {}
+}
+
+// Rotate the refresh token for a new access token; '' when the session is gone (401), throws when the server
+// could not answer (network error, 5xx), so a brief outage does not sign anyone out.
+// Concurrent callers share one request so the rotating token is only spent once. Another tab may rotate the
+// same token at the same moment (409 refresh_conflict): its new token lands in storage, so try again with that.
+let refreshing: Promise<string> | null = null
+function refreshAccessToken(): Promise<string> {
+  if (!refreshing) {
+    refreshing = (async () => {
+      let r: Response | null = null
+      for (let tries = 0; tries < 3 && (!r || r.status === 409); tries++) {
+        if (r) await new Promise((done) => setTimeout(done, 1000))
+        const refreshToken = getStored('echo:refresh')
+        if (!refreshToken) return ''
+        r = await fetch(SOCKET_URL + '/auth/refresh', {
+          method: 'POST', headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ refreshToken })
+        })
+      }
+      if (r!.status === 401) return ''
+      const j = await r!.json().catch(() => null)
+      if (!r!.ok || !j?.ok || !j.token) throw new Error('refresh_failed')
+      setToken(j.token)
+      try { localStorage.setItem('echo:refresh', j.refreshToken) } catch {}
+      return j.token as string
+    })().finally(() => { refreshing = null })
+  }
+  return refreshing
+}
+const UPLOAD_ERRORS: Record<string, string> = {
+  unsupported_type: 'that file type is not allowed',
+  file_too_large: 'the file is too large',
+  invalid_image: 'the image could not be read',
+  empty_file: 'the file is empty',
+}
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+// m:ss (or h:mm:ss) for call durations
+function formatDuration(ms: number) {
+  const total = Math.round(ms / 1000)
+  const h = Math.floor(total / 3600)
+  const m = Math.floor((total % 3600) / 60)
+  const sec = String(total % 60).padStart(2, '0')
+  return h ? `${h}:${String(m).padStart(2, '0')}:${sec}` : `${m}:${sec}`
+}
+
+// "online", "away" or "last seen 5 min ago" for a contact
+function describePresence(c: Contact) {
+  if (c.status === 'online' || c.status === 'away') return c.status
+  if (!c.lastSeen) return 'offline'
+  const min = Math.floor((Date.now() - c.lastSeen) / 60_000)
+  if (min < 1) return 'last seen just now'
+  if (min < 60) return `last seen ${min} min ago`
+  if (min < 24 * 60) return `last seen ${Math.floor(min / 60)} h ago`
+  return `last seen ${new Date(c.lastSeen).toLocaleDateString()}`
+}
+
+// The other side of a call: the caller for incoming calls, the callees for outgoing ones
+function callPeerNames(c: CallHistoryEntry) {
+  const peers = c.direction === 'incoming' ? [c.caller] : c.callees
+  if (peers.length === 0) return c.kind === 'group' ? 'Group call' : 'Unknown'
+  return peers.map((p) => p.name || 'Unknown').join(', ')
+}
+
+// server default for MAX_MESSAGE_LENGTH
+const MAX_MESSAGE_LENGTH = 4000
+
+const ROOM_ERRORS: Record<string, string> = {
+  invalid_name: 'use 1-48 letters, digits, - or _',
+  room_taken: 'that name is taken',
+  forbidden: 'this room is private',
+  room_not_found: 'no such room (create it under Rooms)',
+  invalid_room: 'invalid room name',
+  banned: 'you are banned from this room',
+  muted: 'you are muted in this room',
+  message_too_long: 'message is too long',
+}
+
+// Moderation ack errors -> text; durations offered by the ban/mute prompts are in minutes
+const MOD_ERRORS: Record<string, string> = {
+  forbidden: 'you cannot do that to this user',
+  not_member: 'they are not a member of this room',
+  not_banned: 'they are not banned',
+  invalid_duration: 'invalid duration',
+}
+
+const POLL_ERRORS: Record<string, string> = {
+  invalid_poll: 'a poll needs a question and 2-10 different options',
+  poll_closed: 'this poll is closed',
+  forbidden: 'only its author or a moderator can close a poll',
+}
+// closing times offered by the poll form, in minutes (0 = until closed by hand)
+const POLL_DURATIONS: Array<[number, string]> = [[0, 'No time limit'], [5, '5 minutes'], [60, '1 hour'], [1440, '1 day'], [10080, '1 week']]
+
+// Option indexes this user voted for: from the voter lists, or from myVotes on anonymous polls
+function myPollVotes(p: Poll, userId: string) {
+  return p.anonymous ? p.myVotes || [] : p.options.flatMap((o, i) => ((o.voters || []).includes(userId) ? [i] : []))
+}
+
+const SCHEDULE_ERRORS: Record<string, string> = {
+  invalid_time: 'pick a time in the future, within a year',
+  invalid_schedule: 'nothing to send',
+  too_many_schedules: 'you have too many pending schedules',
+  not_pending: 'it was already sent or canceled',
+  unknown_user: 'no such user',
+  ...ROOM_ERRORS,
+}
+
+const STATUS_LABELS: Record<StatusState, string> = { available: '🟢 Available', away: '🌙 Away', busy: '⛔ Busy', dnd: '🔕 Do not disturb' }
+const STATUS_ERRORS: Record<string, string> = {
+  invalid_text: 'status text is too long',
+  invalid_duration: 'invalid duration',
+}
+
+// "🔕 In a meeting" for a custom status
+function statusLabel(s: CustomStatus) {
+  const [icon, ...name] = STATUS_LABELS[s.state].split(' ')
+  return `${icon} ${s.text || name.join(' ')}`
+}
+
+function describeModeration(e: ModerationEvent, who: (id: string | null) => string) {
+  const until = e.until ? ` until ${new Date(e.until).toLocaleString()}` : ''
+  const reason = e.reason ? ` (${e.reason})` : ''
+  switch (e.action) {
+    case 'kick': return `${who(e.targetId)} was kicked from ${e.room} by ${who(e.actorId)}${reason}`
+    case 'ban': return `${who(e.targetId)} was banned from ${e.room}${until || ' permanently'} by ${who(e.actorId)}${reason}`
+    case 'unban': return `${who(e.targetId)} was unbanned from ${e.room}`
+    case 'mute': return `${who(e.targetId)} was muted in ${e.room}${until} by ${who(e.actorId)}${reason}`
+    case 'unmute': return `${who(e.targetId)} was unmuted in ${e.room}`
+    case 'role': return `${who(e.targetId)} is now a ${e.role} of ${e.room}`
+    default: return ''
+  }
+}
+
+const AUTH_ERRORS: Record<string, string> = {
+  invalid_username: 'Username must be 3-32 characters: letters, digits, . _ -',
+  invalid_password: 'Password must be at least 8 characters',
+  invalid_name: 'Display name is too long',
+  username_taken: 'That username is already taken',
+  invalid_credentials: 'Wrong username or password',
+  rate_limited: 'Too many attempts, try again in a minute',
+}
 
 export default function App() {
-  const [name, setName] = useState('123')
+  const [name, setName] = useState(() => getStored('echo:name'))
   const [joined, setJoined] = useState(false)
   const [msg, setMsg] = useState('')
+  // slash commands for composer autocomplete (GET /commands) and the highlighted suggestion
+  const [commands, setCommands] = useState<SlashCommand[]>([])
+  const [commandPick, setCommandPick] = useState(0)
   const [messages, setMessages] = useState<ChatMessage[]>([])
   const [users, setUsers] = useState<Array<{name?: string}>>([])
-  const [room, setRoom] = useState<string | null>('6898')
+  const [room, setRoom] = useState<string | null>(null)
   const listRef = useRef<HTMLDivElement | null>(null)
   const [lowPower, setLowPower] = useState(false)
   const [autoLow, setAutoLow] = useState(false)
@@ -81,21 +242,76 @@ export default function App() {
   const callStartRef = useRef<number | null>(null)
   const [elapsed, setElapsed] = useState<string>('00:00')
   const [selectedSpeaker, setSelectedSpeaker] = useState<string | undefined>(undefined)
-  const [callLogs, setCallLogs] = useState<Array<{ callId: string; room: string | null; type: string; startedAt: number; endedAt?: number; initiator: string; participants: string[] }>>([])
+  // Call history (newest first); missed calls newer than callsSeenAt get a badge
+  const [callLogs, setCallLogs] = useState<CallHistoryEntry[]>([])
+  const [callsCursor, setCallsCursor] = useState<string | null>(null)
+  const [callsSeenAt, setCallsSeenAt] = useState<number>(() => Number(getStored('echo:callsSeenAt')) || 0)
   const [contacts, setContacts] = useState<Contact[]>([])
-  // Owner identity: stable id per device/session
-  const [ownerId] = useState<string>(() => {
-    try {
-      const key = 'echo:ownerId'
-      const existing = localStorage.getItem(key)
-      if (existing) return existing
-      const gen = 'u_' + Math.random().toString(36).slice(2)
-      localStorage.setItem(key, gen)
-      return gen
-    } catch { return 'u_' + Math.random().toString(36).slice(2) }
-  })
+  // our own custom status (null = available)
+  const [myStatus, setMyStatus] = useState<CustomStatus | null>(null)
+  // busy/DND replies need the current outgoing call; the socket handlers are registered once
+  const callBusyRef = useRef<(from: string, reason?: 'dnd') => void>(() => {})
+  // Owner identity: the authenticated account's user id
+  const [ownerId, setOwnerId] = useState<string>(() => getStored('echo:userId'))
   const ownerName = name
   const [authToken, setAuthToken] = useState<string>(() => getToken())
+  const [authMode, setAuthMode] = useState<'signin' | 'signup'>('signin')
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const [authError, setAuthError] = useState('')
+  const [authBusy, setAuthBusy] = useState(false)
+  // Direct messages: the open DM (if any) replaces the room view
+  const [activeDm, setActiveDm] = useState<DirectChat | null>(null)
+  const activeDmRef = useRef<DirectChat | null>(null)
+  const [dmMessages, setDmMessages] = useState<ChatMessage[]>([])
+  const [dmUnread, setDmUnread] = useState<Record<string, number>>({}) // userId -> unread count
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null)
+  const [reactingTo, setReactingTo] = useState<string | null>(null) // message id with the picker open
+  const [pollDraft, setPollDraft] = useState<{ question: string; options: string[]; multiple: boolean; anonymous: boolean; minutes: number } | null>(null) // null = poll form closed
+  // Thread view: root message, its replies and the reply composer
+  const [threadRoot, setThreadRoot] = useState<ChatMessage | null>(null)
+  const threadRootRef = useRef<ChatMessage | null>(null)
+  const [threadReplies, setThreadReplies] = useState<ChatMessage[]>([])
+  const [threadMsg, setThreadMsg] = useState('')
+  // Receipts: scope -> userId -> watermarks; lastReadRef avoids re-sending the same read
+  const [receipts, setReceipts] = useState<Record<string, Record<string, Receipt>>>({})
+  const lastReadRef = useRef<string | null>(null)
+  // Typing: scope -> people typing there; typingSentRef throttles our own typing:start
+  const [typing, setTyping] = useState<Record<string, Array<{ userId: string; name: string }>>>({})
+  const typingSentRef = useRef(0)
+  // History paging: scope -> cursor for the next older page (null = reached the start)
+  const [olderCursors, setOlderCursors] = useState<Record<string, string | null>>({})
+  const [loadingOlder, setLoadingOlder] = useState(false)
+  const prependFromRef = useRef<{ height: number; top: number } | null>(null)
+  // Search panel; a jump loads the hit with surrounding history and scrolls it into view
+  const [searchQuery, setSearchQuery] = useState('')
+  const [searchRoomOnly, setSearchRoomOnly] = useState(false)
+  const [searchFrom, setSearchFrom] = useState('')
+  const [searchTo, setSearchTo] = useState('')
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null)
+  const [focusId, setFocusId] = useState<string | null>(null)
+  const focusRef = useRef<string | null>(null)
+  const pendingJumpRef = useRef<SearchResult | null>(null)
+  const [inContext, setInContext] = useState(false) // showing a search hit rather than the latest page
+  // Attachments uploaded for the next message, and how many uploads are in flight
+  const [pendingFiles, setPendingFiles] = useState<Attachment[]>([])
+  const [uploading, setUploading] = useState(0)
+  const [dragOver, setDragOver] = useState(false)
+  // Room browser: public rooms, rooms we belong to, and the create / invite forms
+  const [publicRooms, setPublicRooms] = useState<RoomSummary[]>([])
+  const [myRooms, setMyRooms] = useState<RoomSummary[]>([])
+  const [newRoom, setNewRoom] = useState({ name: '', topic: '', isPrivate: false })
+  const [inviteLink, setInviteLink] = useState('')
+  // Members of the current room with their roles; myRole decides which moderation actions show
+  const [roomMembers, setRoomMembers] = useState<Record<string, RoomMember>>({})
+  const [myRole, setMyRole] = useState<RoomRole | null>(null)
+  // pending flagged messages of the current room (owners and moderators only)
+  const [flags, setFlags] = useState<FlaggedMessage[]>([])
+  const roomRef = useRef<string | null>(null)
+  const roomMembersRef = useRef<Record<string, RoomMember>>({})
+  const [schedules, setSchedules] = useState<Schedule[]>([]) // pending, soonest first
+  const [scheduleAt, setScheduleAt] = useState<string | null>(null) // datetime-local value; null = send now
+  const [sessions, setSessions] = useState<Array<{ sessionId: string; device: string | null; ip: string | null; lastUsedAt: number; current: boolean }>>([])
 
   function addSystemMessage(text: string, id: string) {
     setMessages((s) => [...s, { id, name: 'System', text, ts: Date.now() }])
@@ -105,18 +321,150 @@ export default function App() {
     if (isMobile) setLowPower(true)
   }, [isMobile])
 
+  // Mark the newest message from someone else in the open view as read while the tab is visible
+  useEffect(() => {
+    const markRead = () => {
+      if (!socket || document.visibilityState !== 'visible') return
+      const list = activeDm ? dmMessages : messages
+      const last = [...list].reverse().find((m) => m.userId && m.userId !== ownerId)
+      if (!last || lastReadRef.current === last.id) return
+      lastReadRef.current = last.id
+      socket.emit('receipt:read', { id: last.id })
+    }
+    markRead()
+    document.addEventListener('visibilitychange', markRead)
+    return () => document.removeEventListener('visibilitychange', markRead)
+  }, [activeDm, messages, dmMessages, ownerId])
+
+  // Report this device as away while its tab is hidden
+  useEffect(() => {
+    if (!joined) return
+    const report = () => socket?.emit('presence:state', { away: document.visibilityState !== 'visible' })
+    document.addEventListener('visibilitychange', report)
+    return () => document.removeEventListener('visibilitychange', report)
+  }, [joined])
+
   useEffect(() => {
     if (joined && !socket) {
-      socket = io(SOCKET_URL)
+      socket = io(SOCKET_URL, { auth: { token: authToken } })
 
       socket.on('connect', () => {
-        socket?.emit('join', { name, userId: ownerId })
+        // identity comes from the token; the server ignores any name/userId sent here
+        socket?.emit('join')
+        // a (re)connection counts as active; correct that if the tab is in the background
+        if (document.visibilityState !== 'visible') socket?.emit('presence:state', { away: true })
+      })
+
+      socket.on('connect_error', async (err: Error) => {
+        // access token rejected in the handshake: refresh once and reconnect, else back to sign-in
+        if (err.message === 'rate_limited') addSystemMessage('Too many connections from this address; try again in a minute', 'connect:' + Date.now())
+        if (err.message !== 'unauthorized') return
+        let t: string
+        try {
+          t = await refreshAccessToken()
+        } catch {
+          // the refresh itself failed: keep the tokens and try the handshake again shortly
+          setTimeout(() => socket?.connect(), 5000)
+          return
+        }
+        if (!t) { signOut(); return }
+        setAuthToken(t)
+        if (socket) { socket.auth = { token: t }; socket.connect() }
       })
 
+      socket.on('session:revoked', () => signOut())
+
+      socket.on('error', (e: { event?: string; code?: string; message?: string }) => {
+        addSystemMessage(`Error${e?.event ? ` (${e.event})` : ''}: ${e?.message || e?.code || 'unknown'}`, 'error:' + Date.now())
+      })
+
+      // thread replies only show in the open thread, never in the main stream
+      const addReply = (m: ChatMessage) => {
+        if (threadRootRef.current?.id === m.parentId) setThreadReplies((s) => [...s, m])
+      }
+
+      // anything from someone else that reaches this client counts as delivered
+      const ackDelivered = (m: ChatMessage) => {
+        if (m.userId && m.userId !== ownerId) socket?.emit('receipt:delivered', { id: m.id })
+      }
+
       socket.on('message', (m: ChatMessage) => {
+        ackDelivered(m)
+        if (m.parentId) { addReply(m); return }
         setMessages((s) => [...s, m])
       })
 
+      socket.on('dm', (m: ChatMessage) => {
+        ackDelivered(m)
+        if (m.parentId) { addReply(m); return }
+        if (activeDmRef.current?.conversationId === m.conversationId) {
+          setDmMessages((s) => [...s, m])
+          return
+        }
+        const other = m.userId === ownerId ? m.to : m.userId
+        if (other) setDmUnread((u) => ({ ...u, [other]: (u[other] || 0) + 1 }))
+      })
+
+      // apply an edit/delete to whichever list holds the message
+      const patchMessage = (id: string, patch: Partial<ChatMessage> | ((m: ChatMessage) => Partial<ChatMessage>)) => {
+        const merge = (m: ChatMessage) => ({ ...m, ...(typeof patch === 'function' ? patch(m) : patch) })
+        const apply = (list: ChatMessage[]) => list.map((m) => (m.id === id ? merge(m) : m))
+        setMessages(apply)
+        setDmMessages(apply)
+        setThreadReplies(apply)
+        setThreadRoot((r) => (r && r.id === id ? merge(r) : r))
+      }
+      socket.on('thread:update', (e: { id: string; replyCount: number; lastReplyAt: number }) => {
+        patchMessage(e.id, { replyCount: e.replyCount, lastReplyAt: e.lastReplyAt })
+      })
+      socket.on('message:edit', (e: { id: string; text: string; editedAt: number; edits: ChatMessage['edits'] }) => {
+        patchMessage(e.id, { text: e.text, editedAt: e.editedAt, edits: e.edits })
+      })
+      socket.on('message:delete', (e: { id: string }) => {
+        patchMessage(e.id, { text: '', edits: [], reactions: [], poll: null, deleted: true })
+      })
+      socket.on('reaction', (e: { id: string; reactions: ChatMessage['reactions'] }) => {
+        patchMessage(e.id, { reactions: e.reactions })
+      })
+      // live poll counts carry no myVotes; keep the ones this client knows
+      socket.on('poll:update', (e: { id: string; poll: Poll }) => {
+        patchMessage(e.id, (m) => ({ poll: { ...e.poll, myVotes: m.poll?.myVotes } }))
+      })
+
+      // only pending schedules are listed; a failed one is reported once
+      socket.on('schedule', (e: Schedule) => {
+        setSchedules((list) => {
+          const rest = list.filter((x) => x.id !== e.id)
+          return e.status === 'pending' ? [...rest, e].sort((a, b) => a.sendAt - b.sendAt) : rest
+        })
+        if (e.status === 'failed') addSystemMessage(`Scheduled message not sent: ${SCHEDULE_ERRORS[e.error || ''] || e.error}`, 'schedule:' + e.id)
+      })
+      socket.on('reminder', (e: Reminder) => {
+        const about = e.message ? ` — ${e.message.name}: "${e.message.text}"` : e.messageId ? ' (message no longer available)' : ''
+        addSystemMessage(`⏰ Reminder: ${e.note || ''}${about}`, 'reminder:' + e.id)
+      })
+
+      socket.on('receipt', (e: Receipt & { room: string | null; conversationId: string | null }) => {
+        const scope = receiptScope(e)
+        setReceipts((all) => ({ ...all, [scope]: { ...all[scope], [e.userId]: { userId: e.userId, deliveredTs: e.deliveredTs, readTs: e.readTs } } }))
+      })
+
+      socket.on('typing', (e: { room: string | null; conversationId: string | null; users: Array<{ userId: string; name: string }> }) => {
+        setTyping((all) => ({ ...all, [receiptScope(e)]: e.users }))
+      })
+
+      socket.on('presence', (p: PresenceInfo) => {
+        setContacts((prev) => prev.map((c) => c.id === p.userId ? { ...c, online: p.status !== 'offline', status: p.status, lastSeen: p.lastSeen } : c))
+      })
+
+      socket.on('status', (e: { userId: string; customStatus: CustomStatus | null }) => {
+        setUsers((prev) => prev.map((u: any) => u.userId === e.userId ? { ...u, customStatus: e.customStatus } : u))
+        setContacts((prev) => prev.map((c) => c.id === e.userId ? { ...c, customStatus: e.customStatus } : c))
+        if (e.userId === getStored('echo:userId')) setMyStatus(e.customStatus)
+      })
+
+      socket.on('call:busy', ({ from, reason }: { from: string; reason?: 'dnd' }) => callBusyRef.current(from, reason))
+
       socket.on('users', (u: Array<{name?: string}>) => {
         setUsers(u)
       })
@@ -126,6 +474,15 @@ export default function App() {
         setUsers(u)
       })
 
+      // kicks and bans pull our sockets out of the room server-side; follow that locally
+      socket.on('moderation', (e: ModerationEvent) => {
+        const me = getStored('echo:userId')
+        const who = (id: string | null) => (id === me ? 'You' : (id && roomMembersRef.current[id]?.name) || 'A user')
+        addSystemMessage(describeModeration(e, who), 'mod:' + e.ts + ':' + e.action)
+        if (e.targetId === me && (e.action === 'kick' || e.action === 'ban') && roomRef.current === e.room) setRoom(null)
+        else if (roomRef.current === e.room) loadRoomMembers(e.room)
+      })
+
       socket.on('user:join', (u) => {
         setMessages((s) => [...s, { id: u.id, name: 'System', text: `${u.name} joined`, ts: Date.now() }])
       })
@@ -169,7 +526,7 @@ export default function App() {
         if (incomingTimeoutRef.current) { clearTimeout(incomingTimeoutRef.current); incomingTimeoutRef.current = null }
         incomingTimeoutRef.current = window.setTimeout(() => {
           if (incomingOfferRef.current && incomingOfferRef.current.from === from) {
-            declineIncoming()
+            declineIncoming('missed')
           }
         }, 30000)
       })
@@ -226,7 +583,7 @@ export default function App() {
         if (incomingTimeoutRef.current) { clearTimeout(incomingTimeoutRef.current); incomingTimeoutRef.current = null }
         incomingTimeoutRef.current = window.setTimeout(() => {
           if (incomingOfferRef.current && (incomingOfferRef.current as any).callId === callId) {
-            declineIncoming()
+            declineIncoming('missed')
           }
         }, 30000)
       })
@@ -248,58 +605,115 @@ export default function App() {
   }, [joined, name])
 
   useEffect(() => {
-    // scroll to bottom
-    if (listRef.current) {
-      listRef.current.scrollTop = listRef.current.scrollHeight
+    const el = listRef.current
+    if (!el) return
+    // a search hit was loaded: center it
+    if (focusRef.current) {
+      document.getElementById('msg-' + focusRef.current)?.scrollIntoView({ block: 'center' })
+      focusRef.current = null
+      return
     }
-  }, [messages])
+    // an older page was prepended: keep the same messages in view
+    const from = prependFromRef.current
+    if (from) {
+      prependFromRef.current = null
+      el.scrollTop = el.scrollHeight - from.height + from.top
+      return
+    }
+    // scroll to bottom
+    el.scrollTop = el.scrollHeight
+  }, [messages, dmMessages, activeDm])
 
-  async function loginIfNeeded() {
-    if (authToken) return authToken
+  // Latest page of the room on join / room change
+  useEffect(() => {
+    if (!joined || !authToken) return
+    let cancelled = false
+    const jump = pendingJumpRef.current
+    pendingJumpRef.current = null
+    ;(jump ? fetchContext({ room }, jump) : fetchHistory({ room })).then((page) => {
+      if (!page || cancelled) return
+      setMessages(page.messages)
+      setOlderCursors((c) => ({ ...c, [receiptScope({ room })]: page.olderCursor }))
+      setInContext(!!jump)
+      if (jump) focusMessage(jump.message.id)
+    })
+    return () => { cancelled = true }
+  }, [joined, room])
+
+  // Sign in or sign up with a password account
+  async function submitAuth() {
+    setAuthError('')
+    setAuthBusy(true)
     try {
-      const r = await fetch(SOCKET_URL + '/auth/login', {
+      const path = authMode === 'signup' ? '/auth/register' : '/auth/login'
+      const body = authMode === 'signup' ? { username, password, name: name.trim() || undefined } : { username, password }
+      const r = await fetch(SOCKET_URL + path, {
         method: 'POST', headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ userId: ownerId, name })
+        body: JSON.stringify(body)
       })
       const j = await r.json()
       if (j?.ok && j.token) {
         setToken(j.token)
         setAuthToken(j.token)
-        return j.token as string
+        setOwnerId(j.userId)
+        try { localStorage.setItem('echo:refresh', j.refreshToken) } catch {}
+        setName(j.name || j.username)
+        try {
+          localStorage.setItem('echo:userId', j.userId)
+          localStorage.setItem('echo:name', j.name || j.username)
+        } catch {}
+        setPassword('')
+        return
       }
-    } catch {}
-    return ''
+      setAuthError(AUTH_ERRORS[j?.error] || j?.error || 'Sign in failed')
+    } catch {
+      setAuthError('Could not reach the server')
+    } finally {
+      setAuthBusy(false)
+    }
+  }
+
+  // fetch with the access token; on 401 refresh once and retry, signing out if the session is gone
+  // (a refresh that fails for other reasons returns the 401 and keeps the tokens)
+  async function authFetch(url: string, init: RequestInit = {}) {
+    const send = (t: string) => fetch(url, { ...init, headers: { ...(init.headers as Record<string, string> | undefined), 'Authorization': 'Bearer ' + t } })
+    const r = await send(getToken())
+    if (r.status !== 401) return r
+    const t = await refreshAccessToken().catch(() => null)
+    if (t === null) return r
+    if (!t) { signOut(); return r }
+    setAuthToken(t)
+    return send(t)
+  }
+
+  function signOut() {
+    const token = getToken()
+    if (token) fetch(SOCKET_URL + '/auth/logout', { method: 'POST', headers: { 'Authorization': 'Bearer ' + token } }).catch(() => {})
+    clearAuth()
+    setAuthToken('')
+    setOwnerId('')
+    setContacts([])
+    setSessions([])
+    setJoined(false)
+    socket?.disconnect()
+    socket = null
   }
 
   // Contacts: load from server (fallback to localStorage), and persist to both
   async function loadContacts() {
-    const token = authToken || await loginIfNeeded()
-    try {
-      const r = await fetch(SOCKET_URL + '/contacts?ownerId=' + encodeURIComponent(ownerId), {
-        headers: token ? { 'Authorization': 'Bearer ' + token } : undefined
-      })
-      if (r.status === 401) {
-        // try one re-login
-        const newTok = await loginIfNeeded()
-        if (newTok) {
-          const rr = await fetch(SOCKET_URL + '/contacts?ownerId=' + encodeURIComponent(ownerId), {
-            headers: { 'Authorization': 'Bearer ' + newTok }
-          })
-          const jj = await rr.json()
-          if (jj?.ok && Array.isArray(jj.contacts)) {
-            setContacts(jj.contacts)
-            try { localStorage.setItem('echo:contacts', JSON.stringify(jj.contacts)) } catch {}
-            return
-          }
+    if (authToken && ownerId) {
+      try {
+        const r = await authFetch(SOCKET_URL + '/contacts?ownerId=' + encodeURIComponent(ownerId))
+        if (r.status === 401) return
+        const j = await r.json()
+        if (j?.ok && Array.isArray(j.contacts)) {
+          const list: Contact[] = j.contacts.map((c: any) => ({ id: c.contactId || undefined, name: c.name, online: c.online, status: c.status, lastSeen: c.lastSeen, customStatus: c.customStatus }))
+          setContacts(list)
+          try { localStorage.setItem('echo:contacts', JSON.stringify(list)) } catch {}
+          return
         }
-      }
-      const j = await r.json()
-      if (j?.ok && Array.isArray(j.contacts)) {
-        setContacts(j.contacts)
-        try { localStorage.setItem('echo:contacts', JSON.stringify(j.contacts)) } catch {}
-        return
-      }
-    } catch {}
+      } catch {}
+    }
     // fallback to local
     try {
       const raw = localStorage.getItem('echo:contacts')
@@ -307,7 +721,7 @@ export default function App() {
     } catch {}
   }
   useEffect(() => { loadContacts() }, [])
-  useEffect(() => { if (joined) loadContacts() }, [joined, ownerId])
+  useEffect(() => { if (joined) loadContacts() }, [joined, ownerId, authToken])
   useEffect(() => {
     try { localStorage.setItem('echo:contacts', JSON.stringify(contacts)) } catch {}
   }, [contacts])
@@ -317,11 +731,11 @@ export default function App() {
       if (prev.some((x) => x.name === c.name)) return prev
       return [...prev, c]
     })
-    const token = authToken || await loginIfNeeded()
+    if (!authToken) return
     try {
-      await fetch(SOCKET_URL + '/contacts', {
+      await authFetch(SOCKET_URL + '/contacts', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json', ...(token ? { 'Authorization': 'Bearer ' + token } : {}) },
+        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ ownerId, ownerName, name: c.name, contactId: c.id })
       })
     } catch {}
@@ -329,29 +743,342 @@ export default function App() {
   async function removeContact(contactName: string) {
     const toRemove = contacts.find((c) => c.name === contactName)
     setContacts((prev) => prev.filter((c) => c.name !== contactName))
-    const token = authToken || await loginIfNeeded()
+    if (!authToken) return
     try {
       const qs = new URLSearchParams({ ownerId, name: contactName })
       if (toRemove?.id) qs.set('contactId', toRemove.id)
-      await fetch(SOCKET_URL + '/contacts?' + qs.toString(), { method: 'DELETE', headers: token ? { 'Authorization': 'Bearer ' + token } : undefined })
+      await authFetch(SOCKET_URL + '/contacts?' + qs.toString(), { method: 'DELETE' })
     } catch {}
   }
 
-  // Fetch call history periodically
+  // Direct messages: open (or create) the conversation with a user and load its history
+  // `jump` opens the DM at a search hit instead of the latest page
+  async function openDm(userId: string, dmName: string, jump?: SearchResult) {
+    try {
+      const r = await authFetch(SOCKET_URL + '/conversations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId })
+      })
+      const j = await r.json()
+      if (!j?.ok) { addSystemMessage(`Could not open a DM with ${dmName}`, 'dm:' + userId); return }
+      const dm: DirectChat = { conversationId: j.conversationId, userId, name: j.with?.name || dmName }
+      activeDmRef.current = dm
+      setActiveDm(dm)
+      setDmMessages([])
+      setDmUnread((u) => { const { [userId]: _, ...rest } = u; return rest })
+      const page = jump ? await fetchContext({ conversationId: dm.conversationId }, jump) : await fetchHistory({ conversationId: dm.conversationId })
+      if (page && activeDmRef.current?.conversationId === dm.conversationId) {
+        setDmMessages(page.messages)
+        setOlderCursors((c) => ({ ...c, [dm.conversationId]: page.olderCursor }))
+        setInContext(!!jump)
+        if (jump) focusMessage(jump.message.id)
+      }
+      loadReceipts({ conversationId: dm.conversationId })
+    } catch {}
+  }
+
+  // One page of room or DM history, oldest first; `before`/`after` ask for the page older/newer than that cursor
+  async function fetchHistory(where: { room?: string | null; conversationId?: string; before?: string; after?: string; limit?: number }) {
+    const qs = new URLSearchParams()
+    if (where.conversationId) qs.set('conversationId', where.conversationId)
+    else if (where.room) qs.set('room', where.room)
+    if (where.before) qs.set('before', where.before)
+    if (where.after) qs.set('after', where.after)
+    if (where.limit) qs.set('limit', String(where.limit))
+    try {
+      const r = await authFetch(SOCKET_URL + '/messages?' + qs.toString())
+      const j = await r.json()
+      if (!j?.ok || !Array.isArray(j.messages)) return null
+      return j as { messages: ChatMessage[]; olderCursor: string | null }
+    } catch { return null }
+  }
+
+  // A search hit with the messages around it
+  async function fetchContext(where: { room?: string | null; conversationId?: string }, hit: SearchResult) {
+    const [older, newer] = await Promise.all([
+      fetchHistory({ ...where, before: hit.cursor, limit: 25 }),
+      fetchHistory({ ...where, after: hit.cursor, limit: 25 }),
+    ])
+    if (!older || !newer) return null
+    return { messages: [...older.messages, hit.message, ...newer.messages], olderCursor: older.olderCursor }
+  }
+
+  // Infinite scroll: near the top of the list, prepend the next older page
+  async function onMessagesScroll() {
+    const el = listRef.current
+    if (!el || el.scrollTop > 60 || loadingOlder) return
+    const where = activeDm ? { conversationId: activeDm.conversationId } : { room }
+    const scope = receiptScope(where)
+    const before = olderCursors[scope]
+    if (!before) return
+    setLoadingOlder(true)
+    const page = await fetchHistory({ ...where, before })
+    setLoadingOlder(false)
+    if (!page || receiptScope(activeDmRef.current ? { conversationId: activeDmRef.current.conversationId } : { room }) !== scope) return
+    prependFromRef.current = { height: el.scrollHeight, top: el.scrollTop }
+    if (activeDm) setDmMessages((s) => [...page.messages, ...s])
+    else setMessages((s) => [...page.messages, ...s])
+    setOlderCursors((c) => ({ ...c, [scope]: page.olderCursor }))
+  }
+
+  async function loadReceipts(where: { room?: string | null; conversationId?: string }) {
+    const qs = new URLSearchParams()
+    if (where.conversationId) qs.set('conversationId', where.conversationId)
+    else if (where.room) qs.set('room', where.room)
+    try {
+      const r = await authFetch(SOCKET_URL + '/receipts?' + qs.toString())
+      const j = await r.json()
+      if (!j?.ok || !Array.isArray(j.receipts)) return
+      const byUser: Record<string, Receipt> = {}
+      for (const rc of j.receipts as Receipt[]) byUser[rc.userId] = rc
+      setReceipts((all) => ({ ...all, [receiptScope(where)]: byUser }))
+    } catch {}
+  }
+
+  // DM ticks for own messages: ✓ sent, ✓✓ delivered, blue ✓✓ read
+  function dmTicks(m: ChatMessage) {
+    const r = activeDm ? receipts[receiptScope(m)]?.[activeDm.userId] : undefined
+    if (r && r.readTs >= m.ts) return <span className="ticks read" title="Read">✓✓</span>
+    if (r && r.deliveredTs >= m.ts) return <span className="ticks" title="Delivered">✓✓</span>
+    return <span className="ticks" title="Sent">✓</span>
+  }
+  // Room messages: how many other people have read up to this one
+  function seenBy(m: ChatMessage) {
+    return Object.values(receipts[receiptScope(m)] || {}).filter((r) => r.userId !== m.userId && r.readTs >= m.ts).length
+  }
+
+  function closeDm() {
+    activeDmRef.current = null
+    setActiveDm(null)
+    setDmMessages([])
+  }
+
+  // Rooms: the browser lists public rooms plus everything we are a member of
+  async function loadRooms() {
+    try {
+      const [pub, mine] = await Promise.all([
+        authFetch(SOCKET_URL + '/rooms').then((r) => r.json()),
+        authFetch(SOCKET_URL + '/rooms/mine').then((r) => r.json()),
+      ])
+      if (pub?.ok) setPublicRooms(pub.rooms)
+      if (mine?.ok) setMyRooms(mine.rooms)
+    } catch {}
+  }
+  async function createRoomFromForm() {
+    try {
+      const r = await authFetch(SOCKET_URL + '/rooms', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newRoom.name, topic: newRoom.topic || undefined, isPrivate: newRoom.isPrivate })
+      })
+      const j = await r.json()
+      if (!j?.ok) { addSystemMessage(`Could not create room: ${ROOM_ERRORS[j?.error] || j?.error}`, 'room:' + Date.now()); return }
+      setNewRoom({ name: '', topic: '', isPrivate: false })
+      enterRoom(j.room.name)
+      loadRooms()
+    } catch {}
+  }
+  function enterRoom(name: string | null) {
+    if (activeDm) closeDm()
+    setInviteLink('')
+    setRoom(name)
+  }
+  async function loadRoomMembers(name: string | null) {
+    if (!name) { roomMembersRef.current = {}; setRoomMembers({}); setMyRole(null); return }
+    try {
+      const j = await authFetch(SOCKET_URL + '/rooms/' + encodeURIComponent(name) + '/members').then((r) => r.json())
+      if (!j?.ok || roomRef.current !== name) return
+      const byId: Record<string, RoomMember> = {}
+      for (const m of j.members as RoomMember[]) byId[m.userId] = m
+      roomMembersRef.current = byId
+      setRoomMembers(byId)
+      setMyRole(j.myRole)
+    } catch {}
+  }
+  // Moderation: kick / ban / mute and role changes go over the socket and are checked server-side
+  function moderate(action: 'kick' | 'ban' | 'unban' | 'mute' | 'unmute' | 'role', target: { userId: string; name?: string }, extra: Record<string, unknown> = {}) {
+    if (!socket || !room) return
+    const payload: Record<string, unknown> = { room, userId: target.userId, ...extra }
+    if (action === 'ban' || action === 'mute') {
+      const minutes = window.prompt(`${action === 'ban' ? 'Ban' : 'Mute'} ${target.name || 'user'} for how many minutes?${action === 'ban' ? ' (empty = permanent)' : ''}`, action === 'ban' ? '' : '10')
+      if (minutes === null) return
+      if (minutes.trim()) payload.durationSeconds = Math.round(Number(minutes) * 60)
+      const reason = window.prompt('Reason (optional)')
+      if (reason) payload.reason = reason
+    } else if (action === 'kick') {
+      if (!window.confirm(`Kick ${target.name || 'user'} from ${room}?`)) return
+    }
+    socket.emit('mod:' + action, payload, (res: { ok: boolean; error?: string }) => {
+      if (!res?.ok) addSystemMessage(`Could not ${action} ${target.name || 'user'}: ${MOD_ERRORS[res?.error || ''] || res?.error}`, 'mod:' + Date.now())
+    })
+  }
+  const canModerateRoom = myRole === 'owner' || myRole === 'moderator'
+  async function loadFlags() {
+    if (!room || !canModerateRoom) { setFlags([]); return }
+    try {
+      const j = await authFetch(SOCKET_URL + '/rooms/' + encodeURIComponent(room) + '/flags?status=pending').then((r) => r.json())
+      if (j?.ok && roomRef.current === room) setFlags(j.flags)
+    } catch {}
+  }
+  useEffect(() => { loadFlags() }, [room, canModerateRoom])
+  async function reviewFlag(f: FlaggedMessage, action: 'dismiss' | 'remove') {
+    try {
+      const j = await authFetch(SOCKET_URL + '/flags/' + encodeURIComponent(f.id), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      }).then((r) => r.json())
+      if (!j?.ok && j?.error !== 'already_reviewed') addSystemMessage(`Could not ${action} flagged message: ${j?.error}`, 'flag:' + Date.now())
+    } catch {}
+    loadFlags()
+  }
+  async function createInviteLink() {
+    if (!room) return
+    try {
+      const r = await authFetch(SOCKET_URL + '/rooms/' + encodeURIComponent(room) + '/invites', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({})
+      })
+      const j = await r.json()
+      if (!j?.ok) return
+      const link = `${window.location.origin}${window.location.pathname}?invite=${encodeURIComponent(j.invite.code)}`
+      setInviteLink(link)
+      navigator.clipboard?.writeText(link).catch(() => {})
+    } catch {}
+  }
+  // ?invite=<code> in the page URL: redeem it once signed in, then open the room
+  useEffect(() => {
+    if (!joined) return
+    const params = new URLSearchParams(window.location.search)
+    const code = params.get('invite')
+    if (!code) return
+    params.delete('invite')
+    window.history.replaceState(null, '', window.location.pathname + (params.toString() ? '?' + params.toString() : ''))
+    authFetch(SOCKET_URL + '/invites/' + encodeURIComponent(code), { method: 'POST' })
+      .then((r) => r.json())
+      .then((j) => {
+        if (j?.ok) { enterRoom(j.room.name); loadRooms() }
+        else addSystemMessage(j?.error === 'banned' ? 'You are banned from that room' : 'That invite link is invalid or has expired', 'invite:' + code)
+      })
+      .catch(() => {})
+  }, [joined])
+  useEffect(() => { if (joined) loadRooms() }, [joined])
+  useEffect(() => {
+    if (!joined) return
+    fetch(SOCKET_URL + '/commands').then((r) => r.json()).then((j) => { if (j?.ok) setCommands(j.commands) }).catch(() => {})
+  }, [joined])
+
+  // Sessions: signed-in devices for this account
+  async function loadSessions() {
+    if (!authToken) return
+    try {
+      const r = await authFetch(SOCKET_URL + '/auth/sessions')
+      const j = await r.json()
+      if (j?.ok && Array.isArray(j.sessions)) setSessions(j.sessions)
+    } catch {}
+  }
+  async function revokeSessionById(sessionId: string) {
+    try {
+      await authFetch(SOCKET_URL + '/auth/sessions/' + encodeURIComponent(sessionId), { method: 'DELETE' })
+    } catch {}
+    loadSessions()
+  }
+  useEffect(() => { if (joined) loadSessions() }, [joined])
+
+  async function loadMyStatus() {
+    if (!authToken) return
+    try {
+      const r = await authFetch(SOCKET_URL + '/status')
+      const j = await r.json()
+      if (j?.ok) setMyStatus(j.customStatus)
+    } catch {}
+  }
+  useEffect(() => { if (joined) loadMyStatus() }, [joined])
+
+  // Scheduled messages and reminders run on the server; this list follows `schedule` events
+  async function loadSchedules() {
+    if (!authToken) return
+    try {
+      const r = await authFetch(SOCKET_URL + '/schedules')
+      const j = await r.json()
+      if (j?.ok) setSchedules(j.schedules)
+    } catch {}
+  }
+  useEffect(() => { if (joined) loadSchedules() }, [joined])
+  async function createSchedule(body: Record<string, unknown>) {
+    try {
+      const r = await authFetch(SOCKET_URL + '/schedules', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) })
+      const j = await r.json()
+      if (!j?.ok) addSystemMessage(`Could not schedule: ${SCHEDULE_ERRORS[j?.error] || j?.error}`, 'schedule:' + Date.now())
+      return !!j?.ok
+    } catch {
+      return false
+    }
+  }
+  async function cancelSchedule(id: string) {
+    try {
+      const r = await authFetch(SOCKET_URL + '/schedules/' + encodeURIComponent(id), { method: 'DELETE' })
+      const j = await r.json()
+      if (!j?.ok) addSystemMessage(`Could not cancel: ${SCHEDULE_ERRORS[j?.error] || j?.error}`, 'schedule:' + id)
+    } catch {}
+  }
+  function remindMe(m: ChatMessage) {
+    const minutes = Number(window.prompt('Remind you about this message in how many minutes?', '60'))
+    if (!minutes || minutes <= 0) return
+    createSchedule({ kind: 'reminder', messageId: m.id, inSeconds: Math.round(minutes * 60) })
+  }
+  function scheduleTarget(s: Schedule) {
+    if (s.kind === 'reminder') return '⏰ Reminder'
+    return s.room ? '#' + s.room : 'DM ' + (contacts.find((c) => c.id === s.to)?.name || '')
+  }
+
+  // minutes 0 = until changed
+  async function saveStatus(state: StatusState, text: string, minutes: number) {
+    try {
+      const r = await authFetch(SOCKET_URL + '/status', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ state, text: text || undefined, expiresInSeconds: minutes ? minutes * 60 : undefined }),
+      })
+      const j = await r.json()
+      if (j?.ok) setMyStatus(j.customStatus)
+      else addSystemMessage(`Could not set status: ${STATUS_ERRORS[j?.error] || j?.error}`, 'status:' + Date.now())
+    } catch {}
+  }
+
+  // Fetch call history periodically (latest page); older pages load on demand
   useEffect(() => {
     if (!joined) return
-    const origin = SOCKET_URL
     const fetchLogs = async () => {
       try {
-        const r = await fetch(origin + '/calls')
+        const r = await authFetch(SOCKET_URL + '/calls?limit=20')
         const j = await r.json()
-        if (j && Array.isArray(j.logs)) setCallLogs(j.logs.slice(-20))
+        if (!j?.ok) return
+        setCallLogs((cur) => [...j.calls, ...cur.filter((c) => !j.calls.some((n: CallHistoryEntry) => n.id === c.id) && c.startedAt < (j.calls.at(-1)?.startedAt ?? 0))])
+        setCallsCursor((cur) => cur ?? j.nextCursor)
       } catch {}
     }
     fetchLogs()
     const id = window.setInterval(fetchLogs, 15000)
     return () => window.clearInterval(id)
   }, [joined])
+  async function loadOlderCalls() {
+    if (!callsCursor) return
+    try {
+      const j = await authFetch(SOCKET_URL + '/calls?limit=20&before=' + encodeURIComponent(callsCursor)).then((r) => r.json())
+      if (!j?.ok) return
+      setCallLogs((cur) => [...cur, ...j.calls.filter((n: CallHistoryEntry) => !cur.some((c) => c.id === n.id))])
+      setCallsCursor(j.nextCursor)
+    } catch {}
+  }
+  function markCallsSeen() {
+    const now = Date.now()
+    setCallsSeenAt(now)
+    try { localStorage.setItem('echo:callsSeenAt', String(now)) } catch {}
+  }
+  const unseenMissed = callLogs.filter((c) => c.missed && c.startedAt > callsSeenAt).length
 
   async function ensurePeer(media: CallMedia) {
     // Create peer connection if needed, with Google STUN servers
@@ -458,7 +1185,7 @@ export default function App() {
         addSystemMessage(`Missed ${media === 'video' ? 'video' : 'voice'} call to ${name}`, targetSocketId)
         setRingingWith(null)
         // End the local call attempt
-        endCall()
+        endCall('missed')
       }
     }, 30000)
     callStartRef.current = Date.now()
@@ -473,8 +1200,17 @@ export default function App() {
     socket?.emit('webrtc:offer', { to: inCallWith, sdp: offer, media: 'video' })
   }
 
-  function endCall() {
-    if (inCallWith && socket) socket.emit('webrtc:end', { to: inCallWith })
+  // The callee is in another call or has Do Not Disturb on: stop ringing them
+  callBusyRef.current = (from, reason) => {
+    if (ringingWith !== from) return
+    const name = (users as any[]).find(u => u.id === from)?.name || 'User'
+    addSystemMessage(reason === 'dnd' ? `${name} has Do Not Disturb on` : `${name} is busy`, from)
+    endCall('busy')
+  }
+
+  // reason 'missed' when an unanswered outgoing call timed out; 'busy' when the callee turned it away
+  function endCall(reason?: 'missed' | 'busy') {
+    if (inCallWith && socket && reason !== 'busy') socket.emit('webrtc:end', { to: inCallWith, reason })
     if (activeCallId && socket) socket.emit('call:leave', { callId: activeCallId })
     pcRef.current?.getSenders().forEach((s) => { try { s.track?.stop() } catch {} })
     localStreamRef.current?.getTracks().forEach((t) => { try { t.stop() } catch {} })
@@ -487,7 +1223,7 @@ export default function App() {
     remoteStreamsRef.current.clear()
     setRemotePeers([])
     // If still ringing and not connected, this is a canceled call
-    if (ringingWith) {
+    if (ringingWith && reason !== 'busy') {
       const name = (users as any[]).find(u => u.id === ringingWith)?.name || 'User'
       addSystemMessage(`Canceled call to ${name}`, ringingWith)
     }
@@ -579,10 +1315,11 @@ export default function App() {
     callStartRef.current = Date.now()
   }
 
-  function declineIncoming() {
+  // reason 'missed' when the ring timed out rather than the user declining
+  function declineIncoming(reason?: 'missed') {
     if (!incomingOffer) return
     stopRingtone()
-    socket?.emit('webrtc:end', { to: incomingOffer.from })
+    socket?.emit('webrtc:end', { to: incomingOffer.from, reason })
     setIncomingOffer(null)
     if (incomingTimeoutRef.current) { clearTimeout(incomingTimeoutRef.current); incomingTimeoutRef.current = null }
     incomingOfferRef.current = null
@@ -689,9 +1426,14 @@ export default function App() {
   async function inviteRoomCall(type: CallMedia) {
     if (!socket) return
     const callId = Math.random().toString(36).slice(2)
+    socket.emit('call:invite', { callId, room, type })
+    await joinOwnCall(callId, type)
+  }
+  // Join a group call we started (here or with /call, which sends the invites server-side)
+  async function joinOwnCall(callId: string, type: CallMedia) {
+    if (!socket) return
     setActiveCallId(callId)
     setCallMedia(type)
-    socket.emit('call:invite', { callId, room, type })
     socket.emit('call:join', { callId })
     await ensurePeer(type)
     callStartRef.current = Date.now()
@@ -710,10 +1452,316 @@ export default function App() {
     await ensurePeer(type)
   }
 
+  function saveEdit() {
+    if (!editing || !editing.text.trim() || !socket) return
+    socket.emit('message:edit', { id: editing.id, text: editing.text }, (res: { ok: boolean; error?: string }) => {
+      if (!res?.ok) addSystemMessage(`Edit failed: ${res?.error || 'unknown'}`, 'edit:' + editing.id)
+    })
+    setEditing(null)
+  }
+  function deleteMessage(id: string) {
+    if (!socket || !window.confirm('Delete this message?')) return
+    socket.emit('message:delete', { id }, (res: { ok: boolean; error?: string }) => {
+      if (!res?.ok) addSystemMessage(`Delete failed: ${res?.error || 'unknown'}`, 'delete:' + id)
+    })
+  }
+
+  async function openThread(m: ChatMessage) {
+    threadRootRef.current = m
+    setThreadRoot(m)
+    setThreadReplies([])
+    try {
+      const r = await authFetch(SOCKET_URL + '/messages/' + encodeURIComponent(m.id) + '/thread')
+      const j = await r.json()
+      if (j?.ok && threadRootRef.current?.id === m.id) {
+        setThreadRoot(j.parent)
+        setThreadReplies(j.replies)
+      }
+    } catch {}
+  }
+  // Search: rooms plus our own DMs; the room filter narrows to the current room
+  async function runSearch() {
+    const q = searchQuery.trim()
+    if (!q) { setSearchResults(null); return }
+    const qs = new URLSearchParams({ q })
+    if (searchRoomOnly && room) qs.set('room', room)
+    if (searchFrom) qs.set('from', String(new Date(searchFrom).getTime()))
+    if (searchTo) qs.set('to', String(new Date(searchTo).getTime() + 86_400_000 - 1)) // inclusive end day
+    try {
+      const r = await authFetch(SOCKET_URL + '/messages/search?' + qs.toString())
+      const j = await r.json()
+      setSearchResults(j?.ok ? j.results : [])
+    } catch { setSearchResults([]) }
+  }
+  function focusMessage(id: string) {
+    focusRef.current = id
+    setFocusId(id)
+  }
+  function jumpTo(hit: SearchResult) {
+    const m = hit.message
+    // thread replies are shown in their thread, not the main stream
+    if (m.parentId) { openThread({ ...m, id: m.parentId, text: '', replyCount: 0 }); return }
+    if (m.conversationId) {
+      const other = m.conversationId.split(':').slice(1).find((id) => id !== ownerId)
+      const known = contacts.find((c) => c.id === other)
+      if (other) openDm(other, known?.name || (m.userId === other ? m.name : 'Direct message'), hit)
+      return
+    }
+    if (activeDm) closeDm()
+    if ((m.room ?? null) !== room) {
+      // the room effect picks the jump up once the room changes
+      pendingJumpRef.current = hit
+      setRoom(m.room ?? null)
+      return
+    }
+    fetchContext({ room }, hit).then((page) => {
+      if (!page) return
+      setMessages(page.messages)
+      setOlderCursors((c) => ({ ...c, [receiptScope({ room })]: page.olderCursor }))
+      setInContext(true)
+      focusMessage(m.id)
+    })
+  }
+  async function showLatest() {
+    const where = activeDm ? { conversationId: activeDm.conversationId } : { room }
+    const page = await fetchHistory(where)
+    if (!page) return
+    if (activeDm) setDmMessages(page.messages)
+    else setMessages(page.messages)
+    setOlderCursors((c) => ({ ...c, [receiptScope(where)]: page.olderCursor }))
+    setInContext(false)
+    setFocusId(null)
+  }
+  function renderSnippet(hit: SearchResult) {
+    const parts: React.ReactNode[] = []
+    let at = 0
+    hit.highlights.forEach(([start, end], i) => {
+      if (start > at) parts.push(hit.snippet.slice(at, start))
+      parts.push(<mark key={i}>{hit.snippet.slice(start, end)}</mark>)
+      at = end
+    })
+    parts.push(hit.snippet.slice(at))
+    return parts
+  }
+
+  function closeThread() {
+    threadRootRef.current = null
+    setThreadRoot(null)
+    setThreadReplies([])
+  }
+  function sendReply() {
+    if (!threadMsg.trim() || !socket || !threadRoot) return
+    if (threadRoot.conversationId && activeDm) socket.emit('dm', { to: activeDm.userId, text: threadMsg, parentId: threadRoot.id })
+    else socket.emit('message', { text: threadMsg, parentId: threadRoot.id })
+    setThreadMsg('')
+  }
+
+  function toggleReaction(m: ChatMessage, emoji: string) {
+    if (!socket) return
+    const mine = m.reactions?.find((r) => r.emoji === emoji)?.users.includes(ownerId)
+    socket.emit(mine ? 'reaction:remove' : 'reaction:add', { id: m.id, emoji })
+    setReactingTo(null)
+  }
+
+  // Single choice: clicking your option again takes the vote back; multiple choice toggles each option
+  function votePoll(m: ChatMessage, index: number) {
+    if (!socket || !m.poll) return
+    const mine = myPollVotes(m.poll, ownerId)
+    const options = mine.includes(index) ? mine.filter((i) => i !== index) : m.poll.multiple ? [...mine, index] : [index]
+    socket.emit('poll:vote', { id: m.id, options }, (res: { ok: boolean; error?: string; poll?: Poll }) => {
+      if (!res?.ok) { addSystemMessage(`Vote not counted: ${POLL_ERRORS[res?.error || ''] || res?.error}`, 'poll:' + Date.now()); return }
+      const apply = (list: ChatMessage[]) => list.map((x) => (x.id === m.id ? { ...x, poll: res.poll } : x))
+      setMessages(apply)
+      setThreadRoot((r) => (r && r.id === m.id ? { ...r, poll: res.poll } : r))
+    })
+  }
+  function closePoll(m: ChatMessage) {
+    socket?.emit('poll:close', { id: m.id }, (res: { ok: boolean; error?: string }) => {
+      if (!res?.ok) addSystemMessage(`Could not close the poll: ${POLL_ERRORS[res?.error || ''] || res?.error}`, 'poll:' + Date.now())
+    })
+  }
+  function createPoll() {
+    if (!socket || !pollDraft) return
+    const options = pollDraft.options.map((o) => o.trim()).filter(Boolean)
+    socket.emit('poll:create', {
+      room, question: pollDraft.question, options, multiple: pollDraft.multiple, anonymous: pollDraft.anonymous,
+      closesInSeconds: pollDraft.minutes ? pollDraft.minutes * 60 : undefined,
+    }, (res: { ok: boolean; error?: string; reason?: string }) => {
+      if (res?.ok) setPollDraft(null)
+      else addSystemMessage(`Poll not posted: ${res?.reason || POLL_ERRORS[res?.error || ''] || ROOM_ERRORS[res?.error || ''] || res?.error}`, 'poll:' + Date.now())
+    })
+  }
+  function renderPoll(m: ChatMessage) {
+    const p = m.poll
+    if (!p || m.deleted) return null
+    const mine = myPollVotes(p, ownerId)
+    const total = p.options.reduce((n, o) => n + o.count, 0)
+    return (
+      <div className="poll">
+        {p.options.map((o, i) => (
+          <button key={i} className={'poll-option' + (mine.includes(i) ? ' mine' : '')} disabled={p.closed} onClick={() => votePoll(m, i)}>
+            <span className="poll-bar" style={{ width: `${total ? (o.count / total) * 100 : 0}%` }} />
+            <span>{mine.includes(i) ? '✔ ' : ''}{o.text}</span>
+            <span className="poll-count">{o.count}</span>
+          </button>
+        ))}
+        <div className="poll-meta">
+          {p.voterCount} {p.voterCount === 1 ? 'voter' : 'voters'}
+          {p.multiple && ' · multiple choice'}
+          {p.anonymous && ' · anonymous'}
+          {p.closed ? ' · closed' : p.closesAt ? ` · closes ${new Date(p.closesAt).toLocaleString()}` : ''}
+          {!p.closed && m.userId === ownerId && <button onClick={() => closePoll(m)}>Close poll</button>}
+        </div>
+      </div>
+    )
+  }
+
+  // The server drops a typing flag after a few seconds, so keep re-sending while the user types
+  function typingTarget() {
+    return activeDm ? { conversationId: activeDm.conversationId } : { room }
+  }
+  function onComposerChange(text: string) {
+    setMsg(text)
+    if (!socket) return
+    setCommandPick(0)
+    if (!text || text.startsWith('/')) { stopTyping(); return }
+    if (Date.now() - typingSentRef.current > 3000) {
+      typingSentRef.current = Date.now()
+      socket.emit('typing:start', typingTarget())
+    }
+  }
+  function stopTyping() {
+    if (!socket || !typingSentRef.current) return
+    typingSentRef.current = 0
+    socket.emit('typing:stop', typingTarget())
+  }
+  function typingLabel() {
+    const who = (typing[receiptScope(activeDm ? { conversationId: activeDm.conversationId } : { room })] || []).filter((u) => u.userId !== ownerId)
+    if (who.length === 0) return ''
+    if (who.length === 1) return `${who[0].name} is typing…`
+    if (who.length === 2) return `${who[0].name} and ${who[1].name} are typing…`
+    return 'Several people are typing…'
+  }
+
+  // Files are uploaded as soon as they are picked, dropped or pasted; send() attaches the uploaded ids
+  async function uploadFiles(files: FileList | File[]) {
+    for (const file of Array.from(files)) {
+      setUploading((n) => n + 1)
+      try {
+        const r = await authFetch(SOCKET_URL + '/uploads?name=' + encodeURIComponent(file.name), {
+          method: 'POST',
+          headers: { 'Content-Type': file.type || 'application/octet-stream' },
+          body: file
+        })
+        const j = await r.json().catch(() => null)
+        if (j?.ok) setPendingFiles((p) => [...p, j.attachment])
+        else addSystemMessage(`Could not upload ${file.name}: ${UPLOAD_ERRORS[j?.error] || j?.error || r.status}`, 'upload:' + Date.now())
+      } catch {
+        addSystemMessage(`Could not upload ${file.name}`, 'upload:' + Date.now())
+      } finally {
+        setUploading((n) => n - 1)
+      }
+    }
+  }
+  function onComposerPaste(e: React.ClipboardEvent) {
+    if (e.clipboardData.files.length === 0) return
+    e.preventDefault()
+    uploadFiles(e.clipboardData.files)
+  }
+  function onChatDrop(e: React.DragEvent) {
+    e.preventDefault()
+    setDragOver(false)
+    if (e.dataTransfer.files.length > 0) uploadFiles(e.dataTransfer.files)
+  }
+
+  // Slash commands run on the server, also from a DM view; the ack says what changed so the client can follow
+  function runCommand(text: string) {
+    if (!socket) return
+    if (/^\/call\b/i.test(text) && (inCallWith || activeCallId)) { addSystemMessage('You are already in a call', 'cmd:' + Date.now()); return }
+    socket.emit('message', { text }, (res: CommandReply & { reason?: string }) => {
+      if (res?.reply) addSystemMessage(res.reply, 'cmd:' + Date.now())
+      else if (!res?.ok) addSystemMessage(`Command failed: ${res?.reason || ROOM_ERRORS[res?.error || ''] || res?.error}`, 'cmd:' + Date.now())
+      if (!res?.ok) return
+      const data = res.data || {}
+      if (res.command === 'join' || res.command === 'leave') enterRoom((data.room as string | null) ?? null)
+      else if (res.command === 'nick') {
+        setName(data.name as string)
+        localStorage.setItem('echo:name', data.name as string)
+      } else if (res.command === 'call') joinOwnCall(data.callId as string, data.type as CallMedia)
+    })
+  }
+  const commandMatches = /^\/\w*$/.test(msg) ? commands.filter((c) => ('/' + c.name).startsWith(msg.toLowerCase())) : []
+  function completeCommand(c: SlashCommand) {
+    setMsg('/' + c.name + ' ')
+    setCommandPick(0)
+  }
+  function onComposerKey(e: React.KeyboardEvent) {
+    if (commandMatches.length > 0) {
+      const pick = commandMatches[Math.min(commandPick, commandMatches.length - 1)]
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault()
+        setCommandPick((i) => (i + (e.key === 'ArrowDown' ? 1 : commandMatches.length - 1)) % commandMatches.length)
+        return
+      }
+      // Tab, or Enter on a partial name, completes; Enter on a full name runs it
+      if (e.key === 'Tab' || (e.key === 'Enter' && msg.toLowerCase() !== '/' + pick.name)) {
+        e.preventDefault()
+        completeCommand(pick)
+        return
+      }
+    }
+    if (e.key === 'Enter') send()
+  }
+
+  async function scheduleMessage() {
+    const sendAt = scheduleAt ? new Date(scheduleAt).getTime() : NaN
+    if (!msg.trim() || !sendAt) return
+    if (pendingFiles.length > 0) { addSystemMessage('Attachments cannot be scheduled', 'schedule:' + Date.now()); return }
+    const target = activeDm ? { to: activeDm.userId } : { room }
+    if (await createSchedule({ kind: 'message', ...target, text: msg, sendAt })) {
+      setMsg('')
+      setScheduleAt(null)
+    }
+  }
+
   function send() {
-    if (!msg.trim() || !socket) return
-    socket.emit('message', { text: msg, room })
+    if (scheduleAt !== null) { scheduleMessage(); return }
+    if ((!msg.trim() && pendingFiles.length === 0) || uploading > 0 || !socket) return
+    stopTyping()
+    if (/^\/[a-z]/i.test(msg.trim())) {
+      runCommand(msg.trim())
+      setMsg('')
+      return
+    }
+    const attachments = pendingFiles.map((a) => a.id)
+    if (activeDm) socket.emit('dm', { to: activeDm.userId, text: msg, attachments })
+    else socket.emit('message', { text: msg, room, attachments }, (res: { ok: boolean; error?: string; reason?: string }) => {
+      if (res?.error === 'message_rejected') addSystemMessage(`Not sent: ${res.reason}`, 'send:' + Date.now())
+      else if (!res?.ok && ROOM_ERRORS[res?.error || '']) addSystemMessage(`Not sent: ${ROOM_ERRORS[res.error!]}`, 'send:' + Date.now())
+    })
     setMsg('')
+    setPendingFiles([])
+  }
+
+  if (!authToken) {
+    return (
+      <div className="center">
+        <Background3D lowPower={lowPower} onAutoLowPower={(v) => { setLowPower(v); setAutoLow(true) }} />
+        <form className="card" onSubmit={(e) => { e.preventDefault(); submitAuth() }}>
+          <h2>Echo — {authMode === 'signup' ? 'create account' : 'sign in'}</h2>
+          <input placeholder="Username" autoComplete="username" value={username} onChange={(e) => setUsername(e.target.value)} />
+          {authMode === 'signup' && (
+            <input placeholder="Display name (optional)" value={name} onChange={(e) => setName(e.target.value)} />
+          )}
+          <input type="password" placeholder="Password" autoComplete={authMode === 'signup' ? 'new-password' : 'current-password'} value={password} onChange={(e) => setPassword(e.target.value)} />
+          {authError && <div className="auth-error">{authError}</div>}
+          <button type="submit" disabled={authBusy || !username.trim() || !password}>{authMode === 'signup' ? 'Sign up' : 'Sign in'}</button>
+          <button type="button" className="link" onClick={() => { setAuthMode(authMode === 'signup' ? 'signin' : 'signup'); setAuthError('') }}>
+            {authMode === 'signup' ? 'Have an account? Sign in' : 'New here? Create an account'}
+          </button>
+        </form>
+      </div>
+    )
   }
 
   if (!joined) {
@@ -732,16 +1780,22 @@ export default function App() {
             setJoined(true)
             // when we will connect, client effect will join the room
           }}>Join</button>
+          <button type="button" className="link" onClick={signOut}>Sign out</button>
         </div>
       </div>
     )
   }
 
-  // when joined and socket exists, emit joinRoom if a room was specified
+  // when joined and socket exists, join the selected room (null = global); private rooms can refuse
   useEffect(() => {
-    if (joined && socket && room) {
-      socket.emit('joinRoom', room)
+    if (joined && socket) {
+      roomRef.current = room
+      socket.emit('joinRoom', room, (res: { ok: boolean; error?: string }) => {
+        if (!res?.ok) addSystemMessage(`Could not join ${room}: ${ROOM_ERRORS[res?.error || ''] || res?.error}`, 'join:' + room)
+        loadRoomMembers(res?.ok ? room : null)
+      })
     }
+    if (joined) loadReceipts({ room })
   }, [joined, room])
 
   return (
@@ -755,7 +1809,7 @@ export default function App() {
             <p>From: {(users as any[]).find(u => u.id === incomingOffer.from)?.name || 'Unknown'}</p>
             <div className="actions">
               <button className="accept" onClick={acceptIncoming}>{incomingOffer.media === 'video' ? 'Accept Video' : 'Accept Audio'}</button>
-              <button className="decline" onClick={declineIncoming}>Decline</button>
+              <button className="decline" onClick={() => declineIncoming()}>Decline</button>
             </div>
           </div>
         </div>
@@ -795,7 +1849,12 @@ export default function App() {
           {users.map((u: any, i) => (
             <li key={u.id || i}>
               <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 6 }}>
-                <span>{u.name || 'Anonymous'}</span>
+                <span>
+                  {u.name || 'Anonymous'}
+                  {u.userId && roomMembers[u.userId]?.role !== 'member' && roomMembers[u.userId] && <span className="role-badge">{roomMembers[u.userId].role}</span>}
+                  {u.customStatus && <span className={'status-badge ' + u.customStatus.state} title={u.customStatus.expiresAt ? 'until ' + new Date(u.customStatus.expiresAt).toLocaleString() : ''}>{statusLabel(u.customStatus)}</span>}
+                  {u.userId && roomMembers[u.userId]?.mutedUntil && <span className="role-badge muted" title={'until ' + new Date(roomMembers[u.userId].mutedUntil!).toLocaleString()}>muted</span>}
+                </span>
                 {socket?.id !== u.id && (
                   <span style={{ display: 'flex', gap: 4 }}>
                     <button title="Voice call" onClick={() => startCall(u.id, 'audio')}>📞</button>
@@ -805,20 +1864,66 @@ export default function App() {
                   </span>
                 )}
               </div>
+              {/* moderation actions: only for room owners/moderators, never on ourselves */}
+              {canModerateRoom && room && u.userId && u.userId !== ownerId && roomMembers[u.userId]?.role !== 'owner' && (myRole === 'owner' || roomMembers[u.userId]?.role !== 'moderator') && (
+                <div className="mod-actions">
+                  <button title="Kick from room" onClick={() => moderate('kick', u)}>Kick</button>
+                  <button title="Ban from room" onClick={() => moderate('ban', u)}>Ban</button>
+                  {roomMembers[u.userId]?.mutedUntil
+                    ? <button title="Unmute" onClick={() => moderate('unmute', u)}>Unmute</button>
+                    : <button title="Mute" onClick={() => moderate('mute', u)}>Mute</button>}
+                  {myRole === 'owner' && (roomMembers[u.userId]?.role === 'moderator'
+                    ? <button title="Remove moderator" onClick={() => moderate('role', u, { role: 'member' })}>Demote</button>
+                    : <button title="Make moderator" onClick={() => moderate('role', u, { role: 'moderator' })}>Promote</button>)}
+                </div>
+              )}
             </li>
           ))}
         </ul>
-        {/* Call history (last 20 entries) */}
+        {/* Messages the room's filters flagged or rejected, for owners and moderators */}
+        {canModerateRoom && room && (
+          <div style={{ marginTop: 12 }}>
+            <h4 style={{ margin: '8px 0' }} onClick={loadFlags} title="Refresh">
+              Flagged messages{flags.length > 0 && <span className="badge">{flags.length}</span>}
+            </h4>
+            <div style={{ maxHeight: 160, overflow: 'auto', fontSize: 12, color: '#cbd5e1' }}>
+              {flags.length === 0 && <div>Nothing to review</div>}
+              {flags.map((f) => (
+                <div key={f.id} className="flag-entry">
+                  <div><strong>{f.name || 'Unknown'}</strong>: {f.text || <em>(no text)</em>}</div>
+                  <div style={{ opacity: 0.75 }}>
+                    {f.reason} • {f.rejected ? 'not delivered' : 'delivered'} • {new Date(f.createdAt).toLocaleString()}
+                  </div>
+                  <div className="mod-actions">
+                    <button onClick={() => reviewFlag(f, 'dismiss')}>Dismiss</button>
+                    {f.messageId && <button onClick={() => reviewFlag(f, 'remove')}>Remove message</button>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+        {/* Call history: newest first, missed calls flagged until the list is marked seen */}
         <div style={{ marginTop: 12 }}>
-          <h4 style={{ margin: '8px 0' }}>Call history</h4>
+          <h4 style={{ margin: '8px 0' }} onClick={markCallsSeen} title="Mark missed calls as seen">
+            Call history{unseenMissed > 0 && <span className="badge missed-badge">{unseenMissed} missed</span>}
+          </h4>
           <div style={{ maxHeight: 160, overflow: 'auto', fontSize: 12, color: '#cbd5e1' }}>
             {callLogs.length === 0 && <div>No calls yet</div>}
-            {callLogs.slice().reverse().map((c) => (
-              <div key={c.callId + ':' + c.startedAt} style={{ marginBottom: 6 }}>
-                <div><strong>{c.type}</strong> • {(c.room || 'global')} • {new Date(c.startedAt).toLocaleTimeString()}</div>
-                <div style={{ opacity: 0.75 }}>by {c.initiator.slice(0,6)} • {c.participants.length} participants{c.endedAt ? '' : ' • live'}</div>
+            {callLogs.map((c) => (
+              <div key={c.id} className={'call-entry' + (c.missed ? ' missed' : '')}>
+                <div>
+                  <span title={c.direction}>{c.direction === 'incoming' ? '↙' : '↗'}</span>{' '}
+                  <strong>{callPeerNames(c)}</strong> • {c.media === 'video' ? 'video' : 'voice'}
+                  {c.missed && c.startedAt > callsSeenAt && <span className="badge missed-badge">missed</span>}
+                </div>
+                <div style={{ opacity: 0.75 }}>
+                  {new Date(c.startedAt).toLocaleString()} • {c.endedAt === null ? (c.outcome ? 'live' : 'ringing') : c.outcome === 'answered' ? formatDuration(c.durationMs) : c.outcome}
+                  {c.kind === 'group' && c.room ? ` • ${c.room}` : ''}
+                </div>
               </div>
             ))}
+            {callsCursor && <button className="link" onClick={loadOlderCalls}>Older calls</button>}
           </div>
         </div>
         {/* Contacts */}
@@ -840,12 +1945,18 @@ export default function App() {
                   <span>
                     {c.name}
                     {'online' in c && (c as any).online !== undefined && (
-                      <span style={{ marginLeft: 6, fontSize: 11, color: (c as any).online ? '#34d399' : '#9aa6bf' }}>
-                        {(c as any).online ? '• online' : '• offline'}
+                      <span style={{ marginLeft: 6, fontSize: 11, color: c.status === 'away' ? '#fbbf24' : (c as any).online ? '#34d399' : '#9aa6bf' }}>
+                        • {c.status ? describePresence(c) : (c as any).online ? 'online' : 'offline'}
                       </span>
                     )}
+                    {c.customStatus && <span className={'status-badge ' + c.customStatus.state}>{statusLabel(c.customStatus)}</span>}
                   </span>
                   <span style={{ display:'flex', gap:4 }}>
+                    {c.id && c.id !== ownerId && (
+                      <button title="Direct message" onClick={() => openDm(c.id!, c.name)}>
+                        💬{dmUnread[c.id] ? <span className="badge">{dmUnread[c.id]}</span> : null}
+                      </button>
+                    )}
                     {(() => {
                       const match = (users as any[]).find(x => (c.id && x.userId === c.id) || x.name === c.name)
                       return match ? (
@@ -862,9 +1973,136 @@ export default function App() {
             </ul>
           </div>
         </div>
+        {/* Rooms */}
+        <div style={{ marginTop: 12 }} className="rooms-panel">
+          <h4 style={{ margin: '8px 0' }}>Rooms</h4>
+          <ul>
+            <li className={room === null ? 'active' : ''} onClick={() => enterRoom(null)}># global</li>
+            {myRooms.map((r) => (
+              <li key={r.name} className={room === r.name ? 'active' : ''} onClick={() => enterRoom(r.name)} title={r.topic || ''}>
+                {r.isPrivate ? '🔒' : '#'} {r.name}
+              </li>
+            ))}
+          </ul>
+          {publicRooms.filter((r) => !r.member).length > 0 && (
+            <>
+              <div style={{ fontSize: 12, opacity: 0.7, marginTop: 6 }}>Browse public rooms</div>
+              <ul>
+                {publicRooms.filter((r) => !r.member).map((r) => (
+                  <li key={r.name} onClick={() => { enterRoom(r.name); setTimeout(loadRooms, 500) }} title={r.topic || ''}>
+                    # {r.name} <span style={{ opacity: 0.7 }}>· {r.memberCount ?? 0} members{r.topic ? ` · ${r.topic}` : ''}</span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+          <form onSubmit={(e) => { e.preventDefault(); createRoomFromForm() }} style={{ display: 'grid', gap: 6, marginTop: 6 }}>
+            <input placeholder="New room name" value={newRoom.name} onChange={(e) => setNewRoom({ ...newRoom, name: e.target.value })} />
+            <input placeholder="Topic (optional)" value={newRoom.topic} onChange={(e) => setNewRoom({ ...newRoom, topic: e.target.value })} />
+            <label style={{ fontSize: 12 }}>
+              <input type="checkbox" checked={newRoom.isPrivate} onChange={(e) => setNewRoom({ ...newRoom, isPrivate: e.target.checked })} /> Private (invite only)
+            </label>
+            <button type="submit" disabled={!newRoom.name.trim()}>Create room</button>
+          </form>
+          {room && myRooms.some((r) => r.name === room && r.ownerId === ownerId) && (
+            <div style={{ marginTop: 6 }}>
+              <button onClick={createInviteLink}>Create invite link</button>
+              {inviteLink && <input readOnly value={inviteLink} onFocus={(e) => e.target.select()} style={{ width: '100%', marginTop: 4 }} />}
+            </div>
+          )}
+        </div>
+        {/* Search */}
+        <div style={{ marginTop: 12 }} className="search-panel">
+          <h4 style={{ margin: '8px 0' }}>Search</h4>
+          <form onSubmit={(e) => { e.preventDefault(); runSearch() }} style={{ display: 'grid', gap: 6 }}>
+            <input placeholder="Search messages" value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} />
+            <div style={{ display: 'flex', gap: 6 }}>
+              <input type="date" title="From" value={searchFrom} onChange={(e) => setSearchFrom(e.target.value)} />
+              <input type="date" title="To" value={searchTo} onChange={(e) => setSearchTo(e.target.value)} />
+            </div>
+            <label style={{ fontSize: 12 }}>
+              <input type="checkbox" checked={searchRoomOnly} onChange={(e) => setSearchRoomOnly(e.target.checked)} disabled={!room} /> Only {room || 'this room'}
+            </label>
+          </form>
+          {searchResults && (
+            <ul className="search-results">
+              {searchResults.length === 0 && <li>No matches</li>}
+              {searchResults.map((hit) => (
+                <li key={hit.message.id} onClick={() => jumpTo(hit)}>
+                  <div className="meta">
+                    <strong>{hit.message.name}</strong> • {hit.message.conversationId ? 'DM' : (hit.message.room || 'global')} • {new Date(hit.message.ts).toLocaleDateString()}
+                  </div>
+                  <div>{renderSnippet(hit)}</div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        {/* Custom status: Do Not Disturb turns incoming calls away as busy and logs them as missed */}
+        <div style={{ marginTop: 12 }}>
+          <h4 style={{ margin: '8px 0' }}>Status</h4>
+          <div style={{ fontSize: 12, marginBottom: 6 }}>
+            {myStatus ? statusLabel(myStatus) : STATUS_LABELS.available}
+            {myStatus?.expiresAt && <span style={{ opacity: 0.7 }}> until {new Date(myStatus.expiresAt).toLocaleTimeString()}</span>}
+          </div>
+          <div style={{ display:'grid', gap:6 }}>
+            <select id="status-state" defaultValue="available">
+              {(Object.keys(STATUS_LABELS) as StatusState[]).map((k) => <option key={k} value={k}>{STATUS_LABELS[k]}</option>)}
+            </select>
+            <input id="status-text" placeholder="What's happening? (optional)" maxLength={100} />
+            <select id="status-expiry" defaultValue="0">
+              <option value="0">Until I change it</option>
+              <option value="30">30 minutes</option>
+              <option value="60">1 hour</option>
+              <option value="240">4 hours</option>
+              <option value="1440">1 day</option>
+            </select>
+            <div style={{ display:'flex', gap:6 }}>
+              <button onClick={() => {
+                const v = (id: string) => (document.getElementById(id) as HTMLInputElement | HTMLSelectElement | null)?.value || ''
+                saveStatus(v('status-state') as StatusState, v('status-text').trim(), Number(v('status-expiry')))
+              }}>Set status</button>
+              {myStatus && <button onClick={() => saveStatus('available', '', 0)}>Clear</button>}
+            </div>
+          </div>
+        </div>
+        {/* Scheduled messages and reminders, sent by the server at their time */}
+        {schedules.length > 0 && (
+          <div style={{ marginTop: 12 }}>
+            <h4 style={{ margin: '8px 0' }}>Scheduled</h4>
+            <ul style={{ fontSize: 12 }}>
+              {schedules.map((x) => (
+                <li key={x.id} style={{ display:'flex', alignItems:'center', justifyContent:'space-between', gap:6, marginBottom:4 }}>
+                  <span>
+                    {scheduleTarget(x)} • {new Date(x.sendAt).toLocaleString()}
+                    <div style={{ opacity: 0.7 }}>{(x.text || x.note || 'About a message').slice(0, 40)}</div>
+                  </span>
+                  <button title="Cancel" onClick={() => cancelSchedule(x.id)}>✖</button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {/* Sessions */}
+        <div style={{ marginTop: 12 }}>
+          <h4 style={{ margin: '8px 0' }}>Sessions</h4>
+          <ul style={{ fontSize: 12 }}>
+            {sessions.map((x) => (
+              <li key={x.sessionId} style={{ display:'flex', alignItems:'center', justifyContent:'space-between', gap:6, marginBottom:4 }}>
+                <span title={x.device || ''}>
+                  {(x.device || 'Unknown device').slice(0, 24)}{x.current ? ' (this device)' : ''}
+                  <div style={{ opacity: 0.7 }}>{x.ip || '?'} • {new Date(x.lastUsedAt).toLocaleString()}</div>
+                </span>
+                {x.current
+                  ? <button title="Sign out" onClick={signOut}>⎋</button>
+                  : <button title="Revoke session" onClick={() => revokeSessionById(x.sessionId)}>✖</button>}
+              </li>
+            ))}
+          </ul>
+        </div>
       </aside>
 
-      <main className="chat">
+      <main className={'chat' + (dragOver ? ' drag-over' : '')} onDragOver={(e) => { if (e.dataTransfer.types.includes('Files')) { e.preventDefault(); setDragOver(true) } }} onDragLeave={(e) => { if (e.currentTarget === e.target) setDragOver(false) }} onDrop={onChatDrop}>
         {/* Call surface */}
         {(inCallWith || activeCallId) && (
           <div className="call-surface">
@@ -898,7 +2136,7 @@ export default function App() {
               {activeCallId && (
                 <button onClick={() => socket?.emit('call:endAll', { callId: activeCallId })} className="control" title="End for all">End for all</button>
               )}
-              <button onClick={endCall} className="hangup">End Call</button>
+              <button onClick={() => endCall()} className="hangup">End Call</button>
             </div>
           </div>
         )}
@@ -916,20 +2154,171 @@ export default function App() {
             </div>
           </div>
         )}
-        <div className="messages" ref={listRef}>
-          {messages.map((m) => (
-            <div key={m.ts + m.id} className={`message ${m.name === 'System' ? 'system' : ''}`}>
-              <div className="meta"><strong>{m.name}</strong> <span className="time">{new Date(m.ts).toLocaleTimeString()}</span></div>
-              <div className="text">{m.text}</div>
+        {activeDm && (
+          <div className="chat-header">
+            <span>Direct message with <strong>{activeDm.name}</strong></span>
+            <button onClick={closeDm}>Back to {room || 'global'}</button>
+          </div>
+        )}
+        {inContext && (
+          <div className="chat-header">
+            <span>Viewing an earlier message</span>
+            <button onClick={showLatest}>Jump to latest</button>
+          </div>
+        )}
+        <div className="messages" ref={listRef} onScroll={onMessagesScroll}>
+          {loadingOlder && <div className="history-loading">Loading older messages…</div>}
+          {(activeDm ? dmMessages : messages).map((m) => (
+            <div key={m.ts + m.id} id={'msg-' + m.id} className={`message ${m.name === 'System' ? 'system' : ''} ${m.deleted ? 'deleted' : ''} ${focusId === m.id ? 'focused' : ''}`}>
+              <div className="meta">
+                <strong>{m.name}</strong>{m.bot && <span className="bot-badge">BOT</span>} <span className="time">{new Date(m.ts).toLocaleTimeString()}</span>
+                {m.editedAt && !m.deleted && (
+                  <span className="edited" title={(m.edits || []).map((e) => `${new Date(e.ts).toLocaleString()}: ${e.text}`).join('\n')}> (edited)</span>
+                )}
+                {m.userId && m.userId === ownerId && !m.deleted && editing?.id !== m.id && (
+                  <span className="message-actions">
+                    <button title="Edit" onClick={() => setEditing({ id: m.id, text: m.text })}>✎</button>
+                    <button title="Delete" onClick={() => deleteMessage(m.id)}>🗑</button>
+                  </span>
+                )}
+                {m.userId && !m.deleted && editing?.id !== m.id && (
+                  <span className="message-actions">
+                    <button title="Remind me" onClick={() => remindMe(m)}>⏰</button>
+                  </span>
+                )}
+                {m.userId && m.userId !== ownerId && !m.deleted && !activeDm && canModerateRoom && m.room === room && (
+                  <span className="message-actions">
+                    <button title="Delete (moderator)" onClick={() => deleteMessage(m.id)}>🗑</button>
+                  </span>
+                )}
+              </div>
+              {m.userId && m.userId === ownerId && !m.deleted && (
+                activeDm ? <div className="receipt">{dmTicks(m)}</div>
+                  : seenBy(m) > 0 ? <div className="receipt">Seen by {seenBy(m)}</div> : null
+              )}
+              {editing?.id === m.id ? (
+                <div className="edit-row">
+                  <input value={editing.text} autoFocus onChange={(e) => setEditing({ id: m.id, text: e.target.value })} onKeyDown={(e) => { if (e.key === 'Enter') saveEdit(); if (e.key === 'Escape') setEditing(null) }} />
+                  <button onClick={saveEdit}>Save</button>
+                  <button onClick={() => setEditing(null)}>Cancel</button>
+                </div>
+              ) : (
+                <div className={'text' + (m.action && !m.deleted ? ' action' : '')}>{m.deleted ? 'This message was deleted' : m.action ? `* ${m.name} ${m.text}` : m.text}</div>
+              )}
+              {renderPoll(m)}
+              {!m.deleted && (m.attachments || []).length > 0 && (
+                <div className="attachments">
+                  {(m.attachments || []).map((a) => a.thumbnailUrl ? (
+                    <a key={a.id} href={SOCKET_URL + a.url} target="_blank" rel="noreferrer" title={a.name}>
+                      <img src={SOCKET_URL + a.thumbnailUrl} alt={a.name} loading="lazy" />
+                    </a>
+                  ) : (
+                    <a key={a.id} className="file" href={SOCKET_URL + a.url} target="_blank" rel="noreferrer">📎 {a.name} <span>({formatSize(a.size)})</span></a>
+                  ))}
+                </div>
+              )}
+              {m.userId && !m.deleted && (
+                <div className="reactions">
+                  {(m.reactions || []).map((r) => (
+                    <button key={r.emoji} className={'chip' + (r.users.includes(ownerId) ? ' mine' : '')} onClick={() => toggleReaction(m, r.emoji)}>
+                      {r.emoji} {r.count}
+                    </button>
+                  ))}
+                  <button className="chip add" title="Add reaction" onClick={() => setReactingTo(reactingTo === m.id ? null : m.id)}>＋</button>
+                  {reactingTo === m.id && QUICK_REACTIONS.map((e) => (
+                    <button key={e} className="chip" onClick={() => toggleReaction(m, e)}>{e}</button>
+                  ))}
+                  <button className={'chip' + (m.replyCount ? ' replies' : ' add')} onClick={() => openThread(m)}>
+                    {m.replyCount ? `${m.replyCount} ${m.replyCount === 1 ? 'reply' : 'replies'}` : 'Reply'}
+                  </button>
+                </div>
+              )}
             </div>
           ))}
         </div>
 
+        <div className="typing-indicator">{typingLabel()}</div>
+        {(pendingFiles.length > 0 || uploading > 0) && (
+          <div className="pending-files">
+            {pendingFiles.map((a) => (
+              <span key={a.id} className="chip">
+                {a.thumbnailUrl ? <img src={SOCKET_URL + a.thumbnailUrl} alt="" /> : '📎'} {a.name}
+                <button title="Remove" onClick={() => setPendingFiles((p) => p.filter((x) => x.id !== a.id))}>✖</button>
+              </span>
+            ))}
+            {uploading > 0 && <span className="chip">Uploading…</span>}
+          </div>
+        )}
+        {pollDraft && !activeDm && (
+          <div className="poll-form">
+            <input value={pollDraft.question} autoFocus placeholder="Ask a question" maxLength={300} onChange={(e) => setPollDraft({ ...pollDraft, question: e.target.value })} />
+            {pollDraft.options.map((o, i) => (
+              <input key={i} value={o} placeholder={`Option ${i + 1}`} maxLength={100} onChange={(e) => {
+                const options = pollDraft.options.map((x, j) => (j === i ? e.target.value : x))
+                // keep one empty field at the end while there is room for more options
+                if (i === options.length - 1 && e.target.value && options.length < 10) options.push('')
+                setPollDraft({ ...pollDraft, options })
+              }} />
+            ))}
+            <div className="poll-form-row">
+              <label><input type="checkbox" checked={pollDraft.multiple} onChange={(e) => setPollDraft({ ...pollDraft, multiple: e.target.checked })} /> Multiple choice</label>
+              <label><input type="checkbox" checked={pollDraft.anonymous} onChange={(e) => setPollDraft({ ...pollDraft, anonymous: e.target.checked })} /> Anonymous</label>
+              <select value={pollDraft.minutes} onChange={(e) => setPollDraft({ ...pollDraft, minutes: Number(e.target.value) })}>
+                {POLL_DURATIONS.map(([min, label]) => <option key={min} value={min}>{label}</option>)}
+              </select>
+              <button onClick={createPoll} disabled={!pollDraft.question.trim() || pollDraft.options.filter((o) => o.trim()).length < 2}>Post poll</button>
+              <button onClick={() => setPollDraft(null)}>Cancel</button>
+            </div>
+          </div>
+        )}
         <div className="composer">
-          <input value={msg} onChange={(e) => setMsg(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') send() }} placeholder="Type a message..." />
-          <button onClick={send}>Send</button>
+          <label className="attach" title="Attach files">
+            📎<input type="file" multiple hidden onChange={(e) => { if (e.target.files) uploadFiles(e.target.files); e.target.value = '' }} />
+          </label>
+          {(room || activeDm) && (
+            <button className={'attach' + (scheduleAt !== null ? ' active' : '')} title="Schedule message" onClick={() => setScheduleAt(scheduleAt === null ? '' : null)}>⏰</button>
+          )}
+          {scheduleAt !== null && (
+            <input type="datetime-local" className="schedule-at" value={scheduleAt} onChange={(e) => setScheduleAt(e.target.value)} />
+          )}
+          {!activeDm && (
+            <button className="attach" title="New poll" onClick={() => setPollDraft(pollDraft ? null : { question: '', options: ['', ''], multiple: false, anonymous: false, minutes: 0 })}>📊</button>
+          )}
+          {commandMatches.length > 0 && (
+            <ul className="command-suggestions">
+              {commandMatches.map((c, i) => (
+                <li key={c.name} className={i === Math.min(commandPick, commandMatches.length - 1) ? 'active' : ''} onMouseDown={(e) => { e.preventDefault(); completeCommand(c) }}>
+                  <strong>{c.usage}</strong> <span>{c.description}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <input value={msg} onChange={(e) => onComposerChange(e.target.value)} onPaste={onComposerPaste} onBlur={stopTyping} onKeyDown={onComposerKey} placeholder="Type a message, or / for commands..." maxLength={MAX_MESSAGE_LENGTH} />
+          <button onClick={send} disabled={uploading > 0 || scheduleAt === ''}>{scheduleAt !== null ? 'Schedule' : 'Send'}</button>
         </div>
       </main>
+
+      {threadRoot && (
+        <aside className="thread">
+          <div className="chat-header">
+            <span>Thread</span>
+            <button onClick={closeThread}>✖</button>
+          </div>
+          <div className="messages">
+            {[threadRoot, ...threadReplies].map((m, i) => (
+              <div key={m.id} className={`message ${m.deleted ? 'deleted' : ''} ${i === 0 ? 'thread-root' : ''}`}>
+                <div className="meta"><strong>{m.name}</strong>{m.bot && <span className="bot-badge">BOT</span>} <span className="time">{new Date(m.ts).toLocaleTimeString()}</span>{m.editedAt && !m.deleted ? <span className="edited"> (edited)</span> : null}</div>
+                <div className={'text' + (m.action && !m.deleted ? ' action' : '')}>{m.deleted ? 'This message was deleted' : m.action ? `* ${m.name} ${m.text}` : m.text}</div>
+                {renderPoll(m)}
+              </div>
+            ))}
+          </div>
+          <div className="composer">
+            <input value={threadMsg} onChange={(e) => setThreadMsg(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') sendReply() }} placeholder="Reply in thread..." />
+            <button onClick={sendReply}>Reply</button>
+          </div>
+        </aside>
+      )}
     </div>
   )
 }
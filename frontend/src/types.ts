@@ -5,8 +5,90 @@ export type ChatMessage = {
   name: string
   text: string
   ts: number
+  room?: string | null
+  conversationId?: string | null
+  userId?: string | null
+  to?: string
+  editedAt?: number | null
+  edits?: Array<{ text: string; ts: number }>
+  deleted?: boolean
+  reactions?: Reaction[]
+  parentId?: string | null
+  replyCount?: number
+  lastReplyAt?: number | null
+  attachments?: Attachment[]
+  // /me message; posted by a bot
+  action?: boolean
+  bot?: boolean
+  // set when the message is a poll (text is the question)
+  poll?: Poll | null
 }
 
+// Uploaded file; urls are relative to the server
+export type Attachment = { id: string; name: string; contentType: string; size: number; width: number | null; height: number | null; url: string; thumbnailUrl: string | null }
+
+export type Reaction = { emoji: string; count: number; users: string[] }
+
+// Poll counts; voters only when the poll is not anonymous, myVotes (option indexes) when fetched or voted by this user
+export type PollOption = { text: string; count: number; voters?: string[] }
+export type Poll = { options: PollOption[]; multiple: boolean; anonymous: boolean; closesAt: number | null; closedAt: number | null; closed: boolean; voterCount: number; myVotes?: number[] }
+
+// Per-user watermarks (message ts) for one room or DM
+export type Receipt = { userId: string; deliveredTs: number; readTs: number }
+
+// GET /messages/search hit: highlights are [start, end) offsets into snippet
+export type SearchResult = { message: ChatMessage; snippet: string; highlights: Array<[number, number]>; cursor: string }
+
+// Registered room; memberCount/member are filled in by the room listings
+export type RoomSummary = { name: string; topic: string | null; ownerId: string; isPrivate: boolean; createdAt: number; memberCount?: number; member?: boolean }
+
+// Room roles and moderation: members as listed by GET /rooms/:name/members, `moderation` socket events
+export type RoomRole = 'owner' | 'moderator' | 'member'
+export type RoomMember = { userId: string; name: string | null; role: RoomRole; joinedAt: number; mutedUntil: number | null }
+export type ModerationEvent = { room: string; action: 'kick' | 'ban' | 'unban' | 'mute' | 'unmute' | 'delete' | 'role'; actorId: string; targetId: string | null; reason: string | null; until: number | null; role: RoomRole | null; ts: number }
+
+// A message the server's pipeline flagged or rejected (rejected = never delivered), for moderator review
+export type FlaggedMessage = {
+  id: string
+  messageId: string | null
+  room: string | null
+  userId: string | null
+  name: string | null
+  text: string
+  stage: string
+  reason: string
+  rejected: boolean
+  status: 'pending' | 'dismissed' | 'removed'
+  createdAt: number
+}
+
+// Slash command as listed by GET /commands; CommandReply is what a command's ack carries
+export type SlashCommand = { name: string; usage: string; description: string }
+export type CommandReply = { ok: boolean; command: string; reply?: string; error?: string; data?: Record<string, unknown> }
+
+// Scheduled message (to a room, or a DM to `to`) or reminder, as listed by GET /schedules and sent as `schedule`
+export type ScheduleStatus = 'pending' | 'sent' | 'failed' | 'canceled'
+export type Schedule = {
+  id: string
+  kind: 'message' | 'reminder'
+  sendAt: number
+  room: string | null
+  to: string | null
+  text: string | null
+  messageId: string | null
+  note: string | null
+  status: ScheduleStatus
+  error: string | null
+  createdAt: number
+  completedAt: number | null
+  sentMessageId: string | null
+}
+// `reminder` event: message is null when it is gone or no longer visible
+export type Reminder = { id: string; note: string | null; messageId: string | null; message: ChatMessage | null; sendAt: number }
+
+// Direct messages: one conversation per pair of user ids
+export type DirectChat = { conversationId: string; userId: string; name: string }
+
 export type CallMedia = 'audio' | 'video'
 export type CallOffer = { from: string; sdp: RTCSessionDescriptionInit; media: CallMedia; callId?: string }
 export type CallAnswer = { from: string; sdp: RTCSessionDescriptionInit; callId?: string }
@@ -17,9 +99,37 @@ export type CallType = 'audio' | 'video'
 export type CallInvite = { callId: string; type: CallType; from: string; fromName?: string }
 export type CallParticipants = { callId: string; participants: string[] }
 
+// Call history entry from GET /calls, as seen by the signed-in user
+export type CallOutcome = 'answered' | 'declined' | 'missed' | 'busy' | 'canceled'
+export type CallHistoryEntry = {
+  id: string
+  kind: 'direct' | 'group'
+  direction: 'incoming' | 'outgoing'
+  media: CallMedia
+  room: string | null
+  caller: { userId: string; name: string | null }
+  callees: Array<{ userId: string; name: string | null }>
+  outcome: CallOutcome | null // null while ringing
+  startedAt: number
+  answeredAt: number | null
+  endedAt: number | null
+  durationMs: number
+  missed: boolean
+}
+
+// Custom status set by the user; null = available
+export type StatusState = 'available' | 'away' | 'busy' | 'dnd'
+export type CustomStatus = { state: StatusState; text: string | null; expiresAt: number | null }
+
 // Contacts
+export type PresenceStatus = 'online' | 'away' | 'offline'
 export type Contact = {
   id?: string // optional socket or stable user id if known
   name: string
   online?: boolean
+  status?: PresenceStatus
+  lastSeen?: number | null // ms; null = never seen
+  customStatus?: CustomStatus | null
 }
+// `presence` socket event / GET /presence/users entry
+export type PresenceInfo = { userId: string; status: PresenceStatus; lastSeen: number | null; devices: number; customStatus?: CustomStatus | null }
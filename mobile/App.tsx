@@ -1,33 +1,72 @@
 // SPDX-License-Identifier: Apache-2.0
 // Copyright 2025 Echo contributors
-import React, { useEffect, useState } from 'react'
-import { SafeAreaView, View, Text, TextInput, Button, FlatList, StyleSheet, ListRenderItemInfo } from 'react-native'
+import React, { useEffect, useRef, useState } from 'react'
+import { SafeAreaView, View, Text, TextInput, Button, FlatList, StyleSheet, ListRenderItemInfo, TouchableOpacity } from 'react-native'
 import { io, Socket } from 'socket.io-client'
 
 const SOCKET_URL = 'http://localhost:3000'
 let socket: Socket | null = null
 
-interface ChatMessage { name?: string; text: string; ts?: number }
+interface PollOption { text: string; count: number; voters?: string[] }
+interface Poll { options: PollOption[]; multiple: boolean; anonymous: boolean; closesAt: number | null; closed: boolean; voterCount: number; myVotes?: number[] }
+interface ChatMessage { id?: string; name?: string; text: string; ts?: number; poll?: Poll | null }
 interface UserJoinEvent { name: string }
+interface TypingEvent { room: string | null; conversationId: string | null; users: Array<{ userId: string; name: string }> }
 
 export default function App() {
-  const [name, setName] = useState('')
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const [token, setToken] = useState('')
+  // a ref, not state: the socket's connect_error handler outlives renders and must send the latest token
+  const refreshTokenRef = useRef('')
+  const [authError, setAuthError] = useState('')
   const [joined, setJoined] = useState(false)
   const [room, setRoom] = useState<string | null>(null)
   const [msg, setMsg] = useState('')
   const [messages, setMessages] = useState<ChatMessage[]>([])
+  const [userId, setUserId] = useState('')
+  const [typing, setTyping] = useState<string[]>([]) // names typing in this room
+  const typingSentRef = useRef(0)
 
   useEffect(() => {
     if (!joined) return
 
-    const s = io(SOCKET_URL)
+    const s = io(SOCKET_URL, { auth: { token } })
     socket = s
 
     s.on('connect', () => {
-      s.emit('join', name)
+      s.emit('join')
       if (room) s.emit('joinRoom', room)
+    })
+    s.on('connect_error', async (err: Error) => {
+      if (err.message !== 'unauthorized') return
+      // access token expired: rotate the refresh token and reconnect, else back to sign-in
+      try {
+        const r = await fetch(SOCKET_URL + '/auth/refresh', {
+          method: 'POST', headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ refreshToken: refreshTokenRef.current })
+        })
+        const j = await r.json()
+        if (j?.ok && j.token) {
+          refreshTokenRef.current = j.refreshToken
+          s.auth = { token: j.token }
+          s.connect()
+          return
+        }
+      } catch {}
+      setToken('')
+      setJoined(false)
+    })
+    s.on('session:revoked', () => { setToken(''); setJoined(false) })
+    s.on('typing', (e: TypingEvent) => {
+      if (e.conversationId || (e.room ?? null) !== room) return
+      setTyping(e.users.filter((u) => u.userId !== userId).map((u) => u.name))
     })
       s.on('message', (m: ChatMessage) => setMessages((prev: ChatMessage[]) => [...prev, m]))
+      // live poll counts; myVotes is only in our own vote acks, so keep it
+      s.on('poll:update', (e: { id: string; poll: Poll }) =>
+        setMessages((prev: ChatMessage[]) => prev.map((m) => (m.id === e.id ? { ...m, poll: { ...e.poll, myVotes: m.poll?.myVotes } } : m)))
+      )
       s.on('user:join', (u: UserJoinEvent) =>
         setMessages((prev: ChatMessage[]) => [
           ...prev,
@@ -46,21 +85,75 @@ export default function App() {
       s.disconnect()
       socket = null
     }
-  }, [joined, name])
+  }, [joined, token])
+
+  // Sign in with a password account, then join
+  const signIn = async () => {
+    setAuthError('')
+    try {
+      const r = await fetch(SOCKET_URL + '/auth/login', {
+        method: 'POST', headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password })
+      })
+      const j = await r.json()
+      if (j?.ok && j.token) {
+        setToken(j.token)
+        refreshTokenRef.current = j.refreshToken
+        setUserId(j.userId)
+        setPassword('')
+        setJoined(true)
+        return
+      }
+      setAuthError(j?.error === 'invalid_credentials' ? 'Wrong username or password' : (j?.error || 'Sign in failed'))
+    } catch {
+      setAuthError('Could not reach the server')
+    }
+  }
+
+  // typing:start is re-sent every few seconds while typing; the server expires it otherwise
+  const onChangeMsg = (t: string) => {
+    setMsg(t)
+    if (!socket) return
+    if (!t) { stopTyping(); return }
+    if (Date.now() - typingSentRef.current > 3000) {
+      typingSentRef.current = Date.now()
+      socket.emit('typing:start', { room })
+    }
+  }
+  const stopTyping = () => {
+    if (!socket || !typingSentRef.current) return
+    typingSentRef.current = 0
+    socket.emit('typing:stop', { room })
+  }
 
   const send = () => {
     if (!msg.trim() || !socket) return
+    stopTyping()
       socket.emit('message', { text: msg, room })
     setMsg('')
   }
 
+  const myVotes = (p: Poll) => (p.anonymous ? p.myVotes || [] : p.options.flatMap((o, i) => ((o.voters || []).includes(userId) ? [i] : [])))
+
+  // Tapping your own option takes the vote back; multiple-choice polls toggle each option
+  const vote = (m: ChatMessage, index: number) => {
+    if (!socket || !m.id || !m.poll || m.poll.closed) return
+    const mine = myVotes(m.poll)
+    const options = mine.includes(index) ? mine.filter((i) => i !== index) : m.poll.multiple ? [...mine, index] : [index]
+    socket.emit('poll:vote', { id: m.id, options }, (res: { ok: boolean; poll?: Poll }) => {
+      if (res?.ok && res.poll) setMessages((prev: ChatMessage[]) => prev.map((x) => (x.id === m.id ? { ...x, poll: res.poll } : x)))
+    })
+  }
+
   if (!joined) {
     return (
       <SafeAreaView style={styles.center}>
   <Text style={styles.title}>Echo Mobile</Text>
-  <TextInput style={styles.input} placeholder="Your name" value={name} onChangeText={setName} />
+  <TextInput style={styles.input} placeholder="Username" autoCapitalize="none" value={username} onChangeText={setUsername} />
+  <TextInput style={styles.input} placeholder="Password" secureTextEntry value={password} onChangeText={setPassword} />
   <TextInput style={styles.input} placeholder="Room (optional)" value={room || ''} onChangeText={(t: string) => setRoom(t || null)} />
-  <Button title="Join" onPress={() => setJoined(true)} disabled={!name.trim()} />
+  {!!authError && <Text style={styles.error}>{authError}</Text>}
+  <Button title="Sign in & join" onPress={signIn} disabled={!username.trim() || !password} />
       </SafeAreaView>
     )
   }
@@ -74,14 +167,32 @@ export default function App() {
           <View style={styles.msg}>
             <Text style={styles.meta}>{item.name || 'Unknown'}</Text>
             <Text>{item.text}</Text>
+            {item.poll && (
+              <View>
+                {item.poll.options.map((o: PollOption, i: number) => (
+                  <TouchableOpacity key={i} style={[styles.pollOption, myVotes(item.poll!).includes(i) && styles.pollMine]} disabled={item.poll!.closed} onPress={() => vote(item, i)}>
+                    <Text>{o.text}</Text>
+                    <Text style={styles.meta}>{o.count}</Text>
+                  </TouchableOpacity>
+                ))}
+                <Text style={styles.meta}>
+                  {item.poll.voterCount} voted{item.poll.multiple ? ' · multiple choice' : ''}{item.poll.anonymous ? ' · anonymous' : ''}
+                  {item.poll.closed ? ' · closed' : item.poll.closesAt ? ` · closes ${new Date(item.poll.closesAt).toLocaleString()}` : ''}
+                </Text>
+              </View>
+            )}
           </View>
         )}
       />
+      {typing.length > 0 && (
+        <Text style={styles.typing}>{typing.length === 1 ? `${typing[0]} is typing…` : `${typing.length} people are typing…`}</Text>
+      )}
       <View style={styles.composer}>
         <TextInput
           style={[styles.input, { flex: 1, marginBottom: 0 }]}
           value={msg}
-          onChangeText={setMsg}
+          onChangeText={onChangeMsg}
+          onBlur={stopTyping}
           placeholder="Type a message"
         />
         <Button title="Send" onPress={send} />
@@ -96,5 +207,9 @@ const styles = StyleSheet.create({
   input: { borderWidth: 1, borderColor: '#ccc', padding: 8, width: '100%', marginBottom: 8 },
   composer: { flexDirection: 'row', padding: 8, borderTopWidth: 1, borderColor: '#eee' },
   msg: { padding: 8, borderBottomWidth: 1, borderColor: '#eee' },
-  meta: { fontSize: 12, color: '#666' }
+  meta: { fontSize: 12, color: '#666' },
+  error: { color: '#b91c1c', marginBottom: 8 },
+  typing: { paddingHorizontal: 8, fontSize: 12, fontStyle: 'italic', color: '#666' },
+  pollOption: { flexDirection: 'row', justifyContent: 'space-between', borderWidth: 1, borderColor: '#ddd', borderRadius: 6, padding: 8, marginTop: 4 },
+  pollMine: { borderColor: '#2563eb', backgroundColor: '#eff6ff' }
 })
@@ -1,6 +1,11 @@
 Param(
   [string]$ServerUrl = "http://localhost:3000",
-  [string]$AuthUrl = "http://localhost:8080"
+  [string]$AuthUrl = "http://localhost:8080",
+  # Account for the login + contacts check; the check is skipped without one
+  [string]$Username = $env:ECHO_HEALTH_USER,
+  [string]$Password = $env:ECHO_HEALTH_PASSWORD,
+  # Create the account first (local setups with an empty database)
+  [switch]$Register
 )
 
 $ErrorActionPreference = 'Stop'
@@ -29,8 +34,16 @@ if ($authHealth.ok) { Write-Host "AUTH OK:" ($authHealth.data | ConvertTo-Json -
 $serverRoot = Test-Endpoint -Url $ServerUrl
 if ($serverRoot.ok) { Write-Host "SERVER OK:" ($serverRoot.data | ConvertTo-Json -Compress) -ForegroundColor Green } else { Write-Host "SERVER ERR:" $serverRoot.error -ForegroundColor Red }
 
-# Try login and a protected contacts call
-$login = Test-Endpoint -Url "$ServerUrl/auth/login" -Method 'POST' -Body @{ userId = "health-user"; name = "Health" }
+if (-not $Username -or -not $Password) {
+  Write-Host "LOGIN SKIPPED: pass -Username/-Password or set ECHO_HEALTH_USER/ECHO_HEALTH_PASSWORD" -ForegroundColor Yellow
+  Write-Host "Health checks complete." -ForegroundColor Cyan
+  exit 0
+}
+
+# Login (after registering, with -Register; ignored if it already exists) and a protected contacts call
+$creds = @{ username = $Username; password = $Password }
+if ($Register) { $null = Test-Endpoint -Url "$ServerUrl/auth/register" -Method 'POST' -Body ($creds + @{ name = $Username }) }
+$login = Test-Endpoint -Url "$ServerUrl/auth/login" -Method 'POST' -Body $creds
 if (-not $login.ok) {
   Write-Host "LOGIN ERR:" $login.error -ForegroundColor Red
   exit 1
@@ -43,7 +56,7 @@ if (-not $token) {
 
 try {
   $headers = @{ Authorization = "Bearer $token" }
-  $contactsResp = Invoke-RestMethod -Uri "$ServerUrl/contacts?ownerId=health-user" -Method GET -Headers $headers
+  $contactsResp = Invoke-RestMethod -Uri "$ServerUrl/contacts" -Method GET -Headers $headers
   Write-Host "CONTACTS OK:" ($contactsResp | ConvertTo-Json -Compress) -ForegroundColor Green
 } catch {
   Write-Host "CONTACTS ERR:" $_.Exception.Message -ForegroundColor Red
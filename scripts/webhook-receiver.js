@@ -0,0 +1,37 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Echo contributors
+// Local endpoint for trying room webhooks: logs each delivery and checks its signature.
+// Usage: node scripts/webhook-receiver.js [port] [secret]   (or PORT / WEBHOOK_SECRET)
+// Register http://localhost:<port>/ with POST /rooms/:name/webhooks (start the server with WEBHOOK_ALLOWED_HOSTS=localhost).
+// FAIL_STATUS=500 answers every delivery with that status, to watch the server retry.
+const http = require('http')
+const crypto = require('crypto')
+
+const port = Number(process.argv[2] || process.env.PORT || 4000)
+const secret = process.argv[3] || process.env.WEBHOOK_SECRET || ''
+const failStatus = Number(process.env.FAIL_STATUS) || 0
+
+function verify(req, body) {
+  if (!secret) return 'not checked (no secret given)'
+  const ts = req.headers['x-echo-timestamp'] || ''
+  const expected = 'sha256=' + crypto.createHmac('sha256', secret).update(`${ts}.${body}`).digest('hex')
+  const got = String(req.headers['x-echo-signature'] || '')
+  const ok = got.length === expected.length && crypto.timingSafeEqual(Buffer.from(got), Buffer.from(expected))
+  return ok ? 'valid' : 'INVALID'
+}
+
+http.createServer((req, res) => {
+  const chunks = []
+  req.on('data', (c) => chunks.push(c))
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8')
+    console.log(`${new Date().toISOString()} ${req.headers['x-echo-event']} delivery=${req.headers['x-echo-delivery']} signature ${verify(req, body)}`)
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2))
+    } catch {
+      console.log(body)
+    }
+    res.writeHead(failStatus || 204)
+    res.end()
+  })
+}).listen(port, () => console.log(`Webhook receiver listening on http://localhost:${port}/`))
@@ -0,0 +1,125 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Echo contributors
+import crypto from 'crypto'
+import sharp from 'sharp'
+import { isMongoConnected, Attachment } from './db.js'
+import { createStorage } from './storage.js'
+
+export const UPLOAD_MAX_BYTES = Number(process.env.UPLOAD_MAX_BYTES || 10 * 1024 * 1024)
+export const UPLOAD_ALLOWED_TYPES = new Set((process.env.UPLOAD_ALLOWED_TYPES || 'image/png,image/jpeg,image/gif,image/webp,application/pdf,text/plain,application/zip')
+  .split(',').map((s) => s.trim().toLowerCase()).filter(Boolean))
+// attachments one message may carry
+export const MAX_ATTACHMENTS = 10
+// thumbnails fit in a THUMB_SIZE x THUMB_SIZE box
+const THUMB_SIZE = 320
+// Upload urls carry ?exp=&sig=, so only whoever was sent them (with a message, or the upload answer) can fetch the file.
+// exp is rounded up to whole windows, so a file keeps the same url (and stays cached) for a while. Without a fixed
+// UPLOAD_URL_SECRET, links stop working on restart and differ between instances
+const URL_TTL_SECONDS = Number(process.env.UPLOAD_URL_TTL_SECONDS || 24 * 3600)
+const URL_SECRET = process.env.UPLOAD_URL_SECRET || crypto.randomBytes(32).toString('hex')
+
+export type AttachmentInfo = {
+  attachmentId: string
+  name: string
+  contentType: string
+  size: number
+  width?: number | null
+  height?: number | null
+  hasThumbnail: boolean
+  uploadedBy: string
+  createdAt: number
+}
+
+const storage = createStorage()
+// fallback attachment records: attachmentId -> record (bytes are always in storage)
+const inMemAttachments = new Map<string, AttachmentInfo>()
+
+// Keep names printable and short; they are only used for display and Content-Disposition
+function cleanName(raw: unknown) {
+  const name = typeof raw === 'string' ? raw.replace(/[\u0000-\u001f"\\/]/g, '').trim() : ''
+  return (name || 'file').slice(0, 200)
+}
+
+function toInfo(d: any): AttachmentInfo {
+  return {
+    attachmentId: d.attachmentId, name: d.name, contentType: d.contentType, size: d.size,
+    width: d.width ?? null, height: d.height ?? null, hasThumbnail: !!d.hasThumbnail,
+    uploadedBy: d.uploadedBy, createdAt: new Date(d.createdAt).getTime(),
+  }
+}
+
+export type UploadResult = { ok: true; attachment: AttachmentInfo } | { ok: false; error: 'unsupported_type' | 'empty_file' | 'file_too_large' | 'invalid_image' }
+
+// Store an upload; images are decoded (which also rejects files that only claim to be images) and get a webp thumbnail
+export async function createAttachment(input: { data: Buffer; contentType: string; name: unknown; uploadedBy: string }): Promise<UploadResult> {
+  const contentType = input.contentType.split(';')[0].trim().toLowerCase()
+  if (!UPLOAD_ALLOWED_TYPES.has(contentType)) return { ok: false, error: 'unsupported_type' }
+  if (input.data.length === 0) return { ok: false, error: 'empty_file' }
+  if (input.data.length > UPLOAD_MAX_BYTES) return { ok: false, error: 'file_too_large' }
+  const info: AttachmentInfo = {
+    attachmentId: crypto.randomUUID(), name: cleanName(input.name), contentType, size: input.data.length,
+    width: null, height: null, hasThumbnail: false, uploadedBy: input.uploadedBy, createdAt: Date.now(),
+  }
+  let thumb: Buffer | null = null
+  if (contentType.startsWith('image/')) {
+    try {
+      const meta = await sharp(input.data).metadata()
+      info.width = meta.width ?? null
+      info.height = meta.height ?? null
+      thumb = await sharp(input.data, { animated: false }).rotate().resize(THUMB_SIZE, THUMB_SIZE, { fit: 'inside', withoutEnlargement: true }).webp().toBuffer()
+      info.hasThumbnail = true
+    } catch {
+      return { ok: false, error: 'invalid_image' }
+    }
+  }
+  await storage.put(info.attachmentId, input.data)
+  if (thumb) await storage.put(`${info.attachmentId}.thumb`, thumb)
+  if (isMongoConnected()) await Attachment.create({ ...info, createdAt: new Date(info.createdAt) })
+  else inMemAttachments.set(info.attachmentId, info)
+  return { ok: true, attachment: info }
+}
+
+export async function findAttachment(attachmentId: string): Promise<AttachmentInfo | null> {
+  if (isMongoConnected()) {
+    const doc = await Attachment.findOne({ attachmentId }).lean().exec()
+    return doc ? toInfo(doc) : null
+  }
+  return inMemAttachments.get(attachmentId) || null
+}
+
+// Bytes of the file or its thumbnail
+export async function readAttachment(attachmentId: string, thumbnail = false) {
+  return storage.get(thumbnail ? `${attachmentId}.thumb` : attachmentId)
+}
+
+// Resolve ids sent with a message; only the sender's own uploads can be attached
+export async function resolveAttachments(ids: unknown, userId: string): Promise<AttachmentInfo[] | null> {
+  if (ids == null) return []
+  if (!Array.isArray(ids) || ids.length > MAX_ATTACHMENTS || ids.some((id) => typeof id !== 'string')) return null
+  const found = await Promise.all(Array.from(new Set(ids as string[])).map(findAttachment))
+  if (found.some((a) => !a || a.uploadedBy !== userId)) return null
+  return found as AttachmentInfo[]
+}
+
+function urlSignature(attachmentId: string, exp: number) {
+  return crypto.createHmac('sha256', URL_SECRET).update(`${attachmentId}.${exp}`).digest('base64url')
+}
+
+// Seconds a signed url has left; null when it is missing, forged or expired
+export function signedUrlTtl(attachmentId: string, exp: unknown, sig: unknown): number | null {
+  const e = Number(exp)
+  const left = e - Math.floor(Date.now() / 1000)
+  if (!Number.isInteger(e) || left <= 0 || typeof sig !== 'string') return null
+  const expected = urlSignature(attachmentId, e)
+  return sig.length === expected.length && crypto.timingSafeEqual(Buffer.from(sig), Buffer.from(expected)) ? left : null
+}
+
+// Wire shape; urls are relative to the server and valid for one to two URL_TTL_SECONDS windows
+export function publicAttachment(a: Pick<AttachmentInfo, 'attachmentId' | 'name' | 'contentType' | 'size' | 'width' | 'height' | 'hasThumbnail'>) {
+  const exp = (Math.floor(Date.now() / 1000 / URL_TTL_SECONDS) + 2) * URL_TTL_SECONDS
+  const query = `?exp=${exp}&sig=${urlSignature(a.attachmentId, exp)}`
+  return {
+    id: a.attachmentId, name: a.name, contentType: a.contentType, size: a.size, width: a.width ?? null, height: a.height ?? null,
+    url: `/uploads/${a.attachmentId}${query}`, thumbnailUrl: a.hasThumbnail ? `/uploads/${a.attachmentId}/thumbnail${query}` : null,
+  }
+}
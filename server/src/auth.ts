@@ -0,0 +1,144 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Echo contributors
+import express from 'express'
+import crypto from 'crypto'
+import dotenv from 'dotenv'
+import { isSessionActive } from './sessions.js'
+
+dotenv.config()
+
+export const AUTH_URL = process.env.AUTH_URL || 'http://localhost:8080'
+
+// --- auth-rs client ---
+async function callAuth<T>(path: string, body: unknown): Promise<T> {
+  const resp = await fetch(`${AUTH_URL}${path}`, {
+    method: 'POST', headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body)
+  })
+  if (!resp.ok) {
+    const text = await resp.text()
+    throw new Error(`auth ${path} failed (${resp.status}): ${text}`)
+  }
+  return await resp.json() as T
+}
+
+// Argon2 hash via auth-rs POST /hash
+export async function hashPassword(password: string) {
+  const data = await callAuth<{ hash: string }>('/hash', { password })
+  return data.hash
+}
+
+// Check a password against a stored hash via auth-rs POST /verify
+export async function verifyPassword(password: string, hash: string) {
+  const data = await callAuth<{ valid: boolean }>('/verify', { password, hash })
+  return data.valid === true
+}
+
+// Issue a JWT for a user id (and optional session id) via auth-rs POST /token
+export async function issueToken(sub: string, expSeconds = 3600, sid?: string) {
+  const data = await callAuth<{ token: string }>('/token', { sub, exp_seconds: expSeconds, sid })
+  return data.token
+}
+
+// --- Verification keys (auth-rs JWK set, cached) ---
+// Keys are refreshed every JWKS_CACHE_SECONDS; an unknown kid forces a refetch at most every 30s.
+// If auth-rs is unreachable the last good keys stay in use, so local verification keeps working.
+const JWKS_TTL_MS = Number(process.env.JWKS_CACHE_SECONDS || 300) * 1000
+const JWKS_MIN_REFETCH_MS = 30_000
+let jwksKeys = new Map<string, crypto.KeyObject>()
+let jwksFetchedAt = 0
+let jwksAttemptedAt = 0
+let jwksInflight: Promise<void> | null = null
+
+function loadJwks() {
+  if (!jwksInflight) {
+    jwksAttemptedAt = Date.now()
+    jwksInflight = (async () => {
+      try {
+        const resp = await fetch(`${AUTH_URL}/.well-known/jwks.json`)
+        if (!resp.ok) return
+        const data = await resp.json() as { keys?: Array<Record<string, any>> }
+        const next = new Map<string, crypto.KeyObject>()
+        for (const jwk of data.keys || []) {
+          if (jwk.kty !== 'OKP' || jwk.crv !== 'Ed25519' || typeof jwk.kid !== 'string') continue
+          try { next.set(jwk.kid, crypto.createPublicKey({ key: jwk as crypto.JsonWebKey, format: 'jwk' })) } catch {}
+        }
+        jwksKeys = next
+        jwksFetchedAt = Date.now()
+      } catch (e) {
+        console.warn('JWKS fetch failed; keeping cached keys', (e as any)?.message)
+      }
+    })().finally(() => { jwksInflight = null })
+  }
+  return jwksInflight
+}
+
+async function getVerificationKey(kid: string) {
+  if (Date.now() - jwksFetchedAt > JWKS_TTL_MS && Date.now() - jwksAttemptedAt > JWKS_MIN_REFETCH_MS) await loadJwks()
+  let key = jwksKeys.get(kid)
+  if (!key && Date.now() - jwksAttemptedAt > JWKS_MIN_REFETCH_MS) {
+    await loadJwks()
+    key = jwksKeys.get(kid)
+  }
+  return key || null
+}
+
+function decodeSegment(seg: string) {
+  return JSON.parse(Buffer.from(seg, 'base64url').toString('utf8'))
+}
+
+// EdDSA signature + exp check against a cached public key
+function verifyLocally(parts: string[], key: crypto.KeyObject): JwtClaims | null {
+  const signed = Buffer.from(`${parts[0]}.${parts[1]}`)
+  if (!crypto.verify(null, signed, key, Buffer.from(parts[2], 'base64url'))) return null
+  const payload = decodeSegment(parts[1])
+  if (typeof payload?.sub !== 'string' || typeof payload?.exp !== 'number') return null
+  if (payload.exp <= Math.floor(Date.now() / 1000)) return null
+  return { sub: payload.sub, exp: payload.exp, sid: typeof payload.sid === 'string' ? payload.sid : undefined }
+}
+
+async function verifyRemotely(token: string): Promise<JwtClaims | null> {
+  const resp = await fetch(`${AUTH_URL}/token/verify`, {
+    method: 'POST', headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ token })
+  })
+  if (!resp.ok) return null
+  return await resp.json() as JwtClaims
+}
+
+// --- Auth helpers ---
+export type JwtClaims = { sub: string; exp: number; sid?: string }
+// EdDSA tokens with a known kid are verified in-process; anything else (unknown kid, HS256) goes to auth-rs
+export async function verifyJwt(bearer?: string): Promise<JwtClaims | null> {
+  try {
+    if (!bearer) return null
+    const [scheme, token] = bearer.split(' ')
+    if ((scheme || '').toLowerCase() !== 'bearer' || !token) return null
+    const parts = token.split('.')
+    if (parts.length !== 3) return null
+    const header = decodeSegment(parts[0])
+    if (header?.alg === 'EdDSA' && typeof header.kid === 'string') {
+      const key = await getVerificationKey(header.kid)
+      if (key) return verifyLocally(parts, key)
+    }
+    return await verifyRemotely(token)
+  } catch { return null }
+}
+
+// Access tokens must carry a session id whose session is still live (revocation takes effect immediately)
+export async function verifyAccess(bearer?: string): Promise<JwtClaims | null> {
+  const claims = await verifyJwt(bearer)
+  if (!claims || !claims.sid) return null
+  try {
+    return (await isSessionActive(claims.sid, claims.sub)) ? claims : null
+  } catch { return null }
+}
+
+export function requireAuth() {
+  return async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const claims = await verifyAccess(req.headers.authorization)
+    if (!claims) return res.status(401).json({ ok: false, error: 'unauthorized' })
+    ;(req as any).user = claims
+    next()
+  }
+}
@@ -0,0 +1,115 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Echo contributors
+import crypto from 'crypto'
+import express from 'express'
+import { isMongoConnected, Bot } from './db.js'
+
+// A bot account owned by a user. botId doubles as the bot's user id in rooms and messages.
+// webhookUrl (optional) receives the messages of every room the bot is added to, signed with webhookSecret.
+export type BotInfo = {
+  botId: string
+  name: string
+  ownerId: string
+  tokenHash: string
+  webhookUrl: string | null
+  webhookSecret: string
+  createdAt: number
+}
+
+export const MAX_BOTS_PER_USER = 10
+
+// fallback bot store: botId -> bot
+const inMemBots = new Map<string, BotInfo>()
+
+function sha256(v: string) {
+  return crypto.createHash('sha256').update(v).digest('hex')
+}
+
+// Bot tokens are "<botId>.<secret>"; only the hash of the secret is stored
+function newBotToken(botId: string) {
+  const secret = crypto.randomBytes(32).toString('base64url')
+  return { token: `${botId}.${secret}`, hash: sha256(secret) }
+}
+
+export function isBotId(userId: string | null | undefined) {
+  return !!userId && userId.startsWith('bot-')
+}
+
+function toBot(d: any): BotInfo {
+  return { botId: d.botId, name: d.name, ownerId: d.ownerId, tokenHash: d.tokenHash, webhookUrl: d.webhookUrl ?? null, webhookSecret: d.webhookSecret, createdAt: d.createdAt }
+}
+
+// The token is only returned here and by rotateBotToken
+export async function createBot(input: { name: string; ownerId: string; webhookUrl: string | null }): Promise<{ bot: BotInfo; token: string }> {
+  const botId = 'bot-' + crypto.randomUUID()
+  const { token, hash } = newBotToken(botId)
+  const bot: BotInfo = { ...input, botId, tokenHash: hash, webhookSecret: 'whsec_' + crypto.randomBytes(24).toString('hex'), createdAt: Date.now() }
+  if (isMongoConnected()) await Bot.create(bot)
+  else inMemBots.set(botId, bot)
+  return { bot, token }
+}
+
+export async function findBot(botId: string): Promise<BotInfo | null> {
+  if (isMongoConnected()) {
+    const doc = await Bot.findOne({ botId }).lean().exec()
+    return doc ? toBot(doc) : null
+  }
+  return inMemBots.get(botId) || null
+}
+
+export async function listBots(ownerId: string): Promise<BotInfo[]> {
+  if (isMongoConnected()) {
+    const docs = await Bot.find({ ownerId }).sort({ createdAt: 1 }).lean().exec()
+    return docs.map(toBot)
+  }
+  return Array.from(inMemBots.values()).filter((b) => b.ownerId === ownerId)
+}
+
+export async function updateBot(botId: string, patch: Partial<Pick<BotInfo, 'name' | 'webhookUrl' | 'tokenHash'>>): Promise<BotInfo | null> {
+  if (isMongoConnected()) {
+    const doc = await Bot.findOneAndUpdate({ botId }, { $set: patch }, { new: true }).lean().exec()
+    return doc ? toBot(doc) : null
+  }
+  const bot = inMemBots.get(botId)
+  if (!bot) return null
+  Object.assign(bot, patch)
+  return bot
+}
+
+// A new token; the old one stops working (open sockets stay connected)
+export async function rotateBotToken(botId: string): Promise<string | null> {
+  const { token, hash } = newBotToken(botId)
+  return (await updateBot(botId, { tokenHash: hash })) ? token : null
+}
+
+export async function deleteBot(botId: string): Promise<boolean> {
+  if (isMongoConnected()) return (await Bot.deleteOne({ botId })).deletedCount > 0
+  return inMemBots.delete(botId)
+}
+
+export async function verifyBotToken(token: unknown): Promise<BotInfo | null> {
+  if (typeof token !== 'string') return null
+  const dot = token.indexOf('.')
+  if (dot <= 0) return null
+  const bot = await findBot(token.slice(0, dot)).catch(() => null)
+  if (!bot) return null
+  const a = Buffer.from(sha256(token.slice(dot + 1)))
+  const b = Buffer.from(bot.tokenHash)
+  return a.length === b.length && crypto.timingSafeEqual(a, b) ? bot : null
+}
+
+// Bot REST routes: `Authorization: Bot <token>`; the bot lands in (req as any).bot
+export function requireBot() {
+  return async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const [scheme, token] = (req.headers.authorization || '').split(' ')
+    const bot = (scheme || '').toLowerCase() === 'bot' ? await verifyBotToken(token) : null
+    if (!bot) return res.status(401).json({ ok: false, error: 'unauthorized' })
+    ;(req as any).bot = bot
+    next()
+  }
+}
+
+// The webhook secret is shown to the bot's owner; the token never is after creation
+export function publicBot(b: BotInfo) {
+  return { id: b.botId, name: b.name, ownerId: b.ownerId, webhookUrl: b.webhookUrl, webhookSecret: b.webhookSecret, createdAt: b.createdAt }
+}
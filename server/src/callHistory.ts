@@ -0,0 +1,177 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Echo contributors
+import crypto from 'crypto'
+import { isMongoConnected, CallLog } from './db.js'
+import type { CallType, EndedCall } from './calls.js'
+
+export type CallOutcome = 'answered' | 'declined' | 'missed' | 'busy' | 'canceled'
+// outcome null = still ringing; answered with endedAt null = in progress
+export type CallRecord = {
+  callId: string
+  kind: 'direct' | 'group'
+  callerId: string
+  calleeIds: string[]
+  media: CallType
+  room: string | null
+  outcome: CallOutcome | null
+  startedAt: number
+  answeredAt: number | null
+  endedAt: number | null
+  durationMs: number
+  callerSocket: string | null
+  calleeSocket: string | null
+}
+
+// fallback call log: callId -> record
+const inMemCalls = new Map<string, CallRecord>()
+const IN_MEM_CAP = 5000
+
+export const DEFAULT_CALL_PAGE = 20
+export const MAX_CALL_PAGE = 100
+
+function toRecord(d: any): CallRecord {
+  return {
+    callId: d.callId, kind: d.kind, callerId: d.callerId, calleeIds: d.calleeIds || [], media: d.media, room: d.room ?? null,
+    outcome: d.outcome ?? null, startedAt: d.startedAt, answeredAt: d.answeredAt ?? null, endedAt: d.endedAt ?? null,
+    durationMs: d.durationMs || 0, callerSocket: d.callerSocket ?? null, calleeSocket: d.calleeSocket ?? null,
+  }
+}
+
+async function insert(rec: CallRecord) {
+  if (isMongoConnected()) {
+    await CallLog.create(rec)
+    return
+  }
+  inMemCalls.set(rec.callId, rec)
+  if (inMemCalls.size > IN_MEM_CAP) inMemCalls.delete(inMemCalls.keys().next().value as string)
+}
+
+async function update(callId: string, set: Partial<CallRecord>, onlyIf: Partial<CallRecord> = {}): Promise<CallRecord | null> {
+  if (isMongoConnected()) {
+    const doc = await CallLog.findOneAndUpdate({ callId, ...onlyIf }, { $set: set }, { new: true }).lean().exec()
+    return doc ? toRecord(doc) : null
+  }
+  const rec = inMemCalls.get(callId)
+  if (!rec || Object.entries(onlyIf).some(([k, v]) => (rec as any)[k] !== v)) return null
+  Object.assign(rec, set)
+  return rec
+}
+
+// A 1:1 call starts ringing when the caller's first offer goes out
+export async function startDirectCall(c: { callerId: string; calleeId: string; media: CallType; callerSocket: string; calleeSocket: string }): Promise<CallRecord> {
+  const rec: CallRecord = {
+    callId: crypto.randomUUID(), kind: 'direct', callerId: c.callerId, calleeIds: [c.calleeId], media: c.media, room: null,
+    outcome: null, startedAt: Date.now(), answeredAt: null, endedAt: null, durationMs: 0, callerSocket: c.callerSocket, calleeSocket: c.calleeSocket,
+  }
+  await insert(rec)
+  return rec
+}
+
+// The unfinished 1:1 call between two sockets, whichever side placed it
+export async function findLiveDirectCall(socketA: string, socketB: string): Promise<CallRecord | null> {
+  if (isMongoConnected()) {
+    const doc = await CallLog.findOne({
+      kind: 'direct', endedAt: null,
+      $or: [{ callerSocket: socketA, calleeSocket: socketB }, { callerSocket: socketB, calleeSocket: socketA }],
+    }).sort({ startedAt: -1 }).lean().exec()
+    return doc ? toRecord(doc) : null
+  }
+  let found: CallRecord | null = null
+  for (const rec of inMemCalls.values()) {
+    if (rec.kind !== 'direct' || rec.endedAt !== null) continue
+    if ((rec.callerSocket === socketA && rec.calleeSocket === socketB) || (rec.callerSocket === socketB && rec.calleeSocket === socketA)) found = rec
+  }
+  return found
+}
+
+// Every unfinished 1:1 call a socket is part of (used when it disconnects)
+export async function liveDirectCallsOf(socketId: string): Promise<CallRecord[]> {
+  if (isMongoConnected()) {
+    const docs = await CallLog.find({ kind: 'direct', endedAt: null, $or: [{ callerSocket: socketId }, { calleeSocket: socketId }] }).lean().exec()
+    return docs.map(toRecord)
+  }
+  return Array.from(inMemCalls.values()).filter((r) => r.kind === 'direct' && r.endedAt === null && (r.callerSocket === socketId || r.calleeSocket === socketId))
+}
+
+// Ringing -> answered; null if the call already moved on
+export function markAnswered(callId: string) {
+  return update(callId, { outcome: 'answered', answeredAt: Date.now() }, { outcome: null })
+}
+
+// Close a call. An answered call keeps its outcome and gets a duration; a ringing one takes `unanswered`.
+export async function finishDirectCall(rec: CallRecord, unanswered: Exclude<CallOutcome, 'answered'>): Promise<CallRecord | null> {
+  const endedAt = Date.now()
+  if (rec.outcome === 'answered') return update(rec.callId, { endedAt, durationMs: endedAt - (rec.answeredAt || endedAt) }, { endedAt: null })
+  return update(rec.callId, { outcome: unanswered, endedAt }, { endedAt: null })
+}
+
+// A call turned away without ringing (Do Not Disturb) goes straight into the callee's log as missed
+export async function recordMissedCall(c: { callerId: string; calleeId: string; media: CallType; room: string | null; kind: CallRecord['kind'] }): Promise<CallRecord> {
+  const now = Date.now()
+  const rec: CallRecord = {
+    callId: crypto.randomUUID(), kind: c.kind, callerId: c.callerId, calleeIds: [c.calleeId], media: c.media, room: c.room,
+    outcome: 'missed', startedAt: now, answeredAt: null, endedAt: now, durationMs: 0, callerSocket: null, calleeSocket: null,
+  }
+  await insert(rec)
+  return rec
+}
+
+// Group calls are logged once they end: answered if anyone besides the initiator joined
+export async function recordGroupCall(call: EndedCall): Promise<CallRecord> {
+  const calleeIds = call.userIds.filter((id) => id !== call.initiator)
+  const rec: CallRecord = {
+    callId: call.callId, kind: 'group', callerId: call.initiator, calleeIds, media: call.type, room: call.room,
+    outcome: calleeIds.length ? 'answered' : 'canceled', startedAt: call.startedAt, answeredAt: calleeIds.length ? call.startedAt : null,
+    endedAt: call.endedAt, durationMs: call.endedAt - call.startedAt, callerSocket: null, calleeSocket: null,
+  }
+  await insert(rec)
+  return rec
+}
+
+// Pagination cursor: "<startedAt>:<callId>" as base64url
+export function encodeCallCursor(r: Pick<CallRecord, 'startedAt' | 'callId'>) {
+  return Buffer.from(`${r.startedAt}:${r.callId}`).toString('base64url')
+}
+
+export function decodeCallCursor(raw: unknown): { startedAt: number; callId: string } | null {
+  if (typeof raw !== 'string' || !raw) return null
+  const s = Buffer.from(raw, 'base64url').toString('utf8')
+  const sep = s.indexOf(':')
+  const startedAt = Number(s.slice(0, sep))
+  if (sep <= 0 || !Number.isFinite(startedAt) || sep === s.length - 1) return null
+  return { startedAt, callId: s.slice(sep + 1) }
+}
+
+// A user's calls (placed or received), newest first, older than `before`
+export async function listCallsFor(userId: string, opts: { before?: { startedAt: number; callId: string } | null; limit?: number } = {}) {
+  const limit = Math.min(Math.max(opts.limit || DEFAULT_CALL_PAGE, 1), MAX_CALL_PAGE)
+  const b = opts.before
+  let calls: CallRecord[]
+  if (isMongoConnected()) {
+    const q: any = { $or: [{ callerId: userId }, { calleeIds: userId }] }
+    if (b) q.$and = [{ $or: [{ startedAt: { $lt: b.startedAt } }, { startedAt: b.startedAt, callId: { $lt: b.callId } }] }]
+    const docs = await CallLog.find(q).sort({ startedAt: -1, callId: -1 }).limit(limit + 1).lean().exec()
+    calls = docs.map(toRecord)
+  } else {
+    calls = Array.from(inMemCalls.values())
+      .filter((r) => r.callerId === userId || r.calleeIds.includes(userId))
+      .filter((r) => !b || r.startedAt < b.startedAt || (r.startedAt === b.startedAt && r.callId < b.callId))
+      .sort((x, y) => y.startedAt - x.startedAt || (y.callId < x.callId ? -1 : y.callId > x.callId ? 1 : 0))
+      .slice(0, limit + 1)
+  }
+  const more = calls.length > limit
+  calls = calls.slice(0, limit)
+  return { calls, nextCursor: more ? encodeCallCursor(calls[calls.length - 1]) : null }
+}
+
+// As seen by `viewer`: direction, and whether it counts as a missed call for them
+export function publicCall(r: CallRecord, viewer: string, names: Record<string, string | null> = {}) {
+  const incoming = r.callerId !== viewer
+  const person = (userId: string) => ({ userId, name: names[userId] ?? null })
+  return {
+    id: r.callId, kind: r.kind, direction: incoming ? 'incoming' : 'outgoing', media: r.media, room: r.room,
+    caller: person(r.callerId), callees: r.calleeIds.map(person),
+    outcome: r.outcome, startedAt: r.startedAt, answeredAt: r.answeredAt, endedAt: r.endedAt, durationMs: r.durationMs,
+    missed: incoming && r.outcome === 'missed',
+  }
+}
@@ -0,0 +1,110 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Echo contributors
+import type { Redis } from 'ioredis'
+
+export type CallType = 'audio' | 'video'
+// A group call that just ended: who started it and every user who joined at some point
+export type EndedCall = { callId: string; room: string | null; type: CallType; initiator: string; startedAt: number; endedAt: number; userIds: string[] }
+export type CallUpdate = { room: string | null; participants: string[]; ended: EndedCall | null }
+
+// Live group call state shared by every server instance: which sockets are in a call right now.
+// initiator and userIds are account ids; participants are socket ids (signaling targets).
+export interface CallStore {
+  // registers the call on first invite; false if it already existed
+  open(callId: string, info: { room: string | null; type: CallType; initiator: string }): Promise<boolean>
+  // current participants, or null for an unknown/ended call
+  join(callId: string, socketId: string, userId: string): Promise<CallUpdate | null>
+  // the call ends when its last participant leaves
+  leave(callId: string, socketId: string): Promise<CallUpdate | null>
+  end(callId: string): Promise<CallUpdate | null>
+}
+
+export function memoryCallStore(): CallStore {
+  type Live = { room: string | null; type: CallType; initiator: string; startedAt: number; participants: Set<string>; userIds: Set<string> }
+  const active = new Map<string, Live>()
+  const finish = (callId: string, st: Live): EndedCall => {
+    active.delete(callId)
+    return { callId, room: st.room, type: st.type, initiator: st.initiator, startedAt: st.startedAt, endedAt: Date.now(), userIds: Array.from(st.userIds) }
+  }
+  return {
+    async open(callId, info) {
+      if (active.has(callId)) return false
+      active.set(callId, { ...info, startedAt: Date.now(), participants: new Set(), userIds: new Set() })
+      return true
+    },
+    async join(callId, socketId, userId) {
+      const st = active.get(callId)
+      if (!st) return null
+      st.participants.add(socketId)
+      st.userIds.add(userId)
+      return { room: st.room, participants: Array.from(st.participants), ended: null }
+    },
+    async leave(callId, socketId) {
+      const st = active.get(callId)
+      if (!st) return null
+      st.participants.delete(socketId)
+      const ended = st.participants.size === 0 ? finish(callId, st) : null
+      return { room: st.room, participants: Array.from(st.participants), ended }
+    },
+    async end(callId) {
+      const st = active.get(callId)
+      if (!st) return null
+      return { room: st.room, participants: Array.from(st.participants), ended: finish(callId, st) }
+    },
+  }
+}
+
+// Redis layout: `call:<id>` hash (room, type, initiator, startedAt), `call:<id>:active` socket set and
+// `call:<id>:users` set of everyone who joined. Keys expire a day after the last change.
+const CALL_TTL_SECONDS = 24 * 3600
+
+export function redisCallStore(redis: Redis): CallStore {
+  const key = (callId: string) => `call:${callId}`
+  const touch = (callId: string) => redis.multi()
+    .expire(key(callId), CALL_TTL_SECONDS).expire(`${key(callId)}:active`, CALL_TTL_SECONDS).expire(`${key(callId)}:users`, CALL_TTL_SECONDS)
+    .exec()
+  const state = async (callId: string) => {
+    const h = await redis.hgetall(key(callId))
+    return h.startedAt ? h : null
+  }
+  const members = (callId: string) => redis.smembers(`${key(callId)}:active`)
+  // only the node whose del removes the hash reports the end, so a racing leave/endAll logs it once
+  const finish = async (callId: string, h: Record<string, string>): Promise<EndedCall | null> => {
+    const [[, userIds], [, removed]] = (await redis.multi().smembers(`${key(callId)}:users`).del(key(callId), `${key(callId)}:active`, `${key(callId)}:users`).exec()) as [[unknown, string[]], [unknown, number]]
+    if (!removed) return null
+    return { callId, room: h.room || null, type: h.type as CallType, initiator: h.initiator, startedAt: Number(h.startedAt), endedAt: Date.now(), userIds }
+  }
+
+  return {
+    async open(callId, info) {
+      if (!(await redis.hsetnx(key(callId), 'startedAt', String(Date.now())))) return false
+      await redis.hset(key(callId), { room: info.room || '', type: info.type, initiator: info.initiator })
+      await touch(callId)
+      return true
+    },
+    async join(callId, socketId, userId) {
+      const h = await state(callId)
+      if (!h) return null
+      await redis.multi().sadd(`${key(callId)}:active`, socketId).sadd(`${key(callId)}:users`, userId).exec()
+      await touch(callId)
+      return { room: h.room || null, participants: await members(callId), ended: null }
+    },
+    async leave(callId, socketId) {
+      const h = await state(callId)
+      if (!h) return null
+      await redis.srem(`${key(callId)}:active`, socketId)
+      const participants = await members(callId)
+      return { room: h.room || null, participants, ended: participants.length === 0 ? await finish(callId, h) : null }
+    },
+    async end(callId) {
+      const h = await state(callId)
+      if (!h) return null
+      const participants = await members(callId)
+      return { room: h.room || null, participants, ended: await finish(callId, h) }
+    },
+  }
+}
+
+export function createCallStore(redis: Redis | null): CallStore {
+  return redis ? redisCallStore(redis) : memoryCallStore()
+}
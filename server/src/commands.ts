@@ -0,0 +1,187 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Echo contributors
+import type { CallType } from './calls.js'
+
+// reply = text for the sender only; data goes back in the ack too (e.g. { room } after /join)
+export type CommandResult =
+  | { ok: true; reply?: string; data?: Record<string, unknown> }
+  | { ok: false; error: string; reply: string }
+
+// What commands may do for the sender; the socket layer supplies these for its connection
+export type CommandContext = {
+  userId: string
+  name: string
+  room: string | null
+  joinRoom(name: string | null): Promise<{ ok: true; room: string | null } | { ok: false; error: string; message: string }>
+  setNick(name: string): Promise<{ ok: true; name: string } | { ok: false; error: string }>
+  postAction(text: string): Promise<{ ok: true; id: string } | { ok: false; error: string; reason?: string }>
+  createPoll(question: string, options: string[]): Promise<{ ok: true; id: string } | { ok: false; error: string; reason?: string }>
+  remind(inSeconds: number, note: string): Promise<{ ok: true; id: string; sendAt: number } | { ok: false; error: string }>
+  topicOf(room: string): Promise<{ ok: true; topic: string | null } | { ok: false; error: string }>
+  setTopic(room: string, topic: string): Promise<{ ok: true } | { ok: false; error: string }>
+  startCall(type: CallType): Promise<{ callId: string }>
+}
+
+export type SlashCommand = { name: string; usage: string; description: string; run(ctx: CommandContext, args: string): Promise<CommandResult> }
+
+const commands = new Map<string, SlashCommand>()
+
+// Add a command; it answers to "/<name>" in any message sent over the socket
+export function registerCommand(cmd: SlashCommand) {
+  commands.set(cmd.name, cmd)
+}
+
+export function listCommands() {
+  return Array.from(commands.values()).map(({ name, usage, description }) => ({ name, usage, description })).sort((a, b) => a.name.localeCompare(b.name))
+}
+
+// "/name args" is a command; "//text" is not (the message handler posts it as "/text")
+export function parseCommand(text: string): { name: string; args: string } | null {
+  const m = /^\/([a-z][\w-]*)(?:\s+([\s\S]*))?$/i.exec(text.trim())
+  return m ? { name: m[1].toLowerCase(), args: (m[2] || '').trim() } : null
+}
+
+// A command that throws answers with command_failed instead of taking the socket handler down
+export async function runCommand(cmd: { name: string; args: string }, ctx: CommandContext): Promise<CommandResult & { command: string }> {
+  const found = commands.get(cmd.name)
+  if (!found) return { ok: false, command: cmd.name, error: 'unknown_command', reply: `Unknown command /${cmd.name}. Type /help for the list` }
+  try {
+    return { ...(await found.run(ctx, cmd.args)), command: found.name }
+  } catch (e) {
+    console.error(`Command /${cmd.name} failed`, e)
+    return { ok: false, command: found.name, error: 'command_failed', reply: `/${cmd.name} failed` }
+  }
+}
+
+const usageError = (cmd: string): CommandResult => ({ ok: false, error: 'invalid_args', reply: `Usage: ${commands.get(cmd)?.usage}` })
+
+// Readable text for the error codes the context hands back
+const ERROR_TEXT: Record<string, string> = {
+  forbidden: 'you are not allowed to do that here',
+  room_not_found: 'no such room',
+  invalid_name: 'names are 1-32 characters',
+  not_in_room: 'you are not in a room',
+  muted: 'you are muted in this room',
+  banned: 'you are banned from this room',
+  message_too_long: 'that is too long',
+  invalid_topic: 'topics are at most 200 characters',
+  invalid_poll: 'a poll needs a question and 2-10 different options',
+  invalid_time: 'pick a time within the next year',
+  invalid_schedule: 'notes are at most 200 characters',
+  too_many_schedules: 'you have too many pending reminders and scheduled messages',
+}
+const fail = (error: string, reason?: string): CommandResult => ({ ok: false, error, reply: reason || ERROR_TEXT[error] || error })
+
+// --- Built-in commands ---
+
+registerCommand({
+  name: 'help',
+  usage: '/help [command]',
+  description: 'List commands, or show how to use one',
+  async run(_ctx, args) {
+    if (args) {
+      const cmd = commands.get(args.replace(/^\//, '').toLowerCase())
+      return cmd ? { ok: true, reply: `${cmd.usage} — ${cmd.description}` } : fail('unknown_command', `Unknown command ${args}`)
+    }
+    return { ok: true, reply: listCommands().map((c) => `${c.usage} — ${c.description}`).join('\n'), data: { commands: listCommands() } }
+  },
+})
+
+registerCommand({
+  name: 'nick',
+  usage: '/nick <name>',
+  description: 'Change your display name',
+  async run(ctx, args) {
+    if (!args) return usageError('nick')
+    const res = await ctx.setNick(args)
+    return res.ok ? { ok: true, reply: `You are now ${res.name}`, data: { name: res.name } } : fail(res.error)
+  },
+})
+
+registerCommand({
+  name: 'join',
+  usage: '/join <room>',
+  description: 'Join a room',
+  async run(ctx, args) {
+    if (!args) return usageError('join')
+    const res = await ctx.joinRoom(args.replace(/^#/, ''))
+    return res.ok ? { ok: true, reply: `Joined #${res.room}`, data: { room: res.room } } : fail(res.error, res.message)
+  },
+})
+
+registerCommand({
+  name: 'leave',
+  usage: '/leave',
+  description: 'Leave the current room for global chat',
+  async run(ctx) {
+    if (!ctx.room) return fail('not_in_room')
+    const left = ctx.room
+    const res = await ctx.joinRoom(null)
+    return res.ok ? { ok: true, reply: `Left #${left}`, data: { room: null } } : fail(res.error, res.message)
+  },
+})
+
+registerCommand({
+  name: 'me',
+  usage: '/me <action>',
+  description: 'Describe what you are doing ("* name waves")',
+  async run(ctx, args) {
+    if (!args) return usageError('me')
+    const res = await ctx.postAction(args)
+    return res.ok ? { ok: true, data: { id: res.id } } : fail(res.error, res.reason)
+  },
+})
+
+registerCommand({
+  name: 'topic',
+  usage: '/topic [text]',
+  description: "Show the room's topic, or set it (room owner)",
+  async run(ctx, args) {
+    if (!ctx.room) return fail('not_in_room')
+    if (!args) {
+      const res = await ctx.topicOf(ctx.room)
+      if (!res.ok) return fail(res.error)
+      return { ok: true, reply: res.topic ? `Topic of #${ctx.room}: ${res.topic}` : `#${ctx.room} has no topic`, data: { topic: res.topic } }
+    }
+    const res = await ctx.setTopic(ctx.room, args)
+    return res.ok ? { ok: true, reply: 'Topic set', data: { topic: args } } : fail(res.error)
+  },
+})
+
+registerCommand({
+  name: 'call',
+  usage: '/call [audio|video]',
+  description: 'Start a group call in the current room',
+  async run(ctx, args) {
+    const type = (args || 'audio').toLowerCase()
+    if (type !== 'audio' && type !== 'video') return usageError('call')
+    const { callId } = await ctx.startCall(type)
+    return { ok: true, reply: `Calling ${ctx.room ? '#' + ctx.room : 'everyone'}…`, data: { callId, type } }
+  },
+})
+
+registerCommand({
+  name: 'poll',
+  usage: '/poll <question> | <option> | <option>…',
+  description: 'Start a single-choice poll in the current room',
+  async run(ctx, args) {
+    const [question, ...options] = args.split('|').map((s) => s.trim())
+    if (!question || options.length < 2) return usageError('poll')
+    const res = await ctx.createPoll(question, options)
+    return res.ok ? { ok: true, data: { id: res.id } } : fail(res.error, res.reason)
+  },
+})
+
+const DURATION_UNITS: Record<string, number> = { m: 60, h: 3600, d: 86400 }
+
+registerCommand({
+  name: 'remind',
+  usage: '/remind <10m|2h|1d> <note>',
+  description: 'Remind yourself of something later',
+  async run(ctx, args) {
+    const m = /^(\d+)([mhd])\s+([\s\S]+)$/i.exec(args)
+    if (!m) return usageError('remind')
+    const res = await ctx.remind(Number(m[1]) * DURATION_UNITS[m[2].toLowerCase()], m[3].trim())
+    return res.ok ? { ok: true, reply: `Reminder set for ${m[1]}${m[2].toLowerCase()} from now`, data: { id: res.id, sendAt: res.sendAt } } : fail(res.error)
+  },
+})
@@ -0,0 +1,104 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Echo contributors
+import crypto from 'crypto'
+import type { Redis } from 'ioredis'
+
+// A joined socket: who it is and which room it is in (null = global)
+export type ConnectedUser = { id: string; name: string; userId?: string; room: string | null }
+
+// Connected users across every server instance. Each node writes only its own sockets;
+// reads see all nodes, so presence lists and room rosters agree behind a load balancer.
+export interface ConnectionRegistry {
+  add(user: ConnectedUser): Promise<void>
+  remove(socketId: string): Promise<ConnectedUser | null>
+  get(socketId: string): Promise<ConnectedUser | null>
+  setRoom(socketId: string, room: string | null): Promise<void>
+  list(): Promise<ConnectedUser[]>
+  inRoom(room: string): Promise<ConnectedUser[]>
+}
+
+// Identifies this process in Redis keys; set NODE_ID for stable names in logs
+export const NODE_ID = process.env.NODE_ID || crypto.randomUUID()
+
+export function memoryRegistry(): ConnectionRegistry {
+  const users = new Map<string, ConnectedUser>()
+  return {
+    async add(user) { users.set(user.id, user) },
+    async remove(socketId) {
+      const user = users.get(socketId) || null
+      users.delete(socketId)
+      return user
+    },
+    async get(socketId) { return users.get(socketId) || null },
+    async setRoom(socketId, room) {
+      const user = users.get(socketId)
+      if (user) user.room = room
+    },
+    async list() { return Array.from(users.values()) },
+    async inRoom(room) { return Array.from(users.values()).filter((u) => u.room === room) },
+  }
+}
+
+// Redis layout: `conn:<node>` hash socketId -> user JSON, `conn:nodes` set of node ids,
+// `conn:alive:<node>` heartbeat key. A node whose heartbeat lapsed (crash) is dropped on the next read.
+const HEARTBEAT_MS = 10_000
+const HEARTBEAT_TTL_SECONDS = 30
+
+export function redisRegistry(redis: Redis, nodeId = NODE_ID): ConnectionRegistry {
+  const own = `conn:${nodeId}`
+  const beat = () => redis.multi().set(`conn:alive:${nodeId}`, '1', 'EX', HEARTBEAT_TTL_SECONDS).sadd('conn:nodes', nodeId).exec().catch(() => {})
+  beat()
+  setInterval(beat, HEARTBEAT_MS).unref()
+
+  const parse = (raw: string | null): ConnectedUser | null => {
+    try { return raw ? JSON.parse(raw) : null } catch { return null }
+  }
+  const liveNodes = async () => {
+    const nodes = await redis.smembers('conn:nodes')
+    const alive = nodes.length ? await redis.mget(nodes.map((n) => `conn:alive:${n}`)) : []
+    const dead = nodes.filter((_, i) => !alive[i])
+    if (dead.length) await redis.multi().srem('conn:nodes', ...dead).del(...dead.map((n) => `conn:${n}`)).exec()
+    return nodes.filter((_, i) => alive[i])
+  }
+  // the hash holding a socket: ours first, then other nodes (kicks can target remote sockets)
+  const locate = async (socketId: string): Promise<[string, ConnectedUser] | null> => {
+    const mine = parse(await redis.hget(own, socketId))
+    if (mine) return [own, mine]
+    for (const n of await liveNodes()) {
+      const user = parse(await redis.hget(`conn:${n}`, socketId))
+      if (user) return [`conn:${n}`, user]
+    }
+    return null
+  }
+  const list = async () => {
+    const out: ConnectedUser[] = []
+    for (const n of await liveNodes()) {
+      for (const raw of await redis.hvals(`conn:${n}`)) {
+        const user = parse(raw)
+        if (user) out.push(user)
+      }
+    }
+    return out
+  }
+
+  return {
+    async add(user) { await redis.hset(own, user.id, JSON.stringify(user)) },
+    async remove(socketId) {
+      const found = await locate(socketId)
+      if (!found) return null
+      await redis.hdel(found[0], socketId)
+      return found[1]
+    },
+    async get(socketId) { return (await locate(socketId))?.[1] || null },
+    async setRoom(socketId, room) {
+      const found = await locate(socketId)
+      if (found) await redis.hset(found[0], socketId, JSON.stringify({ ...found[1], room }))
+    },
+    list,
+    async inRoom(room) { return (await list()).filter((u) => u.room === room) },
+  }
+}
+
+export function createRegistry(redis: Redis | null): ConnectionRegistry {
+  return redis ? redisRegistry(redis) : memoryRegistry()
+}
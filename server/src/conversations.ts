@@ -0,0 +1,77 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Echo contributors
+import { isMongoConnected, Conversation } from './db.js'
+
+export type ConversationInfo = { conversationId: string; participants: [string, string]; createdAt: number; lastMessageAt: number | null }
+
+// fallback conversation store: conversationId -> conversation
+const inMemConversations = new Map<string, ConversationInfo>()
+
+// Deterministic id for the DM between two users, so either side can derive it
+export function dmConversationId(a: string, b: string) {
+  const [x, y] = [a, b].sort()
+  return `dm:${x}:${y}`
+}
+
+// Participants encoded in a DM id, or null if it is not one
+export function participantsOf(conversationId: string): [string, string] | null {
+  const parts = conversationId.split(':')
+  if (parts.length !== 3 || parts[0] !== 'dm' || !parts[1] || !parts[2]) return null
+  return [parts[1], parts[2]]
+}
+
+export function isParticipant(conversationId: string, userId: string) {
+  const p = participantsOf(conversationId)
+  return !!p && p.includes(userId)
+}
+
+// Socket.io room holding every socket a user has open
+export function userRoom(userId: string) {
+  return `user:${userId}`
+}
+
+function toInfo(d: any): ConversationInfo {
+  return {
+    conversationId: d.conversationId, participants: [d.participants[0], d.participants[1]],
+    createdAt: new Date(d.createdAt).getTime(), lastMessageAt: d.lastMessageAt ? new Date(d.lastMessageAt).getTime() : null,
+  }
+}
+
+export async function ensureConversation(a: string, b: string): Promise<ConversationInfo> {
+  const conversationId = dmConversationId(a, b)
+  const participants = participantsOf(conversationId)!
+  if (isMongoConnected()) {
+    const doc = await Conversation.findOneAndUpdate(
+      { conversationId },
+      { $setOnInsert: { conversationId, participants, createdAt: new Date() } },
+      { upsert: true, new: true }
+    ).lean().exec()
+    return toInfo(doc)
+  }
+  let conv = inMemConversations.get(conversationId)
+  if (!conv) {
+    conv = { conversationId, participants, createdAt: Date.now(), lastMessageAt: null }
+    inMemConversations.set(conversationId, conv)
+  }
+  return conv
+}
+
+export async function touchConversation(conversationId: string, ts: number) {
+  if (isMongoConnected()) {
+    await Conversation.updateOne({ conversationId }, { $set: { lastMessageAt: new Date(ts) } })
+    return
+  }
+  const conv = inMemConversations.get(conversationId)
+  if (conv) conv.lastMessageAt = ts
+}
+
+// Most recently active first
+export async function listConversations(userId: string): Promise<ConversationInfo[]> {
+  if (isMongoConnected()) {
+    const docs = await Conversation.find({ participants: userId }).sort({ lastMessageAt: -1, createdAt: -1 }).lean().exec()
+    return docs.map(toInfo)
+  }
+  return Array.from(inMemConversations.values())
+    .filter((c) => c.participants.includes(userId))
+    .sort((a, b) => (b.lastMessageAt || b.createdAt) - (a.lastMessageAt || a.createdAt))
+}
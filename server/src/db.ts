@@ -67,7 +67,54 @@ export function isMongoConnected() {
   return mongoConnected
 }
 
-const messageSchema = new mongoose.Schema({ name: String, text: String, ts: Number, room: { type: String, default: null } })
+const messageSchema = new mongoose.Schema({
+  // server-assigned id used by clients to reference a message (edit, delete, ...)
+  messageId: { type: String, index: { unique: true, sparse: true } },
+  name: String,
+  text: String,
+  ts: Number,
+  room: { type: String, default: null },
+  // set for direct messages (room is then null); see conversations.ts
+  conversationId: { type: String, default: null, index: true },
+  userId: { type: String, default: null },
+  editedAt: { type: Number, default: null },
+  // previous versions, oldest first
+  edits: { type: [{ text: String, ts: Number, _id: false }], default: [] },
+  // tombstone: text is cleared, the record stays
+  deletedAt: { type: Number, default: null },
+  deletedBy: { type: String, default: null },
+  // emoji reactions: one entry per emoji with the ids of users who reacted
+  reactions: { type: [{ emoji: String, users: [String], _id: false }], default: [] },
+  // threads: replies point at their root message, which keeps the reply count
+  parentId: { type: String, default: null, index: true },
+  replyCount: { type: Number, default: 0 },
+  lastReplyAt: { type: Number, default: null },
+  // uploaded files, copied from the Attachment records when the message is sent
+  attachments: {
+    type: [{ attachmentId: String, name: String, contentType: String, size: Number, width: Number, height: Number, hasThumbnail: Boolean, _id: false }],
+    default: [],
+  },
+  // /me messages, and messages posted by a bot
+  action: { type: Boolean, default: false },
+  bot: { type: Boolean, default: false },
+  // polls: the text is the question; each option keeps the ids of its voters
+  poll: {
+    type: new mongoose.Schema({
+      options: { type: [{ text: String, voters: [String], _id: false }], default: [] },
+      multiple: Boolean,
+      anonymous: Boolean,
+      closesAt: Number,
+      closedAt: Number,
+    }, { _id: false }),
+    default: null,
+  },
+})
+// full-text search (GET /messages/search)
+messageSchema.index({ text: 'text' })
+// history pages: newest first within a room/DM, messageId breaks ts ties
+messageSchema.index({ conversationId: 1, room: 1, ts: -1, messageId: -1 })
+// polls due to close (the sweep in index.ts); messages without a poll are left out
+messageSchema.index({ 'poll.closesAt': 1 }, { sparse: true })
 export const Message = mongoose.models.Message || mongoose.model('Message', messageSchema)
 
 // Contacts collection: scope by ownerId (stable user identity)
@@ -81,4 +128,241 @@ const contactSchema = new mongoose.Schema({
   contactSchema.index({ ownerId: 1, name: 1 }, { unique: false })
 export const Contact = (mongoose.models as any).Contact || mongoose.model('Contact', contactSchema)
 
+// Users collection: password accounts; passwordHash is the argon2 PHC string from auth-rs
+const userSchema = new mongoose.Schema({
+  userId: { type: String, required: true, unique: true },
+  username: { type: String, required: true, unique: true },
+  name: { type: String, required: false },
+  passwordHash: { type: String, required: true },
+  createdAt: { type: Date, default: Date.now },
+  lastSeenAt: { type: Date, required: false, default: null },
+  // custom status (expiresAt in ms, null = until changed); null = available
+  customStatus: { type: new mongoose.Schema({ state: { type: String, enum: ['available', 'away', 'busy', 'dnd'] }, text: String, expiresAt: Number }, { _id: false }), default: null },
+})
+export const User = (mongoose.models as any).User || mongoose.model('User', userSchema)
+
+// Sessions collection: one per sign-in; refreshHash is sha256 of the current (rotating) refresh token
+const sessionSchema = new mongoose.Schema({
+  sessionId: { type: String, required: true, unique: true },
+  userId: { type: String, required: true, index: true },
+  refreshHash: { type: String, required: true },
+  device: { type: String, required: false },
+  ip: { type: String, required: false },
+  createdAt: { type: Date, default: Date.now },
+  lastUsedAt: { type: Date, default: Date.now },
+  // Mongo drops sessions once they expire (revoked ones included)
+  expiresAt: { type: Date, required: true, expires: 0 },
+  revokedAt: { type: Date, required: false, default: null },
+  previousHash: { type: String, default: null },
+  rotatedAt: { type: Date, default: null },
+})
+export const Session = (mongoose.models as any).Session || mongoose.model('Session', sessionSchema)
+
+// Conversations collection: one-to-one DMs between two stable user ids (participants sorted)
+const conversationSchema = new mongoose.Schema({
+  conversationId: { type: String, required: true, unique: true },
+  participants: { type: [String], required: true, index: true },
+  createdAt: { type: Date, default: Date.now },
+  lastMessageAt: { type: Date, default: null },
+})
+export const Conversation = (mongoose.models as any).Conversation || mongoose.model('Conversation', conversationSchema)
+
+// Attachments collection: upload metadata; bytes live in the storage driver (see storage.ts)
+const attachmentSchema = new mongoose.Schema({
+  attachmentId: { type: String, required: true, unique: true },
+  name: { type: String, required: true },
+  contentType: { type: String, required: true },
+  size: { type: Number, required: true },
+  width: { type: Number, default: null },
+  height: { type: Number, default: null },
+  hasThumbnail: { type: Boolean, default: false },
+  uploadedBy: { type: String, required: true, index: true },
+  createdAt: { type: Date, default: Date.now },
+})
+export const Attachment = (mongoose.models as any).Attachment || mongoose.model('Attachment', attachmentSchema)
+
+// Rooms collection: registered rooms; `name` is the value stored in Message.room
+const roomSchema = new mongoose.Schema({
+  name: { type: String, required: true, unique: true },
+  topic: { type: String, default: null },
+  ownerId: { type: String, required: true },
+  isPrivate: { type: Boolean, default: false, index: true },
+  createdAt: { type: Date, default: Date.now },
+  // message pipeline settings this room overrides (see pipeline.ts); null = server defaults
+  filters: { type: mongoose.Schema.Types.Mixed, default: null },
+})
+export const Room = (mongoose.models as any).Room || mongoose.model('Room', roomSchema)
+
+// Room members: one document per (room, user) with the member's role and mute
+const roomMemberSchema = new mongoose.Schema({
+  room: { type: String, required: true },
+  userId: { type: String, required: true, index: true },
+  joinedAt: { type: Date, default: Date.now },
+  role: { type: String, enum: ['owner', 'moderator', 'member'], default: 'member' },
+  mutedUntil: { type: Date, default: null },
+})
+roomMemberSchema.index({ room: 1, userId: 1 }, { unique: true })
+export const RoomMember = (mongoose.models as any).RoomMember || mongoose.model('RoomMember', roomMemberSchema)
+
+// Room bans: one per (room, user); until null = permanent
+const roomBanSchema = new mongoose.Schema({
+  room: { type: String, required: true },
+  userId: { type: String, required: true },
+  bannedBy: { type: String, required: true },
+  reason: { type: String, default: null },
+  until: { type: Date, default: null },
+  createdAt: { type: Date, default: Date.now },
+})
+roomBanSchema.index({ room: 1, userId: 1 }, { unique: true })
+export const RoomBan = (mongoose.models as any).RoomBan || mongoose.model('RoomBan', roomBanSchema)
+
+// Moderation log: append-only record of moderator actions per room
+const moderationLogSchema = new mongoose.Schema({
+  room: { type: String, required: true },
+  action: { type: String, required: true },
+  actorId: { type: String, required: true },
+  targetId: { type: String, default: null },
+  messageId: { type: String, default: null },
+  reason: { type: String, default: null },
+  until: { type: Number, default: null },
+  role: { type: String, default: null },
+  ts: { type: Number, required: true },
+})
+moderationLogSchema.index({ room: 1, ts: -1 })
+export const ModerationLog = (mongoose.models as any).ModerationLog || mongoose.model('ModerationLog', moderationLogSchema)
+
+// Flagged messages: held for review by the message pipeline. messageId is null for rejected messages (never delivered)
+const flaggedMessageSchema = new mongoose.Schema({
+  flagId: { type: String, required: true, unique: true },
+  messageId: { type: String, default: null },
+  room: { type: String, default: null },
+  conversationId: { type: String, default: null },
+  userId: { type: String, default: null },
+  name: { type: String, default: null },
+  text: { type: String, default: '' },
+  stage: { type: String, required: true },
+  reason: { type: String, required: true },
+  rejected: { type: Boolean, default: false },
+  status: { type: String, enum: ['pending', 'dismissed', 'removed'], default: 'pending' },
+  reviewedBy: { type: String, default: null },
+  reviewedAt: { type: Number, default: null },
+  createdAt: { type: Number, required: true },
+})
+flaggedMessageSchema.index({ room: 1, status: 1, createdAt: -1 })
+export const FlaggedMessage = (mongoose.models as any).FlaggedMessage || mongoose.model('FlaggedMessage', flaggedMessageSchema)
+
+// Outbound webhook subscribed to a room's events; secret signs each delivery
+const webhookSchema = new mongoose.Schema({
+  webhookId: { type: String, required: true, unique: true },
+  room: { type: String, required: true, index: true },
+  url: { type: String, required: true },
+  events: { type: [String], default: [] },
+  secret: { type: String, required: true },
+  active: { type: Boolean, default: true },
+  createdBy: { type: String, required: true },
+  createdAt: { type: Number, required: true },
+  // set for the webhooks that carry room messages to a bot
+  botId: { type: String, default: null, index: true },
+})
+export const Webhook = (mongoose.models as any).Webhook || mongoose.model('Webhook', webhookSchema)
+
+// Delivery log: one event sent to one webhook, with its retry state (times in ms)
+const webhookDeliverySchema = new mongoose.Schema({
+  deliveryId: { type: String, required: true, unique: true },
+  webhookId: { type: String, required: true },
+  event: { type: String, required: true },
+  body: { type: String, required: true },
+  status: { type: String, enum: ['pending', 'succeeded', 'failed'], default: 'pending' },
+  attempts: { type: Number, default: 0 },
+  responseStatus: { type: Number, default: null },
+  error: { type: String, default: null },
+  nextAttemptAt: { type: Number, default: null },
+  createdAt: { type: Number, required: true },
+  completedAt: { type: Number, default: null },
+})
+webhookDeliverySchema.index({ webhookId: 1, createdAt: -1 })
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 })
+export const WebhookDelivery = (mongoose.models as any).WebhookDelivery || mongoose.model('WebhookDelivery', webhookDeliverySchema)
+
+// Bot accounts (see bots.ts): token "<botId>.<secret>" with only the secret's hash stored
+const botSchema = new mongoose.Schema({
+  botId: { type: String, required: true, unique: true },
+  name: { type: String, required: true },
+  ownerId: { type: String, required: true, index: true },
+  tokenHash: { type: String, required: true },
+  webhookUrl: { type: String, default: null },
+  webhookSecret: { type: String, required: true },
+  createdAt: { type: Number, required: true },
+})
+export const Bot = (mongoose.models as any).Bot || mongoose.model('Bot', botSchema)
+
+// Scheduled messages and reminders (see schedules.ts); due pending ones are claimed by one instance at a time (times in ms)
+const scheduleSchema = new mongoose.Schema({
+  scheduleId: { type: String, required: true, unique: true },
+  kind: { type: String, enum: ['message', 'reminder'], required: true },
+  userId: { type: String, required: true },
+  sendAt: { type: Number, required: true },
+  room: { type: String, default: null },
+  to: { type: String, default: null },
+  text: { type: String, default: null },
+  messageId: { type: String, default: null },
+  note: { type: String, default: null },
+  status: { type: String, enum: ['pending', 'sent', 'failed', 'canceled'], default: 'pending' },
+  error: { type: String, default: null },
+  claimedUntil: { type: Number, default: null },
+  attempts: { type: Number, default: 0 },
+  createdAt: { type: Number, required: true },
+  completedAt: { type: Number, default: null },
+  sentMessageId: { type: String, default: null },
+})
+scheduleSchema.index({ status: 1, sendAt: 1 })
+scheduleSchema.index({ userId: 1, status: 1, sendAt: 1 })
+export const Schedule = (mongoose.models as any).Schedule || mongoose.model('Schedule', scheduleSchema)
+
+// Room invites: expiring codes, optionally limited to maxUses redemptions; Mongo drops them once expired
+const roomInviteSchema = new mongoose.Schema({
+  code: { type: String, required: true, unique: true },
+  room: { type: String, required: true, index: true },
+  createdBy: { type: String, required: true },
+  createdAt: { type: Date, default: Date.now },
+  expiresAt: { type: Date, required: true, expires: 0 },
+  maxUses: { type: Number, default: null },
+  uses: { type: Number, default: 0 },
+})
+export const RoomInvite = (mongoose.models as any).RoomInvite || mongoose.model('RoomInvite', roomInviteSchema)
+
+// Receipts collection: per-user delivered/read watermarks (message ts) for one room or DM conversation
+const receiptSchema = new mongoose.Schema({
+  userId: { type: String, required: true },
+  scope: { type: String, required: true, index: true },
+  deliveredTs: { type: Number, default: 0 },
+  readTs: { type: Number, default: 0 },
+  updatedAt: { type: Date, default: Date.now },
+})
+receiptSchema.index({ userId: 1, scope: 1 }, { unique: true })
+export const Receipt = (mongoose.models as any).Receipt || mongoose.model('Receipt', receiptSchema)
+
+// Call history: one document per 1:1 or group call. outcome stays null while a 1:1 call rings;
+// the socket ids tie later signaling (answer/end) to the ringing call and are never exposed
+const callLogSchema = new mongoose.Schema({
+  callId: { type: String, required: true, unique: true },
+  kind: { type: String, enum: ['direct', 'group'], required: true },
+  callerId: { type: String, required: true },
+  calleeIds: { type: [String], default: [] },
+  media: { type: String, enum: ['audio', 'video'], required: true },
+  room: { type: String, default: null },
+  outcome: { type: String, enum: ['answered', 'declined', 'missed', 'busy', 'canceled', null], default: null },
+  startedAt: { type: Number, required: true },
+  answeredAt: { type: Number, default: null },
+  endedAt: { type: Number, default: null },
+  durationMs: { type: Number, default: 0 },
+  callerSocket: { type: String, default: null },
+  calleeSocket: { type: String, default: null },
+})
+callLogSchema.index({ callerId: 1, startedAt: -1 })
+callLogSchema.index({ calleeIds: 1, startedAt: -1 })
+callLogSchema.index({ callerSocket: 1, endedAt: 1 })
+callLogSchema.index({ calleeSocket: 1, endedAt: 1 })
+export const CallLog = (mongoose.models as any).CallLog || mongoose.model('CallLog', callLogSchema)
+
 export default mongoose
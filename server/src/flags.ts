@@ -0,0 +1,89 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Echo contributors
+import crypto from 'crypto'
+import { isMongoConnected, FlaggedMessage } from './db.js'
+
+export type FlagStatus = 'pending' | 'dismissed' | 'removed'
+// A message the pipeline flagged or rejected, waiting for a moderator. room null = global chat or a DM.
+export type FlagInfo = {
+  flagId: string
+  messageId: string | null
+  room: string | null
+  conversationId: string | null
+  userId: string | null
+  name: string | null
+  text: string
+  stage: string
+  reason: string
+  rejected: boolean
+  status: FlagStatus
+  reviewedBy: string | null
+  reviewedAt: number | null
+  createdAt: number
+}
+
+// fallback review queue, capped to the last 1000 flags
+const inMemFlags: FlagInfo[] = []
+const IN_MEM_CAP = 1000
+
+function toFlag(d: any): FlagInfo {
+  return {
+    flagId: d.flagId, messageId: d.messageId ?? null, room: d.room ?? null, conversationId: d.conversationId ?? null, userId: d.userId ?? null,
+    name: d.name ?? null, text: d.text || '', stage: d.stage, reason: d.reason, rejected: !!d.rejected, status: d.status || 'pending',
+    reviewedBy: d.reviewedBy ?? null, reviewedAt: d.reviewedAt ?? null, createdAt: d.createdAt,
+  }
+}
+
+export async function recordFlag(f: Pick<FlagInfo, 'messageId' | 'room' | 'conversationId' | 'userId' | 'name' | 'text' | 'stage' | 'reason' | 'rejected'>): Promise<FlagInfo> {
+  const flag: FlagInfo = { ...f, flagId: crypto.randomUUID(), status: 'pending', reviewedBy: null, reviewedAt: null, createdAt: Date.now() }
+  try {
+    if (isMongoConnected()) await FlaggedMessage.create(flag)
+    else {
+      inMemFlags.push(flag)
+      if (inMemFlags.length > IN_MEM_CAP) inMemFlags.splice(0, inMemFlags.length - IN_MEM_CAP)
+    }
+  } catch (err) {
+    console.error('Failed to record flagged message', err)
+  }
+  return flag
+}
+
+// Newest first; status omitted = every status
+export async function listFlags(room: string | null, opts: { status?: FlagStatus; limit?: number } = {}): Promise<FlagInfo[]> {
+  const limit = Math.min(Math.max(opts.limit || 100, 1), 500)
+  if (isMongoConnected()) {
+    const q: any = { room }
+    if (opts.status) q.status = opts.status
+    const docs = await FlaggedMessage.find(q).sort({ createdAt: -1 }).limit(limit).lean().exec()
+    return docs.map(toFlag)
+  }
+  return inMemFlags.filter((f) => f.room === room && (!opts.status || f.status === opts.status)).reverse().slice(0, limit)
+}
+
+export async function findFlag(flagId: string): Promise<FlagInfo | null> {
+  if (isMongoConnected()) {
+    const doc = await FlaggedMessage.findOne({ flagId }).lean().exec()
+    return doc ? toFlag(doc) : null
+  }
+  return inMemFlags.find((f) => f.flagId === flagId) || null
+}
+
+// Close a pending flag; null if it was already reviewed
+export async function resolveFlag(flagId: string, status: Exclude<FlagStatus, 'pending'>, reviewerId: string): Promise<FlagInfo | null> {
+  const set = { status, reviewedBy: reviewerId, reviewedAt: Date.now() }
+  if (isMongoConnected()) {
+    const doc = await FlaggedMessage.findOneAndUpdate({ flagId, status: 'pending' }, { $set: set }, { new: true }).lean().exec()
+    return doc ? toFlag(doc) : null
+  }
+  const flag = inMemFlags.find((f) => f.flagId === flagId && f.status === 'pending')
+  if (!flag) return null
+  Object.assign(flag, set)
+  return flag
+}
+
+export function publicFlag(f: FlagInfo) {
+  return {
+    id: f.flagId, messageId: f.messageId, room: f.room, conversationId: f.conversationId, userId: f.userId, name: f.name, text: f.text,
+    stage: f.stage, reason: f.reason, rejected: f.rejected, status: f.status, reviewedBy: f.reviewedBy, reviewedAt: f.reviewedAt, createdAt: f.createdAt,
+  }
+}
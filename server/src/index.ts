@@ -1,13 +1,38 @@
 // SPDX-License-Identifier: Apache-2.0
 // Copyright 2025 Echo contributors
+import crypto from 'crypto'
 import express from 'express'
 import http from 'http'
 import { Server } from 'socket.io'
 import cors from 'cors'
 import dotenv from 'dotenv'
 import { Redis } from 'ioredis'
-import { connectToMongo, Message, isMongoConnected, Contact } from './db.js'
-import crypto from 'crypto'
+import { createAdapter } from '@socket.io/redis-adapter'
+import { connectToMongo, isMongoConnected, Contact } from './db.js'
+import { hashPassword, verifyPassword, issueToken, verifyAccess, requireAuth, type JwtClaims } from './auth.js'
+import { ACCESS_TOKEN_TTL, createSession, rotateRefreshToken, listSessions, revokeSession, getSessionOwner, onSessionRevoked, publicSession } from './sessions.js'
+import { normalizeUsername, normalizeDisplayName, setDisplayName, findAccountByUsername, findAccountById, createAccount, publicProfile } from './users.js'
+import { ensureConversation, touchConversation, listConversations, isParticipant, participantsOf, userRoom } from './conversations.js'
+import { TYPING_TTL_MS, typingKey, startTyping, stopTyping, listTyping, publicTyping } from './typing.js'
+import { tokenize, highlightSnippet } from './search.js'
+import { normalizeRoomName, findRoom, createRoom, updateRoom, listPublicRooms, listRoomsOf, privateRoomsHiddenFrom, isMember, addMember, removeMember, countMembers, canReadRoom, createInvite, listInvites, revokeInvite, redeemInvite, publicRoom, publicInvite, roleRank, roleIn, getMembership, listMembers, setMemberRole, setMute, isMuted, banUser, unbanUser, activeBan, listBans, publicMember, publicBan, type RoomInfo } from './rooms.js'
+import { recordModeration, listModeration, type ModerationEntry } from './moderation.js'
+import { runPipeline, filterConfigFor, parseFilterOverrides, stageNames, type MessageDraft, type PipelineResult } from './pipeline.js'
+import { recordFlag, listFlags, findFlag, resolveFlag, publicFlag, type FlagStatus } from './flags.js'
+import { parseCommand, runCommand, listCommands, type CommandContext } from './commands.js'
+import { MAX_BOTS_PER_USER, createBot, findBot, listBots, updateBot, rotateBotToken, deleteBot, verifyBotToken, requireBot, isBotId, publicBot, type BotInfo } from './bots.js'
+import { MAX_WEBHOOKS_PER_ROOM, parseWebhookUrl, parseWebhookEvents, createWebhook, listWebhooks, findWebhook, updateWebhook, deleteWebhook, listDeliveries, dispatchWebhooks, deleteBotWebhooks, sendTestEvent, publicWebhook, publicDelivery, type WebhookEvent } from './webhooks.js'
+import { NODE_ID, createRegistry, type ConnectedUser } from './connections.js'
+import { createCallStore, type CallType } from './calls.js'
+import { PRESENCE_HEARTBEAT_MS, createPresence } from './presence.js'
+import { SOCKET_RULES, SOCKET_DEFAULT_RULE, REST_RULE, CONNECT_RULE, MAX_SOCKETS_PER_IP, MAX_MESSAGE_LENGTH, MAX_SOCKET_PAYLOAD_BYTES, checkText, createRateLimiter } from './limits.js'
+import { parseStatus, setCustomStatus, customStatusesOf, customStatusOf, type CustomStatus } from './status.js'
+import { startDirectCall, findLiveDirectCall, liveDirectCallsOf, markAnswered, finishDirectCall, recordMissedCall, recordGroupCall, decodeCallCursor, listCallsFor, publicCall } from './callHistory.js'
+import { UPLOAD_MAX_BYTES, createAttachment, findAttachment, readAttachment, resolveAttachments, publicAttachment, signedUrlTtl } from './attachments.js'
+import { receiptScope, advanceReceipt, listReceipts, publicReceipt, type ReceiptKind } from './receipts.js'
+import { MAX_PENDING_SCHEDULES, SCHEDULE_STATUSES, parseSchedule, createSchedule, countPendingSchedules, listSchedules, findSchedule, cancelSchedule, startScheduler, publicSchedule, type ScheduleInfo, type ScheduleOutcome, type ScheduleStatus } from './schedules.js'
+import { parsePoll, parseChoices, isPollOpen, publicPoll, type Poll } from './polls.js'
+import { newMessageId, saveMessage, findMessage, editMessage, deleteMessage, setReaction, setPollVote, closePoll, listDuePolls, bumpReplyCount, listThread, listMessages, searchMessages, encodeCursor, decodeCursor, toPublicMessage, publicReactions, type StoredMessage } from './messages.js'
 
 dotenv.config()
 
@@ -24,176 +49,899 @@ app.use(cors())
 app.use(express.json())
 
 const server = http.createServer(app)
-const io = new Server(server, { cors: { origin: '*' } })
+const io = new Server(server, { cors: { origin: '*' }, maxHttpBufferSize: MAX_SOCKET_PAYLOAD_BYTES })
+// With Redis, broadcasts, socket lookups and room joins/leaves reach sockets on every server instance
+if (redis) io.adapter(createAdapter(redis, redis.duplicate()))
 
 const BASE_PORT = process.env.PORT ? Number(process.env.PORT) : 3000
-const AUTH_URL = process.env.AUTH_URL || 'http://localhost:8080'
-
-type User = { id: string; name: string; userId?: string }
 
-const users = new Map<string, User>()
-const userRooms = new Map<string, string | null>() // socketId -> room name (null = global)
-const inMemMessages: Array<{ name: string; text: string; ts: number; room: string | null }> = []
+// Joined sockets and their current room, plus group call state: in Redis when configured so every node sees them
+const registry = createRegistry(redis)
+const callStore = createCallStore(redis)
+// Per-device presence with heartbeats: a user is online while any of their connections is
+const presence = createPresence(redis)
 // fallback contacts store: ownerId -> set of composite keys "name|contactId"
 const inMemContacts = new Map<string, Set<string>>()
-const rateMap = new Map<string, { count: number; ts: number }>()
-const onlineUserIds = new Set<string>()
+// Rate limits for REST routes, socket events and connections (Redis when configured, so limits hold across instances)
+const limiter = createRateLimiter(redis)
+// open sockets per client IP on this instance
+const socketsPerIp = new Map<string, number>()
 
-function rateLimit(key: string, limit = 60, windowMs = 60_000) {
-  const now = Date.now()
-  const cur = rateMap.get(key)
-  if (!cur || now - cur.ts > windowMs) { rateMap.set(key, { count: 1, ts: now }); return true }
-  if (cur.count >= limit) return false
-  cur.count++
-  return true
+async function rateLimit(key: string, limit = 60, windowMs = 60_000) {
+  return (await limiter.hit(key, { limit, windowMs })).ok
 }
 
 // ensure DB connection happens early
 connectToMongo().catch(() => {})
 
-// --- Auth helpers ---
-type JwtClaims = { sub: string; exp: number }
-async function verifyJwt(bearer?: string): Promise<JwtClaims | null> {
+// Emit to a message's audience: both DM participants, its room, or everyone (global)
+function emitToAudience(m: Pick<StoredMessage, 'room' | 'conversationId'>, event: string, payload: unknown) {
+  if (m.conversationId) {
+    const p = participantsOf(m.conversationId)
+    if (p) io.to(p.map(userRoom)).emit(event, payload)
+  } else if (m.room) io.to(m.room).emit(event, payload)
+  else io.emit(event, payload)
+}
+
+// DM messages are visible to their participants, room messages to whoever may read the room
+async function canSeeMessage(m: StoredMessage, userId?: string | null) {
+  if (m.conversationId) return !!userId && isParticipant(m.conversationId, userId)
+  return canReadRoom(m.room, userId)
+}
+
+// Claims for an optional bearer token (null when absent or invalid)
+async function optionalClaims(req: express.Request) {
+  return req.headers.authorization ? verifyAccess(req.headers.authorization) : null
+}
+
+// Thread root for a reply: replies to replies attach to the root; the root must share the reply's scope
+async function resolveThreadRoot(parentId: unknown, scope: { conversationId: string | null }) {
+  if (typeof parentId !== 'string' || !parentId) return null
+  let parent = await findMessage(parentId)
+  if (parent?.parentId) parent = await findMessage(parent.parentId)
+  if (!parent || (parent.conversationId ?? null) !== scope.conversationId) return null
+  return parent
+}
+
+// Count a saved reply on its root and tell the audience
+async function afterReply(reply: StoredMessage) {
+  if (!reply.parentId) return
+  const root = await bumpReplyCount(reply.parentId, reply.ts)
+  if (root) emitToAudience(root, 'thread:update', { id: root.messageId, room: root.room, conversationId: root.conversationId ?? null, replyCount: root.replyCount, lastReplyAt: root.lastReplyAt })
+}
+
+// Users allowed to edit/delete anyone's messages (comma-separated user ids)
+const MODERATOR_USER_IDS = new Set((process.env.MODERATOR_USER_IDS || '').split(',').map((s) => s.trim()).filter(Boolean))
+function canModerate(userId: string | undefined, _m: StoredMessage) {
+  return !!userId && MODERATOR_USER_IDS.has(userId)
+}
+
+// Rank in a room for moderation; global moderators count as room moderators everywhere
+async function moderatorRank(room: RoomInfo, userId?: string) {
+  if (!userId) return 0
+  const rank = roleRank(await roleIn(room, userId))
+  return MODERATOR_USER_IDS.has(userId) ? Math.max(rank, roleRank('moderator')) : rank
+}
+
+// Run a message through its room's pipeline (server defaults outside rooms); rejections go to the review queue
+async function screenMessage(draft: MessageDraft, name: string | null): Promise<PipelineResult> {
+  const info = draft.room ? await findRoom(draft.room) : null
+  const result = await runPipeline(draft, filterConfigFor(info?.filters))
+  if (!result.ok) {
+    await recordFlag({ messageId: draft.editOf, room: draft.room, conversationId: draft.conversationId, userId: draft.userId, name, text: draft.text, stage: result.stage, reason: result.reason, rejected: true })
+  }
+  return result
+}
+
+// Delivered messages a stage flagged wait in the review queue
+async function flagMessage(m: StoredMessage, flags: { stage: string; reason: string }[]) {
+  for (const f of flags) {
+    await recordFlag({ messageId: m.messageId, room: m.room, conversationId: m.conversationId ?? null, userId: m.userId ?? null, name: m.name, text: m.text, ...f, rejected: false })
+  }
+}
+
+// Who a message is from: a signed-in socket, or a bot posting over REST
+type Sender = { userId: string; name: string; bot: boolean }
+function senderOf(socket: { data: any }): Sender {
+  return { userId: socket.data.userId, name: socket.data.name || 'Anonymous', bot: !!socket.data.bot }
+}
+
+// Errors the socket reports as an `error` event when the sender gave no ack
+const SENDER_ERRORS: Record<string, string> = {
+  invalid_payload: 'message needs { text }',
+  message_too_long: `messages are at most ${MAX_MESSAGE_LENGTH} characters`,
+  message_rejected: 'message rejected',
+}
+
+// Errors of postDirectMessage as the `dm` event reports them
+const DM_ERRORS: Record<string, string> = {
+  invalid_payload: 'dm needs { to, text }',
+  message_too_long: `messages are at most ${MAX_MESSAGE_LENGTH} characters`,
+  invalid_attachments: 'attachments must be your own uploads',
+  unknown_user: 'no such user',
+  parent_not_found: 'no such message in this conversation',
+}
+
+// Post a DM from sender to msg.to: checks, pipeline, save, broadcast to both users. parentId makes it a thread reply
+async function postDirectMessage(
+  sender: Sender,
+  msg: { to?: unknown; text?: unknown; parentId?: unknown; attachments?: unknown },
+): Promise<{ ok: true; message: StoredMessage } | { ok: false; error: string; reason?: string }> {
+  const from = sender.userId
+  const to = msg?.to
+  const checked = checkText(msg?.text)
+  if (!checked.ok && checked.error === 'message_too_long') return { ok: false, error: 'message_too_long' }
+  const text = checked.ok ? checked.text : ''
+  const hasFiles = Array.isArray(msg?.attachments) && msg.attachments.length > 0
+  if (!checked.ok || typeof to !== 'string' || !to || to === from || (!text && !hasFiles) || (msg.parentId != null && typeof msg.parentId !== 'string')) {
+    return { ok: false, error: 'invalid_payload' }
+  }
+  const attachments = await resolveAttachments(msg.attachments, from)
+  if (!attachments) return { ok: false, error: 'invalid_attachments' }
+  if (!(await findAccountById(to).catch(() => null))) return { ok: false, error: 'unknown_user' }
+  const conv = await ensureConversation(from, to)
+  const root = msg.parentId ? await resolveThreadRoot(msg.parentId, { conversationId: conv.conversationId }) : null
+  if (msg.parentId && !root) return { ok: false, error: 'parent_not_found' }
+  const screened = await screenMessage({ text, userId: from, room: null, conversationId: conv.conversationId, editOf: null }, sender.name)
+  if (!screened.ok) return { ok: false, error: 'message_rejected', reason: screened.reason }
+  const stored: StoredMessage = { messageId: newMessageId(), name: sender.name, text: screened.text, ts: Date.now(), room: null, conversationId: conv.conversationId, userId: from, parentId: root?.messageId ?? null, attachments }
+  if (sender.bot) stored.bot = true
+  await saveMessage(stored)
+  await flagMessage(stored, screened.flags)
+  touchConversation(conv.conversationId, stored.ts).catch(() => {})
+  emitToAudience(stored, 'dm', { ...toPublicMessage(stored), to })
+  await afterReply(stored)
+  return { ok: true, message: stored }
+}
+
+// Live poll counts go to the message's audience (voter ids only for polls that are not anonymous)
+function announcePoll(m: StoredMessage) {
+  if (m.poll) emitToAudience(m, 'poll:update', { id: m.messageId, room: m.room, conversationId: m.conversationId ?? null, poll: publicPoll(m.poll) })
+}
+
+// Close a poll and send out the final counts; the node that posted a poll also closes it when its time is up.
+// closePoll only succeeds once, so the timer and the sweep below never announce a poll twice
+async function finishPoll(messageId: string, at: number) {
+  const closed = await closePoll(messageId, at)
+  if (closed) announcePoll(closed)
+  return closed
+}
+function schedulePollClose(m: StoredMessage) {
+  const closesAt = m.poll?.closesAt
+  if (closesAt == null) return
+  setTimeout(() => { finishPoll(m.messageId, closesAt).catch(() => {}) }, closesAt - Date.now()).unref()
+}
+// Every instance also closes overdue polls now and then, so a poll still closes when its node restarted or crashed
+const POLL_SWEEP_MS = Number(process.env.POLL_SWEEP_SECONDS || 30) * 1000
+setInterval(async () => {
   try {
-    if (!bearer) return null
-    const [scheme, token] = bearer.split(' ')
-    if ((scheme || '').toLowerCase() !== 'bearer' || !token) return null
-    const resp = await fetch(`${AUTH_URL}/token/verify`, {
-      method: 'POST', headers: { 'content-type': 'application/json' },
-      body: JSON.stringify({ token })
-    })
-    if (!resp.ok) return null
-    return await resp.json() as JwtClaims
-  } catch { return null }
-}
-
-function requireAuth() {
-  return async (req: express.Request, res: express.Response, next: express.NextFunction) => {
-    const claims = await verifyJwt(req.headers.authorization)
-    if (!claims) return res.status(401).json({ ok: false, error: 'unauthorized' })
-    ;(req as any).user = claims
-    next()
+    for (const due of await listDuePolls(Date.now())) await finishPoll(due.messageId, due.closesAt)
+  } catch (e) {
+    console.error('Poll sweep failed', e)
+  }
+}, POLL_SWEEP_MS).unref()
+
+// Post a room (or global) message: checks, pipeline, save, broadcast. parentId makes it a thread reply,
+// which goes to the root's room whatever `room` says; attachments are ids returned by POST /uploads
+// (text may then be empty). poll (from parsePoll) makes it a poll with text as the question. room undefined or null = defaultRoom
+async function postMessage(
+  sender: Sender,
+  msg: { text?: unknown; room?: string | null; parentId?: unknown; attachments?: unknown; action?: boolean; poll?: Poll },
+  defaultRoom: string | null,
+): Promise<{ ok: true; message: StoredMessage } | { ok: false; error: string; reason?: string }> {
+  const checked = checkText(msg?.text)
+  if (!checked.ok) return { ok: false, error: checked.error }
+  if (msg.parentId != null && typeof msg.parentId !== 'string') return { ok: false, error: 'invalid_payload' }
+  const text = checked.text
+  const attachments = await resolveAttachments(msg.attachments, sender.userId)
+  if (!attachments) return { ok: false, error: 'invalid_attachments' }
+  if (!text && attachments.length === 0) return { ok: false, error: 'invalid_payload' }
+  let room = msg.room != null ? normalizeRoomName(msg.room) : defaultRoom
+  let parentId: string | null = null
+  if (msg.parentId) {
+    const root = await resolveThreadRoot(msg.parentId, { conversationId: null })
+    if (!root) return { ok: false, error: 'parent_not_found' }
+    room = root.room
+    parentId = root.messageId
+  }
+  if (msg.room != null && !room) return { ok: false, error: 'invalid_room' }
+  if (!(await canReadRoom(room, sender.userId))) return { ok: false, error: 'forbidden' }
+  if (room) {
+    const banned = await activeBan(room, sender.userId)
+    if (banned || isMuted(await getMembership(room, sender.userId))) return { ok: false, error: banned ? 'banned' : 'muted' }
   }
+  // a poll's options are screened with its question (one message to the spam stage), one per line after it;
+  // a rewrite that adds or drops lines or blanks an option cannot be mapped back, so it rejects the poll
+  const options = msg.poll ? msg.poll.options.map((o) => o.text) : []
+  const joined = [text, ...options].join('\n')
+  const screened = await screenMessage({ text: joined, userId: sender.userId, room, conversationId: null, editOf: null }, sender.name)
+  if (!screened.ok) return { ok: false, error: 'message_rejected', reason: screened.reason }
+  const lines = screened.text.split('\n')
+  if (msg.poll && (lines.length !== joined.split('\n').length || lines.slice(-options.length).some((t) => !t.trim()))) {
+    return { ok: false, error: 'message_rejected', reason: 'the message filters changed the poll options' }
+  }
+  const stored: StoredMessage = { messageId: newMessageId(), name: sender.name, text: lines.slice(0, lines.length - options.length).join('\n'), ts: Date.now(), room, userId: sender.userId, parentId, attachments }
+  if (msg.action) stored.action = true
+  if (sender.bot) stored.bot = true
+  if (msg.poll) stored.poll = { ...msg.poll, options: lines.slice(-options.length).map((t) => ({ text: t, voters: [] })) }
+  await saveMessage(stored)
+  await flagMessage(stored, screened.flags)
+  const payload = toPublicMessage(stored)
+  emitToAudience(stored, 'message', payload)
+  notifyWebhooks(stored.room, 'message.created', payload, sender.userId)
+  await afterReply(stored)
+  schedulePollClose(stored)
+  return { ok: true, message: stored }
+}
+
+// Schedule changes (created, canceled, sent, failed) go to every socket of their owner
+function announceSchedule(s: ScheduleInfo) {
+  io.to(userRoom(s.userId)).emit('schedule', publicSchedule(s))
 }
 
+// Validate and store a schedule for userId. The room or DM target must be reachable now; sending checks everything again
+async function scheduleFor(userId: string, raw: unknown): Promise<{ ok: true; schedule: ScheduleInfo } | { ok: false; error: string; status: number }> {
+  const parsed = parseSchedule(raw)
+  if (!parsed.ok) return { ...parsed, status: 400 }
+  const input = parsed.input
+  if (input.kind === 'message') {
+    const checked = checkText(input.text)
+    if (!checked.ok) return { ok: false, error: checked.error, status: 400 }
+    if (input.room) {
+      const room = normalizeRoomName(input.room)
+      if (!room) return { ok: false, error: 'invalid_room', status: 400 }
+      if (!(await canReadRoom(room, userId))) return { ok: false, error: 'forbidden', status: 403 }
+      if (await activeBan(room, userId)) return { ok: false, error: 'banned', status: 403 }
+      input.room = room
+    } else if (input.to === userId) {
+      return { ok: false, error: 'invalid_schedule', status: 400 }
+    } else if (!(await findAccountById(input.to as string).catch(() => null))) {
+      return { ok: false, error: 'unknown_user', status: 404 }
+    }
+  } else if (input.messageId) {
+    const m = await findMessage(input.messageId)
+    if (!m || m.deletedAt || !(await canSeeMessage(m, userId))) return { ok: false, error: 'not_found', status: 404 }
+  }
+  if ((await countPendingSchedules(userId)) >= MAX_PENDING_SCHEDULES) return { ok: false, error: 'too_many_schedules', status: 409 }
+  const schedule = await createSchedule(userId, input)
+  announceSchedule(schedule)
+  return { ok: true, schedule }
+}
+
+// A due schedule: messages go out through postMessage / postDirectMessage under the owner's current name;
+// reminders reach the owner's sockets as `reminder`, with the message if they can still see it
+async function runSchedule(s: ScheduleInfo): Promise<ScheduleOutcome> {
+  if (s.kind === 'reminder') {
+    const m = s.messageId ? await findMessage(s.messageId) : null
+    const visible = m && !m.deletedAt && (await canSeeMessage(m, s.userId)) ? m : null
+    io.to(userRoom(s.userId)).emit('reminder', { id: s.scheduleId, note: s.note, messageId: s.messageId, message: visible ? toPublicMessage(visible, s.userId) : null, sendAt: s.sendAt })
+    return { ok: true }
+  }
+  const acc = await findAccountById(s.userId)
+  if (!acc) return { ok: false, error: 'unknown_user' }
+  const sender: Sender = { userId: s.userId, name: acc.name || acc.username || 'Anonymous', bot: false }
+  const res = s.to ? await postDirectMessage(sender, { to: s.to, text: s.text }) : await postMessage(sender, { text: s.text, room: s.room }, null)
+  return res.ok ? { ok: true, messageId: res.message.messageId } : { ok: false, error: res.error }
+}
+startScheduler(runSchedule, announceSchedule)
+
+// Longest ban or mute a moderator can hand out; mutes default to 10 minutes
+const MAX_MOD_DURATION_SECONDS = 365 * 24 * 3600
+const DEFAULT_MUTE_SECONDS = 600
+
+// Tell the room and the target about a moderation action
+function announceModeration(e: ModerationEntry) {
+  const to = e.targetId ? io.to(e.room).to(userRoom(e.targetId)) : io.to(e.room)
+  to.emit('moderation', { room: e.room, action: e.action, actorId: e.actorId, targetId: e.targetId, reason: e.reason ?? null, until: e.until ?? null, role: e.role ?? null, ts: e.ts })
+}
+
+// Public shape of a connected user (the room stays private)
+// User list entries carry each user's custom status (null = available)
+async function rosterOf(list: ConnectedUser[]) {
+  const statuses = await customStatusesOf(Array.from(new Set(list.flatMap((u) => (u.userId ? [u.userId] : [])))))
+  return list.map(({ id, name, userId }) => ({ id, name, userId, customStatus: (userId && statuses.get(userId)) || null }))
+}
+
+async function emitUsersInRoom(room: string) {
+  io.to(room).emit('usersInRoom', await rosterOf(await registry.inRoom(room)))
+}
+
+// Apply a new display name to a user's sockets on this instance and refresh the user lists they appear in
+async function applyRename(userId: string, name: string) {
+  const rooms = new Set<string>()
+  for (const s of io.of('/').sockets.values()) {
+    if (s.data.userId !== userId) continue
+    s.data.name = name
+    const cur = await registry.get(s.id)
+    if (cur) await registry.add({ ...cur, name })
+    if (s.data.room) rooms.add(s.data.room)
+  }
+  return rooms
+}
+
+// /nick: save the name on the account; every instance renames its own sockets of the user
+async function renameUser(userId: string, name: string) {
+  await setDisplayName(userId, name)
+  if (redis) io.serverSideEmit('user:rename', { userId, name })
+  const rooms = await applyRename(userId, name)
+  io.emit('user:rename', { userId, name })
+  io.emit('users', await rosterOf(await registry.list()))
+  for (const room of rooms) await emitUsersInRoom(room)
+}
+io.on('user:rename', async ({ userId, name }: { userId: string; name: string }) => {
+  for (const room of await applyRename(userId, name)) await emitUsersInRoom(room)
+})
+
+// Pull every socket of a user out of a room (kick, ban, leaving a private room), on whichever node it lives, and refresh the room's user list
+async function ejectFromRoom(room: string, userId: string) {
+  const sockets = await io.in(userRoom(userId)).fetchSockets()
+  let name: string | null = null
+  for (const s of sockets) {
+    if (s.data.room !== room) continue
+    s.leave(room)
+    await registry.setRoom(s.id, null)
+    io.to(room).emit('room:leave', { id: s.id, name: s.data.name, room })
+    name = s.data.name ?? null
+  }
+  forgetRoom(room, userId)
+  if (redis) io.serverSideEmit('room:eject', { room, userId })
+  if (name !== null) notifyWebhooks(room, 'member.left', { userId, name })
+  await emitUsersInRoom(room)
+}
+
+// socket.data only changes on the instance that holds the socket, so each instance clears its own
+function forgetRoom(room: string, userId: string) {
+  for (const s of io.of('/').sockets.values()) {
+    if (s.data.userId === userId && s.data.room === room) s.data.room = null
+  }
+}
+io.on('room:eject', ({ room, userId }: { room: string; userId: string }) => forgetRoom(room, userId))
+
+// Room events go to the room's webhooks in the background, so a slow receiver never holds up chat; DMs and global chat have none
+function notifyWebhooks(room: string | null, event: WebhookEvent, data: unknown, actorId?: string | null) {
+  if (room) dispatchWebhooks(room, event, data, actorId).catch((e) => console.error('Webhook dispatch failed', e))
+}
+
+// A signed-in user joins a room with their first socket there and leaves with their last; each guest socket counts on its own
+async function announceMembership(room: string, socketId: string, user: { name?: string; userId?: string }, joined: boolean) {
+  if (user.userId && (await registry.inRoom(room)).some((u) => u.id !== socketId && u.userId === user.userId)) return
+  notifyWebhooks(room, joined ? 'member.joined' : 'member.left', { userId: user.userId ?? null, name: user.name ?? null })
+}
+
+// Apply a presence change for one of a user's connections; everyone hears about it when the user's
+// overall status (online / away / offline) flips
+async function updatePresence(userId: string, change: () => Promise<void>) {
+  const [before] = await presence.statusOf([userId])
+  await change()
+  const [after] = await presence.statusOf([userId])
+  if (before.status !== after.status) io.emit('presence', after)
+}
+
+// Keep this node's connections alive; those of a crashed node lapse after the presence TTL
+setInterval(() => {
+  for (const s of io.of('/').sockets.values()) {
+    if (s.data.userId) presence.heartbeat(s.data.userId, s.id).catch(() => {})
+  }
+}, PRESENCE_HEARTBEAT_MS).unref()
+
+// Set a user's custom status and tell everyone; this node also announces the lapse when it expires
+const statusTimers = new Map<string, NodeJS.Timeout>()
+async function changeCustomStatus(userId: string, status: CustomStatus | null) {
+  await setCustomStatus(userId, status)
+  io.emit('status', { userId, customStatus: status })
+  clearTimeout(statusTimers.get(userId))
+  statusTimers.delete(userId)
+  if (!status?.expiresAt) return
+  statusTimers.set(userId, setTimeout(async () => {
+    statusTimers.delete(userId)
+    if (!(await customStatusOf(userId).catch(() => null))) io.emit('status', { userId, customStatus: null })
+  }, status.expiresAt - Date.now()).unref())
+}
+
+// Users among these sockets who have Do Not Disturb on (the caller excluded)
+async function dndUsersAmong(sockets: { data: any }[], callerId: string) {
+  const ids = Array.from(new Set(sockets.map((s) => s.data.userId as string | undefined).filter((id): id is string => !!id && id !== callerId)))
+  const statuses = await customStatusesOf(ids)
+  return new Set(ids.filter((id) => statuses.get(id)?.state === 'dnd'))
+}
+
+// Sockets without a token connect as read-only guests unless ALLOW_GUESTS=0
+const ALLOW_GUESTS = process.env.ALLOW_GUESTS !== '0' && process.env.ALLOW_GUESTS !== 'false'
+// events a guest socket may emit; everything else is rejected
+const GUEST_EVENTS = new Set(['join', 'joinRoom', 'leaveRoom'])
+
+// Connection limits per client IP: new connections per minute and sockets open at once
+io.use(async (socket, next) => {
+  const ip = socket.handshake.address || 'unknown'
+  if ((socketsPerIp.get(ip) || 0) >= MAX_SOCKETS_PER_IP) return next(new Error('rate_limited'))
+  if (!(await rateLimit(`connect:${ip}`, CONNECT_RULE.limit, CONNECT_RULE.windowMs))) return next(new Error('rate_limited'))
+  next()
+})
+
+// Socket handshake auth: { auth: { token } } verified like requireAuth; the token sub is the socket identity.
+// Bots connect with { auth: { botToken } } and act as their bot id
+io.use(async (socket, next) => {
+  const botToken = socket.handshake.auth?.botToken
+  if (botToken) {
+    const bot = await verifyBotToken(botToken)
+    if (!bot) return next(new Error('unauthorized'))
+    socket.data.userId = bot.botId
+    socket.data.name = bot.name
+    socket.data.bot = true
+    return next()
+  }
+  const token = socket.handshake.auth?.token
+  if (typeof token !== 'string' || !token) {
+    if (!ALLOW_GUESTS) return next(new Error('unauthorized'))
+    socket.data.guest = true
+    return next()
+  }
+  const claims = await verifyAccess(`Bearer ${token}`)
+  if (!claims) return next(new Error('unauthorized'))
+  const acc = await findAccountById(claims.sub).catch(() => null)
+  socket.data.userId = claims.sub
+  socket.data.sid = claims.sid
+  socket.data.name = acc?.name || acc?.username || 'Anonymous'
+  next()
+})
+
 io.on('connection', (socket) => {
-  console.log('socket connected', socket.id)
-
-  socket.on('join', (payload: any) => {
-    let name: string
-    let userId: string | undefined
-    if (typeof payload === 'string') { name = payload } else { name = (payload?.name || 'Anonymous'); userId = typeof payload?.userId === 'string' ? payload.userId : undefined }
-    users.set(socket.id, { id: socket.id, name, userId })
-    userRooms.set(socket.id, null)
+  console.log('socket connected', socket.id, socket.data.guest ? '(guest)' : socket.data.userId)
+  const ip = socket.handshake.address || 'unknown'
+  socketsPerIp.set(ip, (socketsPerIp.get(ip) || 0) + 1)
+
+  // per-session room so revoking a session can drop its sockets
+  if (socket.data.sid) socket.join(`session:${socket.data.sid}`)
+  // per-user room so DMs reach every socket the user has open
+  if (socket.data.userId) socket.join(userRoom(socket.data.userId))
+  // every signed-in connection counts as a device, joined or not
+  if (socket.data.userId) updatePresence(socket.data.userId, () => presence.heartbeat(socket.data.userId, socket.id, false)).catch(() => {})
+
+  socket.use(([event], next) => {
+    if (!socket.data.guest || GUEST_EVENTS.has(event)) return next()
+    socket.emit('error', { event, code: 'auth_required', message: 'sign in to do that' })
+  })
+
+  // Per-user event limits (per socket for guests). An event over its limit is dropped: an ack gets
+  // { ok: false, error: 'rate_limited' } and the client gets one `error` per window
+  socket.use(async ([event, ...args], next) => {
+    const rule = SOCKET_RULES[event] || SOCKET_DEFAULT_RULE
+    const r = await limiter.hit(`ev:${event}:${socket.data.userId || socket.id}`, rule)
+    if (r.ok) return next()
+    const ack = args[args.length - 1]
+    if (typeof ack === 'function') ack({ ok: false, error: 'rate_limited', retryAfterMs: r.retryAfterMs })
+    if (r.count === rule.limit + 1) socket.emit('error', { event, code: 'rate_limited', message: 'too many requests, slow down', retryAfterMs: r.retryAfterMs })
+  })
+
+  // identity comes from the verified handshake; the join payload is ignored
+  socket.on('join', async () => {
+    // guests listen only: they are not listed in users or presence
+    if (socket.data.guest) return
+    const userId: string = socket.data.userId
+    const name: string = socket.data.name
+    await registry.add({ id: socket.id, name, userId, room: socket.data.room ?? null })
     socket.broadcast.emit('user:join', { id: socket.id, name })
-    io.emit('users', Array.from(users.values()))
-    // mark presence in global set
-    if (redis) {
-      const key = 'presence:global'
-      redis.sadd(key, socket.id)
-      if (userId) redis.sadd('presence:users', userId)
-    }
-    if (userId) onlineUserIds.add(userId)
+    io.emit('users', await rosterOf(await registry.list()))
   })
 
-  // join a named room (string). Room name 'global' or null means broadcast to all
-  socket.on('joinRoom', (room: string | null) => {
-    const prev = userRooms.get(socket.id) || null
-    if (prev) socket.leave(prev)
+  // { state, text?, expiresInSeconds? }; state 'available' without text clears the status
+  socket.on('status:set', async (raw: unknown, ack?: (res: unknown) => void) => {
+    const reply = (res: unknown) => { if (typeof ack === 'function') ack(res) }
+    const parsed = parseStatus(raw)
+    if (!parsed.ok) return reply(parsed)
+    await changeCustomStatus(socket.data.userId, parsed.status)
+    reply({ ok: true, customStatus: parsed.status })
+  })
+
+  // { away } from the client when its tab is hidden or the user idles; the user is away once every device is
+  socket.on('presence:state', async (p: { away?: boolean }) => {
+    if (typeof p?.away !== 'boolean') return
+    await updatePresence(socket.data.userId, () => presence.heartbeat(socket.data.userId, socket.id, p.away)).catch(() => {})
+  })
+
+  // Move this socket into a room (null = global). An unregistered name is registered as a public room owned by
+  // the first signed-in joiner; private rooms need membership. Joining the room the socket is already in changes nothing.
+  async function joinSocketRoom(raw: string | null): Promise<{ ok: true; room: string | null } | { ok: false; error: string; message: string }> {
+    const deny = (error: string, message: string) => ({ ok: false as const, error, message })
+    const room = raw ? normalizeRoomName(raw) : null
+    if (raw && !room) return deny('invalid_room', 'room names are 1-48 letters, digits, - or _')
+    const prev: string | null = socket.data.room ?? null
+    if (room === prev && (!room || socket.rooms.has(room))) return { ok: true, room }
+    if (room) {
+      // rooms are created with POST /rooms only, so nobody becomes an owner just by joining a name first
+      const userId: string | undefined = socket.data.userId
+      const info = await findRoom(room)
+      if (!info) return deny('room_not_found', 'no such room')
+      if (userId && (await activeBan(room, userId))) return deny('banned', 'you are banned from this room')
+      if (info.isPrivate && !(userId && (await isMember(room, userId)))) return deny('forbidden', 'this room is private')
+      if (!info.isPrivate && userId) await addMember(room, userId)
+    }
+    if (prev) {
+      socket.leave(prev)
+      if (!room) io.to(prev).emit('room:leave', { id: socket.id, name: socket.data.name, room: prev })
+    }
+    socket.data.room = room
+    await registry.setRoom(socket.id, room)
+    if (prev && prev !== room) {
+      await announceMembership(prev, socket.id, socket.data, false)
+      if (!room) await emitUsersInRoom(prev)
+    }
     if (room) {
       socket.join(room)
-      userRooms.set(socket.id, room)
-      const user = users.get(socket.id)
-      io.to(room).emit('room:join', { id: socket.id, name: user?.name, room })
+      io.to(room).emit('room:join', { id: socket.id, name: socket.data.name, room })
+      if (room !== prev) await announceMembership(room, socket.id, socket.data, true)
       // emit current users in room
-      const sockets = Array.from(io.sockets.adapter.rooms.get(room) || [])
-      const usersInRoom = sockets.map((id) => users.get(id)).filter(Boolean)
-      io.to(room).emit('usersInRoom', usersInRoom)
-      if (redis) {
-        redis.sadd(`presence:${room}`, socket.id)
-      }
-    } else {
-      userRooms.set(socket.id, null)
+      await emitUsersInRoom(room)
     }
+    return { ok: true, room }
+  }
+
+  // join a named room (string). Room name 'global' or null means broadcast to all.
+  socket.on('joinRoom', async (raw: string | null, ack?: (res: unknown) => void) => {
+    const res = await joinSocketRoom(raw)
+    if (typeof ack === 'function') ack(res.ok ? res : { ok: false, error: res.error })
+    else if (!res.ok) socket.emit('error', { event: 'joinRoom', code: res.error, message: res.message })
   })
 
-  socket.on('leaveRoom', () => {
-    const prev = userRooms.get(socket.id) || null
-    if (prev) {
-      socket.leave(prev)
-      userRooms.set(socket.id, null)
-      const user = users.get(socket.id)
-      io.to(prev).emit('room:leave', { id: socket.id, name: user?.name, room: prev })
-      const sockets = Array.from(io.sockets.adapter.rooms.get(prev) || [])
-      const usersInRoom = sockets.map((id) => users.get(id)).filter(Boolean)
-      io.to(prev).emit('usersInRoom', usersInRoom)
-      if (redis) {
-        redis.srem(`presence:${prev}`, socket.id)
+  socket.on('leaveRoom', async () => {
+    await joinSocketRoom(null)
+  })
+
+  // Slash commands act for this socket: /join moves it, /call invites as it, and so on
+  const commandContext = (): CommandContext => ({
+    userId: socket.data.userId,
+    name: socket.data.name,
+    room: socket.data.room ?? null,
+    joinRoom: joinSocketRoom,
+    async setNick(raw) {
+      const name = normalizeDisplayName(raw)
+      if (!name) return { ok: false, error: 'invalid_name' }
+      if (socket.data.bot) return { ok: false, error: 'forbidden' }
+      await renameUser(socket.data.userId, name)
+      return { ok: true, name }
+    },
+    async postAction(text) {
+      const res = await postMessage(senderOf(socket), { text, action: true }, socket.data.room ?? null)
+      return res.ok ? { ok: true, id: res.message.messageId } : res
+    },
+    createPoll: (question, options) => createPoll({ question, options }),
+    async remind(inSeconds, note) {
+      const res = await scheduleFor(socket.data.userId, { kind: 'reminder', inSeconds, note })
+      return res.ok ? { ok: true, id: res.schedule.scheduleId, sendAt: res.schedule.sendAt } : { ok: false, error: res.error }
+    },
+    async topicOf(room) {
+      const info = await findRoom(room)
+      return info ? { ok: true, topic: info.topic ?? null } : { ok: false, error: 'room_not_found' }
+    },
+    async setTopic(room, topic) {
+      const info = await findRoom(room)
+      if (!info) return { ok: false, error: 'room_not_found' }
+      if (info.ownerId !== socket.data.userId) return { ok: false, error: 'forbidden' }
+      if (topic.length > 200) return { ok: false, error: 'invalid_topic' }
+      const updated = await updateRoom(room, { topic })
+      if (updated) io.to(room).emit('room:update', publicRoom(updated))
+      return { ok: true }
+    },
+    async startCall(type) {
+      const callId = crypto.randomUUID()
+      await inviteToCall({ callId, room: socket.data.room ?? null, type })
+      return { callId }
+    },
+  })
+
+  // Text starting with "/" runs a command (see commands.ts) and acks { ok, command, reply?, ... }; "//text" posts "/text".
+  // Commands are not parsed in thread replies
+  socket.on('message', async (msg: { text: string; room?: string | null; parentId?: string; attachments?: string[] }, ack?: (res: unknown) => void) => {
+    let text = msg?.text
+    if (typeof text === 'string' && msg.parentId == null) {
+      const cmd = parseCommand(text)
+      if (cmd) {
+        const res = await runCommand(cmd, commandContext())
+        if (typeof ack === 'function') ack(res)
+        else if (res.reply) socket.emit('command:reply', { command: res.command, ok: res.ok, text: res.reply })
+        return
       }
+      if (text.startsWith('//')) text = text.slice(1)
     }
+    const res = await postMessage(senderOf(socket), { ...msg, text }, socket.data.room ?? null)
+    if (typeof ack === 'function') ack(res.ok ? { ok: true, id: res.message.messageId } : res)
+    else if (!res.ok && SENDER_ERRORS[res.error]) socket.emit('error', { event: 'message', code: res.error, message: res.reason || SENDER_ERRORS[res.error] })
   })
 
-  socket.on('message', async (msg: { text: string; room?: string | null }) => {
-    const user = users.get(socket.id) || { id: socket.id, name: 'Anonymous' }
-    const payload: any = { id: socket.id, name: user.name, text: msg.text, ts: Date.now(), room: msg.room ?? userRooms.get(socket.id) ?? null }
-    const room = payload.room
-    // persist message if DB is available
-    try {
-      if (isMongoConnected()) {
-        await Message.create({ name: payload.name, text: payload.text, ts: payload.ts, room: payload.room })
-      } else {
-        inMemMessages.push({ name: payload.name, text: payload.text, ts: payload.ts, room: payload.room ?? null })
-        // cap to last 500
-        if (inMemMessages.length > 500) inMemMessages.splice(0, inMemMessages.length - 500)
-      }
-    } catch (e) {
-      console.error('Failed to save message', e)
+  // Edit own message (or any, for moderators); previous text is kept in `edits`
+  socket.on('message:edit', async (p: { id: string; text: string }, ack?: (res: unknown) => void) => {
+    const reply = (res: unknown) => { if (typeof ack === 'function') ack(res) }
+    if (typeof p?.id !== 'string' || typeof p.text !== 'string' || !p.text.trim()) return reply({ ok: false, error: 'invalid_payload' })
+    if (p.text.length > MAX_MESSAGE_LENGTH) return reply({ ok: false, error: 'message_too_long' })
+    const cur = await findMessage(p.id)
+    if (!cur || cur.deletedAt) return reply({ ok: false, error: 'not_found' })
+    if (cur.userId !== socket.data.userId && !canModerate(socket.data.userId, cur)) return reply({ ok: false, error: 'forbidden' })
+    const screened = await screenMessage({ text: p.text, userId: socket.data.userId, room: cur.room, conversationId: cur.conversationId ?? null, editOf: cur.messageId }, socket.data.name)
+    if (!screened.ok) return reply({ ok: false, error: 'message_rejected', reason: screened.reason })
+    const updated = await editMessage(p.id, screened.text)
+    if (!updated) return reply({ ok: false, error: 'not_found' })
+    await flagMessage(updated, screened.flags)
+    const pub = toPublicMessage(updated)
+    emitToAudience(updated, 'message:edit', { id: pub.id, room: pub.room, conversationId: pub.conversationId, text: pub.text, editedAt: pub.editedAt, edits: pub.edits })
+    notifyWebhooks(updated.room, 'message.edited', pub)
+    reply({ ok: true })
+  })
+
+  // Delete own message (or any, for moderators and the room's owner/moderators), leaving a tombstone
+  socket.on('message:delete', async (p: { id: string }, ack?: (res: unknown) => void) => {
+    const reply = (res: unknown) => { if (typeof ack === 'function') ack(res) }
+    if (typeof p?.id !== 'string') return reply({ ok: false, error: 'invalid_payload' })
+    const cur = await findMessage(p.id)
+    if (!cur || cur.deletedAt) return reply({ ok: false, error: 'not_found' })
+    const own = cur.userId === socket.data.userId
+    if (!own && !canModerate(socket.data.userId, cur)) {
+      const info = cur.room ? await findRoom(cur.room) : null
+      if (!info || (await moderatorRank(info, socket.data.userId)) < roleRank('moderator')) return reply({ ok: false, error: 'forbidden' })
+    }
+    const deleted = await deleteMessage(p.id, socket.data.userId)
+    if (!deleted) return reply({ ok: false, error: 'not_found' })
+    if (!own && deleted.room) await recordModeration({ room: deleted.room, action: 'delete', actorId: socket.data.userId, targetId: deleted.userId ?? null, messageId: deleted.messageId })
+    emitToAudience(deleted, 'message:delete', { id: deleted.messageId, room: deleted.room, conversationId: deleted.conversationId ?? null, deletedAt: deleted.deletedAt, deletedBy: deleted.deletedBy })
+    notifyWebhooks(deleted.room, 'message.deleted', { id: deleted.messageId, room: deleted.room, userId: deleted.userId ?? null, deletedAt: deleted.deletedAt, deletedBy: deleted.deletedBy })
+    reply({ ok: true })
+  })
+
+  // Moderation commands: { room, userId, ... }. The actor must be the room's owner or a moderator
+  // (global moderators count as one) and outrank the target; every action goes to the moderation log.
+  const modCommand = (handler: (room: RoomInfo, targetId: string, p: any) => Promise<ModerationEntry | { error: string }>, ownerOnly = false) =>
+    async (p: any, ack?: (res: unknown) => void) => {
+      const reply = (res: unknown) => { if (typeof ack === 'function') ack(res) }
+      const room = typeof p?.room === 'string' ? normalizeRoomName(p.room) : null
+      const targetId = typeof p?.userId === 'string' ? p.userId : ''
+      if (!room || !targetId || (p.reason != null && (typeof p.reason !== 'string' || p.reason.length > 500))) return reply({ ok: false, error: 'invalid_payload' })
+      const info = await findRoom(room)
+      if (!info) return reply({ ok: false, error: 'room_not_found' })
+      const rank = ownerOnly ? roleRank(await roleIn(info, socket.data.userId)) : await moderatorRank(info, socket.data.userId)
+      if (rank < roleRank(ownerOnly ? 'owner' : 'moderator')) return reply({ ok: false, error: 'forbidden' })
+      if (targetId === socket.data.userId || roleRank(await roleIn(info, targetId)) >= rank) return reply({ ok: false, error: 'forbidden' })
+      const res = await handler(info, targetId, p)
+      if ('error' in res) return reply({ ok: false, error: res.error })
+      announceModeration(res)
+      reply({ ok: true, entry: res })
     }
+  // durationSeconds: positive whole seconds up to a year; undefined when absent, null when invalid
+  const parseDuration = (v: unknown) => {
+    if (v == null) return undefined
+    const n = Number(v)
+    return Number.isInteger(n) && n > 0 && n <= MAX_MOD_DURATION_SECONDS ? n : null
+  }
+  const reasonOf = (p: any): string | null => (typeof p?.reason === 'string' && p.reason.trim()) || null
+
+  // Kick: drop the membership and pull the user's sockets out; they may rejoin a public room
+  socket.on('mod:kick', modCommand(async (room, targetId, p) => {
+    if (!(await isMember(room.name, targetId))) return { error: 'not_member' }
+    await removeMember(room.name, targetId)
+    await ejectFromRoom(room.name, targetId)
+    return recordModeration({ room: room.name, action: 'kick', actorId: socket.data.userId, targetId, reason: reasonOf(p) })
+  }))
+  // Ban: like a kick, and joining/messaging/invites are refused until it expires (no duration = permanent)
+  socket.on('mod:ban', modCommand(async (room, targetId, p) => {
+    const seconds = parseDuration(p.durationSeconds)
+    if (seconds === null) return { error: 'invalid_duration' }
+    const until = seconds ? Date.now() + seconds * 1000 : null
+    await banUser({ room: room.name, userId: targetId, bannedBy: socket.data.userId, reason: reasonOf(p), until })
+    await ejectFromRoom(room.name, targetId)
+    return recordModeration({ room: room.name, action: 'ban', actorId: socket.data.userId, targetId, reason: reasonOf(p), until })
+  }))
+  socket.on('mod:unban', modCommand(async (room, targetId) => {
+    if (!(await unbanUser(room.name, targetId))) return { error: 'not_banned' }
+    return recordModeration({ room: room.name, action: 'unban', actorId: socket.data.userId, targetId })
+  }))
+  // Mute: the member stays in the room but cannot send messages until it expires
+  socket.on('mod:mute', modCommand(async (room, targetId, p) => {
+    const seconds = parseDuration(p.durationSeconds)
+    if (seconds === null) return { error: 'invalid_duration' }
+    const until = Date.now() + (seconds ?? DEFAULT_MUTE_SECONDS) * 1000
+    if (!(await setMute(room.name, targetId, until))) return { error: 'not_member' }
+    return recordModeration({ room: room.name, action: 'mute', actorId: socket.data.userId, targetId, reason: reasonOf(p), until })
+  }))
+  socket.on('mod:unmute', modCommand(async (room, targetId) => {
+    if (!(await setMute(room.name, targetId, null))) return { error: 'not_member' }
+    return recordModeration({ room: room.name, action: 'unmute', actorId: socket.data.userId, targetId })
+  }))
+  // Role: the owner promotes a member to moderator or demotes them back
+  socket.on('mod:role', modCommand(async (room, targetId, p) => {
+    if (p.role !== 'moderator' && p.role !== 'member') return { error: 'invalid_role' }
+    if (!(await setMemberRole(room.name, targetId, p.role))) return { error: 'not_member' }
+    return recordModeration({ room: room.name, action: 'role', actorId: socket.data.userId, targetId, role: p.role })
+  }, true))
+
+  // Reactions: toggle one emoji for the caller on a message they can see
+  const onReaction = (on: boolean) => async (p: { id: string; emoji: string }, ack?: (res: unknown) => void) => {
+    const reply = (res: unknown) => { if (typeof ack === 'function') ack(res) }
+    const emoji = typeof p?.emoji === 'string' ? p.emoji.trim() : ''
+    if (typeof p?.id !== 'string' || !emoji || emoji.length > 16 || /\s/.test(emoji)) return reply({ ok: false, error: 'invalid_payload' })
+    const cur = await findMessage(p.id)
+    if (!cur || cur.deletedAt) return reply({ ok: false, error: 'not_found' })
+    if (!(await canSeeMessage(cur, socket.data.userId))) return reply({ ok: false, error: 'not_found' })
+    const updated = await setReaction(p.id, emoji, socket.data.userId, on)
+    if (!updated) return reply({ ok: false, error: on ? 'too_many_reactions' : 'not_found' })
+    emitToAudience(updated, 'reaction', { id: updated.messageId, room: updated.room, conversationId: updated.conversationId ?? null, reactions: publicReactions(updated) })
+    reply({ ok: true })
+  }
+  socket.on('reaction:add', onReaction(true))
+  socket.on('reaction:remove', onReaction(false))
 
-    if (room) io.to(room).emit('message', payload)
-    else io.emit('message', payload)
+  // Polls: poll:create { room?, question, options, multiple?, anonymous?, closesInSeconds? } posts one like a message
+  // and acks { ok, id }; votes and closing send poll:update { id, room, conversationId, poll } to the audience
+  const createPoll = async (p: any): Promise<{ ok: true; id: string } | { ok: false; error: string; reason?: string }> => {
+    const parsed = parsePoll(p)
+    if (!parsed.ok) return parsed
+    const res = await postMessage(senderOf(socket), { text: parsed.question, room: p.room, poll: parsed.poll }, socket.data.room ?? null)
+    return res.ok ? { ok: true, id: res.message.messageId } : res
+  }
+  socket.on('poll:create', async (p: unknown, ack?: (res: unknown) => void) => {
+    const res = await createPoll(p)
+    if (typeof ack === 'function') ack(res)
+    else if (!res.ok) socket.emit('error', { event: 'poll:create', code: res.error, message: res.reason || res.error })
   })
 
-  socket.on('disconnect', () => {
-    const user = users.get(socket.id)
-    users.delete(socket.id)
+  // poll:vote { id, options: [index] } replaces the caller's vote (an empty list takes it back); acks { ok, poll } with myVotes
+  socket.on('poll:vote', async (p: { id: string; options: number[] }, ack?: (res: unknown) => void) => {
+    const reply = (res: unknown) => { if (typeof ack === 'function') ack(res) }
+    if (typeof p?.id !== 'string') return reply({ ok: false, error: 'invalid_payload' })
+    const cur = await findMessage(p.id)
+    if (!cur?.poll || cur.deletedAt || !(await canSeeMessage(cur, socket.data.userId))) return reply({ ok: false, error: 'not_found' })
+    if (!isPollOpen(cur.poll)) return reply({ ok: false, error: 'poll_closed' })
+    const choices = parseChoices(cur.poll, p.options)
+    if (!choices) return reply({ ok: false, error: 'invalid_choice' })
+    const updated = await setPollVote(cur.messageId, socket.data.userId, choices)
+    if (!updated?.poll) return reply({ ok: false, error: 'poll_closed' })
+    announcePoll(updated)
+    reply({ ok: true, poll: publicPoll(updated.poll, socket.data.userId) })
+  })
+
+  // poll:close { id }: the poll's author, or a moderator of its room, ends voting early
+  socket.on('poll:close', async (p: { id: string }, ack?: (res: unknown) => void) => {
+    const reply = (res: unknown) => { if (typeof ack === 'function') ack(res) }
+    if (typeof p?.id !== 'string') return reply({ ok: false, error: 'invalid_payload' })
+    const cur = await findMessage(p.id)
+    if (!cur?.poll || cur.deletedAt || !(await canSeeMessage(cur, socket.data.userId))) return reply({ ok: false, error: 'not_found' })
+    if (cur.userId !== socket.data.userId && !canModerate(socket.data.userId, cur)) {
+      const info = cur.room ? await findRoom(cur.room) : null
+      if (!info || (await moderatorRank(info, socket.data.userId)) < roleRank('moderator')) return reply({ ok: false, error: 'forbidden' })
+    }
+    if (!isPollOpen(cur.poll) || !(await finishPoll(cur.messageId, Date.now()))) return reply({ ok: false, error: 'poll_closed' })
+    reply({ ok: true })
+  })
+
+  // Receipts: { id } acknowledges everything up to that message in its room/DM as delivered or read
+  const onReceipt = (kind: ReceiptKind) => async (p: { id: string }, ack?: (res: unknown) => void) => {
+    const reply = (res: unknown) => { if (typeof ack === 'function') ack(res) }
+    if (typeof p?.id !== 'string') return reply({ ok: false, error: 'invalid_payload' })
+    const m = await findMessage(p.id)
+    if (!m) return reply({ ok: false, error: 'not_found' })
+    if (!(await canSeeMessage(m, socket.data.userId))) return reply({ ok: false, error: 'not_found' })
+    const r = await advanceReceipt(socket.data.userId, receiptScope(m), kind, m.ts)
+    // only moved watermarks are broadcast; repeats are acked quietly
+    if (r) emitToAudience(m, 'receipt', { ...publicReceipt(r), room: m.room, conversationId: m.conversationId ?? null })
+    reply({ ok: true })
+  }
+  socket.on('receipt:delivered', onReceipt('delivered'))
+  socket.on('receipt:read', onReceipt('read'))
+
+  // Typing: typing:start { room? | conversationId? } must be repeated within TYPING_TTL_MS or the flag lapses
+  const typingTimers = new Map<string, { timer: NodeJS.Timeout; scope: { room: string | null; conversationId: string | null } }>()
+  const typingScope = (p: { room?: string | null; conversationId?: string | null } | undefined) => {
+    if (typeof p?.conversationId === 'string' && p.conversationId) {
+      return isParticipant(p.conversationId, socket.data.userId) ? { room: null, conversationId: p.conversationId } : null
+    }
+    const room = typeof p?.room === 'string' && p.room ? normalizeRoomName(p.room) : (socket.data.room ?? null)
+    // only the room this socket has joined (joinRoom checked access)
+    if (room && room !== socket.data.room) return null
+    return { room, conversationId: null }
+  }
+  const broadcastTyping = async (scope: { room: string | null; conversationId: string | null }) => {
+    const list = await listTyping(redis, typingKey(scope))
+    emitToAudience(scope, 'typing', { ...scope, users: publicTyping(list) })
+  }
+  const endTyping = async (key: string) => {
+    const cur = typingTimers.get(key)
+    if (!cur) return
+    clearTimeout(cur.timer)
+    typingTimers.delete(key)
+    if (await stopTyping(redis, key, socket.id).catch(() => false)) await broadcastTyping(cur.scope)
+  }
+  socket.on('typing:start', async (p?: { room?: string | null; conversationId?: string | null }) => {
+    const scope = typingScope(p)
+    if (!scope) return
+    const key = typingKey(scope)
+    const cur = typingTimers.get(key)
+    if (cur) clearTimeout(cur.timer)
+    typingTimers.set(key, { scope, timer: setTimeout(() => { endTyping(key) }, TYPING_TTL_MS) })
+    const started = await startTyping(redis, key, { socketId: socket.id, userId: socket.data.userId, name: socket.data.name }).catch(() => false)
+    if (started) await broadcastTyping(scope)
+  })
+  socket.on('typing:stop', async (p?: { room?: string | null; conversationId?: string | null }) => {
+    const scope = typingScope(p)
+    if (scope) await endTyping(typingKey(scope))
+  })
+
+  // Direct message to a stable user id; delivered to every socket of both participants
+  socket.on('dm', async (msg: { to: string; text: string; parentId?: string; attachments?: string[] }) => {
+    const res = await postDirectMessage(senderOf(socket), msg)
+    if (!res.ok) socket.emit('error', { event: 'dm', code: res.error, message: res.reason || DM_ERRORS[res.error] || res.error })
+  })
+
+  socket.on('disconnect', async () => {
+    const left = (socketsPerIp.get(ip) || 1) - 1
+    if (left > 0) socketsPerIp.set(ip, left)
+    else socketsPerIp.delete(ip)
+    // a closed socket stops typing everywhere
+    for (const key of Array.from(typingTimers.keys())) endTyping(key)
+    const user = await registry.remove(socket.id)
     if (user) socket.broadcast.emit('user:leave', { id: socket.id, name: user.name })
-    io.emit('users', Array.from(users.values()))
-    if (redis) {
-      // remove from all presence sets
-      // best-effort: remove from global and any room known
-      redis.srem('presence:global', socket.id)
-      const room = userRooms.get(socket.id)
-      if (room) redis.srem(`presence:${room}`, socket.id)
-      // also remove typing flags
-      redis.srem('typing:global', socket.id)
-      if (room) redis.srem(`typing:${room}`, socket.id)
-      if (user?.userId) redis.srem('presence:users', user.userId)
+    io.emit('users', await rosterOf(await registry.list()))
+    const room: string | null = socket.data.room ?? null
+    if (room) {
+      await announceMembership(room, socket.id, socket.data, false)
+      await emitUsersInRoom(room)
+    }
+    if (socket.data.userId) await updatePresence(socket.data.userId, () => presence.drop(socket.data.userId, socket.id)).catch(() => {})
+    // a vanished caller cancels its ringing calls; a vanished callee misses them
+    for (const call of await liveDirectCallsOf(socket.id).catch(() => [])) {
+      finishDirectCall(call, call.callerSocket === socket.id ? 'canceled' : 'missed').catch(() => {})
     }
-    if (user?.userId) onlineUserIds.delete(user.userId)
     console.log('socket disconnected', socket.id)
   })
 
   // --- WebRTC signaling relays ---
-  socket.on('webrtc:offer', (payload: { to: string; sdp: RTCSessionDescriptionInit; media?: 'audio' | 'video'; callId?: string }) => {
+  // 1:1 calls are logged from the signaling itself: the first offer between two sockets starts ringing,
+  // an answer from the callee marks it answered, call:busy / webrtc:end (or a disconnect) closes it
+  socket.on('webrtc:offer', async (payload: { to: string; sdp: RTCSessionDescriptionInit; media?: 'audio' | 'video'; callId?: string }) => {
     const to = payload?.to
-    if (to) io.to(to).emit('webrtc:offer', { from: socket.id, sdp: payload.sdp, media: payload.media, callId: payload.callId })
+    if (!to) return
+    const relay = () => io.to(to).emit('webrtc:offer', { from: socket.id, sdp: payload.sdp, media: payload.media, callId: payload.callId })
+    // group offers carry a callId and are logged with their call; renegotiation reuses the live entry
+    if (payload.callId || !socket.data.userId) return relay()
+    try {
+      if (await findLiveDirectCall(socket.id, to)) return relay()
+      const [target] = await io.in(to).fetchSockets()
+      const media: CallType = payload.media === 'video' ? 'video' : 'audio'
+      // Do Not Disturb: the callee never rings, the caller hears busy and the callee gets a missed call
+      if (target && (await dndUsersAmong([target], socket.data.userId)).size) {
+        socket.emit('call:busy', { from: to, reason: 'dnd' })
+        await recordMissedCall({ callerId: socket.data.userId, calleeId: target.data.userId, media, room: null, kind: 'direct' })
+        return
+      }
+      relay()
+      if (!target?.data.userId) return
+      await startDirectCall({ callerId: socket.data.userId, calleeId: target.data.userId, media, callerSocket: socket.id, calleeSocket: to })
+    } catch (e) {
+      console.error('Failed to log call', e)
+    }
   })
-  socket.on('webrtc:answer', (payload: { to: string; sdp: RTCSessionDescriptionInit; callId?: string }) => {
+  socket.on('webrtc:answer', async (payload: { to: string; sdp: RTCSessionDescriptionInit; callId?: string }) => {
     const to = payload?.to
-    if (to) io.to(to).emit('webrtc:answer', { from: socket.id, sdp: payload.sdp, callId: payload.callId })
+    if (!to) return
+    io.to(to).emit('webrtc:answer', { from: socket.id, sdp: payload.sdp, callId: payload.callId })
+    if (payload.callId) return
+    const call = await findLiveDirectCall(socket.id, to).catch(() => null)
+    if (call && call.outcome === null && call.calleeSocket === socket.id) markAnswered(call.callId).catch(() => {})
   })
   socket.on('webrtc:ice', (payload: { to: string; candidate: RTCIceCandidateInit; callId?: string }) => {
     const to = payload?.to
     if (to) io.to(to).emit('webrtc:ice', { from: socket.id, candidate: payload.candidate, callId: payload.callId })
   })
-  socket.on('webrtc:end', (payload: { to: string }) => {
+  // reason 'missed' = the ring timed out; otherwise an unanswered end is a cancel (caller) or decline (callee)
+  socket.on('webrtc:end', async (payload: { to: string; reason?: 'missed' }) => {
     const to = payload?.to
-    if (to) io.to(to).emit('webrtc:end', { from: socket.id })
+    if (!to) return
+    io.to(to).emit('webrtc:end', { from: socket.id })
+    const call = await findLiveDirectCall(socket.id, to).catch(() => null)
+    if (call) finishDirectCall(call, payload.reason === 'missed' ? 'missed' : call.callerSocket === socket.id ? 'canceled' : 'declined').catch(() => {})
   })
-  socket.on('call:busy', (payload: { to: string }) => {
+  socket.on('call:busy', async (payload: { to: string }) => {
     const to = payload?.to
-    if (to) io.to(to).emit('call:busy', { from: socket.id })
+    if (!to) return
+    io.to(to).emit('call:busy', { from: socket.id })
+    const call = await findLiveDirectCall(socket.id, to).catch(() => null)
+    if (call && call.outcome === null && call.calleeSocket === socket.id) finishDirectCall(call, 'busy').catch(() => {})
   })
   socket.on('call:upgrade', (payload: { to: string; kind: 'video' | 'audio' }) => {
     const to = payload?.to
@@ -205,126 +953,805 @@ io.on('connection', (socket) => {
   })
 
   // --- Group call orchestration (mesh) ---
-  // activeCalls keeps lightweight state of room calls (in-memory; optional persistence can be added)
-  type CallType = 'audio' | 'video'
-  type CallState = { room: string | null; type: CallType; participants: Set<string>; startedAt: number; initiator: string }
-  // Store on io instance to keep across connections without module-level mutation duplication in hot reloads
-  const anyIo = io as any
-  if (!anyIo.__activeCalls) anyIo.__activeCalls = new Map<string, CallState>()
-  if (!anyIo.__callLogs) anyIo.__callLogs = [] as Array<{ callId: string; room: string | null; type: CallType; startedAt: number; endedAt?: number; initiator: string; participants: string[] }>
-
-  socket.on('call:invite', (payload: { callId: string; room: string | null; type: CallType; to?: string }) => {
-    const { callId, room, type, to } = payload
+  // call state lives in callStore (Redis when configured), so invites/joins on any node see the same call
+  const emitToCall = (room: string | null, event: string, payload: unknown) => {
+    if (room) io.to(room).emit(event, payload)
+    else io.emit(event, payload)
+  }
+
+  async function inviteToCall(payload: { callId: string; room: string | null; type: CallType; to?: string }) {
+    if (typeof payload?.callId !== 'string' || (payload.type !== 'audio' && payload.type !== 'video')) return
+    if ((payload.room != null && typeof payload.room !== 'string') || (payload.to != null && typeof payload.to !== 'string')) return
+    const { callId, type, to } = payload
+    // a room other than the socket's own must be readable and not banned to the caller, as for messages
+    const room = payload.room ? normalizeRoomName(payload.room) : null
+    if (payload.room && !room) return
+    const userId: string | undefined = socket.data.userId
+    if (room && room !== socket.data.room && (!userId || !(await canReadRoom(room, userId)) || (await activeBan(room, userId)))) {
+      socket.emit('error', { event: 'call:invite', code: 'forbidden', message: 'you cannot start a call in that room' })
+      return
+    }
     // create call record if not exists
-    if (!anyIo.__activeCalls.has(callId)) {
-      anyIo.__activeCalls.set(callId, { room, type, participants: new Set(), startedAt: Date.now(), initiator: socket.id })
-      anyIo.__callLogs.push({ callId, room, type, startedAt: Date.now(), initiator: socket.id, participants: [] })
+    if (await callStore.open(callId, { room, type, initiator: socket.data.userId })) {
+      notifyWebhooks(room, 'call.started', { callId, type, initiator: socket.data.userId ?? null, startedAt: Date.now() })
     }
-    const user = users.get(socket.id)
+    const fromName = socket.data.name
+    // Do Not Disturb users are not rung: the inviter hears busy from their sockets and each gets a missed call
+    const targets = to ? await io.in(to).fetchSockets() : room ? await io.in(room).fetchSockets() : await io.fetchSockets()
+    const dnd = await dndUsersAmong(targets, socket.data.userId)
+    for (const s of targets) if (dnd.has(s.data.userId)) socket.emit('call:busy', { from: s.id, reason: 'dnd', callId })
+    for (const calleeId of dnd) {
+      recordMissedCall({ callerId: socket.data.userId, calleeId, media: type === 'video' ? 'video' : 'audio', room, kind: 'group' }).catch(() => {})
+    }
+    const skip = Array.from(dnd, userRoom)
     // direct invite
     if (to) {
-      socket.to(to).emit('call:invite', { callId, type, from: socket.id, fromName: user?.name })
+      if (!dnd.size) socket.to(to).emit('call:invite', { callId, type, from: socket.id, fromName })
       return
     }
     // invite everyone in the specified room (or globally if room is null)
     if (room) {
-      socket.to(room).emit('call:invite', { callId, type, from: socket.id, fromName: user?.name })
+      socket.to(room).except(skip).emit('call:invite', { callId, type, from: socket.id, fromName })
     } else {
-      socket.broadcast.emit('call:invite', { callId, type, from: socket.id, fromName: user?.name })
+      socket.broadcast.except(skip).emit('call:invite', { callId, type, from: socket.id, fromName })
     }
-  })
+  }
+
+  socket.on('call:invite', inviteToCall)
 
-  socket.on('call:join', (payload: { callId: string }) => {
-    const st: CallState | undefined = anyIo.__activeCalls.get(payload.callId)
+  socket.on('call:join', async (payload: { callId: string }) => {
+    if (typeof payload?.callId !== 'string') return
+    const st = await callStore.join(payload.callId, socket.id, socket.data.userId)
     if (!st) return
-    st.participants.add(socket.id)
-    // update log participants set
-    const log = anyIo.__callLogs.find((l: any) => l.callId === payload.callId)
-    if (log) {
-      const set = new Set(log.participants)
-      set.add(socket.id)
-      log.participants = Array.from(set)
-    }
     // Notify room about current participants (ids)
-    const targetRoom = st.room
-    const list = Array.from(st.participants.values())
-    if (targetRoom) io.to(targetRoom).emit('call:participants', { callId: payload.callId, participants: list })
-    else io.emit('call:participants', { callId: payload.callId, participants: list })
+    emitToCall(st.room, 'call:participants', { callId: payload.callId, participants: st.participants })
   })
 
-  socket.on('call:leave', (payload: { callId: string }) => {
-    const st: CallState | undefined = anyIo.__activeCalls.get(payload.callId)
+  // the call ends when its last participant leaves
+  socket.on('call:leave', async (payload: { callId: string }) => {
+    if (typeof payload?.callId !== 'string') return
+    const st = await callStore.leave(payload.callId, socket.id)
     if (!st) return
-    st.participants.delete(socket.id)
-    const targetRoom = st.room
-    const list = Array.from(st.participants.values())
-    if (targetRoom) io.to(targetRoom).emit('call:participants', { callId: payload.callId, participants: list })
-    else io.emit('call:participants', { callId: payload.callId, participants: list })
-    // If none left, end the call
-    if (st.participants.size === 0) {
-      const log = anyIo.__callLogs.find((l: any) => l.callId === payload.callId)
-      if (log && !log.endedAt) log.endedAt = Date.now()
-      anyIo.__activeCalls.delete(payload.callId)
+    emitToCall(st.room, 'call:participants', { callId: payload.callId, participants: st.participants })
+    if (st.ended) {
+      recordGroupCall(st.ended).catch(() => {})
+      notifyWebhooks(st.ended.room, 'call.ended', { ...st.ended, durationMs: st.ended.endedAt - st.ended.startedAt })
     }
   })
 
-  socket.on('call:endAll', (payload: { callId: string }) => {
-    const st: CallState | undefined = anyIo.__activeCalls.get(payload.callId)
+  socket.on('call:endAll', async (payload: { callId: string }) => {
+    if (typeof payload?.callId !== 'string') return
+    const st = await callStore.end(payload.callId)
     if (!st) return
-    const targetRoom = st.room
-    const participants = Array.from(st.participants.values())
-    participants.forEach((pid: string) => io.to(pid).emit('webrtc:end', { from: socket.id }))
-    if (targetRoom) io.to(targetRoom).emit('call:endAll', { callId: payload.callId })
-    else io.emit('call:endAll', { callId: payload.callId })
-    const log = anyIo.__callLogs.find((l: any) => l.callId === payload.callId)
-    if (log && !log.endedAt) log.endedAt = Date.now()
-    anyIo.__activeCalls.delete(payload.callId)
+    st.participants.forEach((pid: string) => io.to(pid).emit('webrtc:end', { from: socket.id }))
+    emitToCall(st.room, 'call:endAll', { callId: payload.callId })
+    if (st.ended) {
+      recordGroupCall(st.ended).catch(() => {})
+      notifyWebhooks(st.ended.room, 'call.ended', { ...st.ended, durationMs: st.ended.endedAt - st.ended.startedAt })
+    }
   })
 })
 
+// Every REST request counts against its client IP; the routes below add tighter per-route limits
+app.use(async (req, res, next) => {
+  const r = await limiter.hit(`rest:${clientIp(req)}`, REST_RULE)
+  if (r.ok) return next()
+  res.set('Retry-After', String(Math.ceil(r.retryAfterMs / 1000)))
+  res.status(429).json({ ok: false, error: 'rate_limited' })
+})
+
 app.get('/', (req, res) => res.send({ status: 'Echo server running' }))
 
-// Simple login: returns JWT for provided or generated userId
-// POST /auth/login { userId?, name? , expSeconds? }
+function clientIp(req: express.Request) {
+  return req.ip || req.socket.remoteAddress || 'unknown'
+}
+
+// Create a session and the first access/refresh token pair for it
+async function startSession(req: express.Request, userId: string) {
+  const { session, refreshToken } = await createSession(userId, { device: req.get('user-agent'), ip: clientIp(req) })
+  const token = await issueToken(userId, ACCESS_TOKEN_TTL, session.sessionId)
+  return { token, refreshToken, expiresIn: ACCESS_TOKEN_TTL }
+}
+
+// Revoked sessions lose their sockets immediately; REST calls fail in requireAuth
+onSessionRevoked((s) => {
+  io.to(`session:${s.sessionId}`).emit('session:revoked', { sessionId: s.sessionId })
+  io.in(`session:${s.sessionId}`).disconnectSockets(true)
+})
+
+function validPassword(pw: unknown): pw is string {
+  return typeof pw === 'string' && pw.length >= 8 && pw.length <= 256
+}
+
+// Register a password account: hash via auth-rs, store user, then issue a token
+// POST /auth/register { username, password, name? }
+app.post('/auth/register', async (req, res) => {
+  const { username, password, name } = req.body || {}
+  const uname = normalizeUsername(username)
+  if (!uname) return res.status(400).json({ ok: false, error: 'invalid_username' })
+  if (!validPassword(password)) return res.status(400).json({ ok: false, error: 'invalid_password' })
+  if (name !== undefined && (typeof name !== 'string' || name.length > 64)) return res.status(400).json({ ok: false, error: 'invalid_name' })
+  if (!(await rateLimit(`register:${clientIp(req)}`, 10))) return res.status(429).json({ ok: false, error: 'rate_limited' })
+  try {
+    if (await findAccountByUsername(uname)) return res.status(409).json({ ok: false, error: 'username_taken' })
+    const passwordHash = await hashPassword(password)
+    const acc = await createAccount({ username: uname, name: typeof name === 'string' && name.trim() ? name.trim() : undefined, passwordHash })
+    if (!acc) return res.status(409).json({ ok: false, error: 'username_taken' })
+    return res.json({ ok: true, ...(await startSession(req, acc.userId)), ...publicProfile(acc) })
+  } catch (e: any) {
+    return res.status(500).json({ ok: false, error: 'register_failed', detail: e?.message })
+  }
+})
+
+// Password login: verify via auth-rs, then issue a token for the stored user id
+// POST /auth/login { username, password }
 app.post('/auth/login', async (req, res) => {
+  const { username, password } = req.body || {}
+  const uname = normalizeUsername(username)
+  if (!uname || typeof password !== 'string' || !password) return res.status(400).json({ ok: false, error: 'username and password required' })
+  if (!(await rateLimit(`login:${clientIp(req)}`, 20))) return res.status(429).json({ ok: false, error: 'rate_limited' })
   try {
-    const { userId, name, expSeconds } = req.body || {}
-    const sub = typeof userId === 'string' && userId ? userId : crypto.randomUUID()
-    // issue token via auth service
-    const resp = await fetch(`${AUTH_URL}/token`, {
-      method: 'POST', headers: { 'content-type': 'application/json' },
-      body: JSON.stringify({ sub, exp_seconds: typeof expSeconds === 'number' ? expSeconds : 3600 })
-    })
-    if (!resp.ok) {
-      const text = await resp.text()
-      return res.status(500).json({ ok: false, error: 'auth_issue_failed', detail: text })
+    const acc = await findAccountByUsername(uname)
+    if (!acc || !(await verifyPassword(password, acc.passwordHash))) {
+      return res.status(401).json({ ok: false, error: 'invalid_credentials' })
     }
-    const data = await resp.json() as { token: string }
-    return res.json({ ok: true, token: data.token, userId: sub, name: typeof name === 'string' ? name : undefined })
+    return res.json({ ok: true, ...(await startSession(req, acc.userId)), ...publicProfile(acc) })
   } catch (e: any) {
     return res.status(500).json({ ok: false, error: 'login_failed', detail: e?.message })
   }
 })
 
-// fetch recent messages (optional ?room=roomName)
+// Exchange a refresh token for a new access token; the refresh token rotates on every use
+// POST /auth/refresh { refreshToken } -> { ok, token, refreshToken, expiresIn }
+app.post('/auth/refresh', async (req, res) => {
+  const { refreshToken } = req.body || {}
+  if (typeof refreshToken !== 'string' || !refreshToken) return res.status(400).json({ ok: false, error: 'refreshToken required' })
+  if (!(await rateLimit(`refresh:${clientIp(req)}`, 60))) return res.status(429).json({ ok: false, error: 'rate_limited' })
+  try {
+    const rotated = await rotateRefreshToken(refreshToken, { ip: clientIp(req) }, (s) => issueToken(s.userId, ACCESS_TOKEN_TTL, s.sessionId))
+    if (!rotated.ok) return res.status(rotated.error === 'refresh_conflict' ? 409 : 401).json(rotated)
+    return res.json({ ok: true, token: rotated.accessToken, refreshToken: rotated.refreshToken, expiresIn: ACCESS_TOKEN_TTL })
+  } catch (e: any) {
+    return res.status(500).json({ ok: false, error: 'refresh_failed', detail: e?.message })
+  }
+})
+
+// POST /auth/logout -> revoke the caller's current session
+app.post('/auth/logout', requireAuth(), async (req, res) => {
+  const claims = (req as any).user as JwtClaims
+  if (claims.sid) await revokeSession(claims.sid)
+  return res.json({ ok: true })
+})
+
+// GET /auth/sessions -> { ok, sessions: [{ sessionId, device, ip, createdAt, lastUsedAt, current }] }
+app.get('/auth/sessions', requireAuth(), async (req, res) => {
+  const claims = (req as any).user as JwtClaims
+  const sessions = await listSessions(claims.sub)
+  return res.json({ ok: true, sessions: sessions.map((s) => publicSession(s, claims.sid)) })
+})
+
+// DELETE /auth/sessions/:id -> revoke one of the caller's sessions
+app.delete('/auth/sessions/:id', requireAuth(), async (req, res) => {
+  const claims = (req as any).user as JwtClaims
+  const owner = await getSessionOwner(req.params.id)
+  if (owner !== claims.sub) return res.status(404).json({ ok: false, error: 'session_not_found' })
+  await revokeSession(req.params.id)
+  return res.json({ ok: true })
+})
+
+// GET /auth/me -> profile of the token subject
+app.get('/auth/me', requireAuth(), async (req, res) => {
+  const claims = (req as any).user as JwtClaims
+  const acc = await findAccountById(claims.sub)
+  if (!acc) return res.status(404).json({ ok: false, error: 'user_not_found' })
+  return res.json({ ok: true, ...publicProfile(acc) })
+})
+
+// fetch a page of history (optional ?room=roomName, or ?conversationId=ID for a DM with a bearer token)
+// GET /messages?before=|after=&limit= -> { ok, messages (oldest first), olderCursor, newerCursor }
 app.get('/messages', async (req, res) => {
   const room = req.query.room as string | undefined
-  if (isMongoConnected()) {
-    const q: any = {}
-    if (room) q.room = room
-    const msgs = await Message.find(q).sort({ ts: 1 }).limit(200).lean().exec()
-    res.json(msgs)
-  } else {
-    const filtered = inMemMessages
-      .filter((m) => (room ? m.room === room : true))
-      .sort((a, b) => a.ts - b.ts)
-      .slice(-200)
-    res.json(filtered)
+  const conversationId = req.query.conversationId as string | undefined
+  const before = decodeCursor(req.query.before)
+  const after = decodeCursor(req.query.after)
+  if ((req.query.before && !before) || (req.query.after && !after) || (before && after)) return res.status(400).json({ ok: false, error: 'invalid_cursor' })
+  const claims = await optionalClaims(req)
+  if (conversationId) {
+    if (!claims) return res.status(401).json({ ok: false, error: 'unauthorized' })
+    if (!isParticipant(conversationId, claims.sub)) return res.status(403).json({ ok: false, error: 'forbidden' })
+  } else if (room && !(await canReadRoom(room, claims?.sub))) {
+    return res.status(claims ? 403 : 401).json({ ok: false, error: claims ? 'forbidden' : 'unauthorized' })
+  }
+  const excludeRooms = room || conversationId ? [] : await privateRoomsHiddenFrom(claims?.sub)
+  const page = await listMessages({ room, conversationId, before, after, limit: Number(req.query.limit) || undefined, excludeRooms })
+  res.json({ ok: true, messages: page.messages.map((m) => toPublicMessage(m, claims?.sub)), olderCursor: page.olderCursor, newerCursor: page.newerCursor })
+})
+
+// Uploads: the raw request body is the file, Content-Type its type, ?name= its file name
+// POST /uploads?name= -> { ok, attachment: { id, name, contentType, size, width, height, url, thumbnailUrl } }
+const rawUpload = express.raw({ type: () => true, limit: UPLOAD_MAX_BYTES })
+app.post('/uploads', requireAuth(), (req, res, next) => {
+  rawUpload(req, res, (err?: any) => {
+    if (!err) return next()
+    res.status(err.status === 413 ? 413 : 400).json({ ok: false, error: err.status === 413 ? 'file_too_large' : 'invalid_body' })
+  })
+}, async (req, res) => {
+  const claims = (req as any).user as JwtClaims
+  const data = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0)
+  const result = await createAttachment({ data, contentType: req.headers['content-type'] || '', name: req.query.name, uploadedBy: claims.sub })
+  if (!result.ok) return res.status(result.error === 'unsupported_type' ? 415 : 400).json(result)
+  return res.json({ ok: true, attachment: publicAttachment(result.attachment) })
+})
+
+// GET /uploads/:id?exp=&sig= and /uploads/:id/thumbnail?exp=&sig= -> the file. The signed urls come with the messages
+// (and the upload answer) that carry the attachment; the uploader may also fetch it with their JWT
+const serveUpload = (thumbnail: boolean) => async (req: express.Request, res: express.Response) => {
+  const a = await findAttachment(req.params.id)
+  if (!a || (thumbnail && !a.hasThumbnail)) return res.status(404).json({ ok: false, error: 'not_found' })
+  const ttl = signedUrlTtl(a.attachmentId, req.query.exp, req.query.sig)
+  if (ttl === null) {
+    const claims = await optionalClaims(req)
+    if (claims?.sub !== a.uploadedBy) return res.status(claims ? 403 : 401).json({ ok: false, error: claims ? 'forbidden' : 'unauthorized' })
   }
+  const data = await readAttachment(a.attachmentId, thumbnail)
+  if (!data) return res.status(404).json({ ok: false, error: 'not_found' })
+  res.setHeader('Content-Type', thumbnail ? 'image/webp' : a.contentType)
+  res.setHeader('X-Content-Type-Options', 'nosniff')
+  res.setHeader('Cache-Control', ttl === null ? 'private, no-store' : `private, max-age=${ttl}`)
+  // only raster images render inline; SVG (which can run script) and everything else downloads
+  const inline = thumbnail || (a.contentType.startsWith('image/') && a.contentType !== 'image/svg+xml')
+  res.setHeader('Content-Disposition', `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(a.name)}`)
+  res.send(data)
+}
+app.get('/uploads/:id', serveUpload(false))
+app.get('/uploads/:id/thumbnail', serveUpload(true))
+
+// Full-text search over rooms and the caller's own DMs, newest first
+// GET /messages/search?q=&room=&userId=&from=&to=&limit= -> { ok, results: [{ message, snippet, highlights: [[start, end]], cursor }] }
+app.get('/messages/search', requireAuth(), async (req, res) => {
+  const claims = (req as any).user as JwtClaims
+  const terms = tokenize(typeof req.query.q === 'string' ? req.query.q : '').slice(0, 10)
+  if (terms.length === 0) return res.status(400).json({ ok: false, error: 'invalid_query' })
+  // dates may be epoch millis or anything Date.parse understands
+  const toTs = (v: unknown) => (typeof v !== 'string' || !v ? undefined : Number.isFinite(Number(v)) ? Number(v) : Date.parse(v) || undefined)
+  const room = (req.query.room as string) || undefined
+  if (room && !(await canReadRoom(room, claims.sub))) return res.status(403).json({ ok: false, error: 'forbidden' })
+  const convs = await listConversations(claims.sub)
+  const found = await searchMessages({
+    terms, conversationIds: convs.map((c) => c.conversationId), excludeRooms: await privateRoomsHiddenFrom(claims.sub),
+    room, userId: (req.query.userId as string) || undefined,
+    from: toTs(req.query.from), to: toTs(req.query.to),
+    limit: Math.min(Math.max(Number(req.query.limit) || 20, 1), 100),
+  })
+  const results = found.map((m) => ({ message: toPublicMessage(m), ...highlightSnippet(m.text, terms), cursor: encodeCursor(m) }))
+  return res.json({ ok: true, results })
+})
+
+// GET /messages/:id/thread -> { ok, parent, replies } (DM and private room threads need a bearer token with access)
+app.get('/messages/:id/thread', async (req, res) => {
+  const parent = await findMessage(req.params.id)
+  if (!parent || parent.parentId) return res.status(404).json({ ok: false, error: 'not_found' })
+  const claims = await optionalClaims(req)
+  if (!(await canSeeMessage(parent, claims?.sub))) return res.status(claims ? 404 : 401).json({ ok: false, error: claims ? 'not_found' : 'unauthorized' })
+  const replies = await listThread(parent.messageId)
+  return res.json({ ok: true, parent: toPublicMessage(parent, claims?.sub), replies: replies.map((m) => toPublicMessage(m)) })
+})
+
+// GET /receipts?room=...|conversationId=... -> { ok, receipts: [{ userId, deliveredTs, readTs }] }
+app.get('/receipts', async (req, res) => {
+  const room = (req.query.room as string) || null
+  const conversationId = (req.query.conversationId as string) || null
+  const claims = await optionalClaims(req)
+  if (conversationId) {
+    if (!claims) return res.status(401).json({ ok: false, error: 'unauthorized' })
+    if (!isParticipant(conversationId, claims.sub)) return res.status(403).json({ ok: false, error: 'forbidden' })
+  } else if (!(await canReadRoom(room, claims?.sub))) {
+    return res.status(claims ? 403 : 401).json({ ok: false, error: claims ? 'forbidden' : 'unauthorized' })
+  }
+  const receipts = await listReceipts(receiptScope({ room, conversationId }))
+  return res.json({ ok: true, receipts: receipts.map(publicReceipt) })
+})
+
+// GET /conversations -> { ok, conversations: [{ conversationId, with: { userId, username, name }, lastMessageAt }] }
+app.get('/conversations', requireAuth(), async (req, res) => {
+  const claims = (req as any).user as JwtClaims
+  const convs = await listConversations(claims.sub)
+  const out = await Promise.all(convs.map(async (c) => {
+    const otherId = c.participants[0] === claims.sub ? c.participants[1] : c.participants[0]
+    const other = await findAccountById(otherId).catch(() => null)
+    return { conversationId: c.conversationId, with: other ? publicProfile(other) : { userId: otherId }, lastMessageAt: c.lastMessageAt }
+  }))
+  return res.json({ ok: true, conversations: out })
+})
+
+// Open (or create) the DM with a user
+// POST /conversations { userId } -> { ok, conversationId, with }
+app.post('/conversations', requireAuth(), async (req, res) => {
+  const claims = (req as any).user as JwtClaims
+  const { userId } = req.body || {}
+  if (typeof userId !== 'string' || !userId || userId === claims.sub) return res.status(400).json({ ok: false, error: 'invalid userId' })
+  const other = await findAccountById(userId).catch(() => null)
+  if (!other) return res.status(404).json({ ok: false, error: 'user_not_found' })
+  const conv = await ensureConversation(claims.sub, userId)
+  return res.json({ ok: true, conversationId: conv.conversationId, with: publicProfile(other) })
+})
+
+// --- Rooms ---
+// GET /rooms -> { ok, rooms: [{ name, topic, ownerId, isPrivate, createdAt, memberCount, member }] } (public rooms; `member` needs a bearer token)
+app.get('/rooms', async (req, res) => {
+  const claims = await optionalClaims(req)
+  const rooms = await listPublicRooms()
+  const out = await Promise.all(rooms.map(async (r) => publicRoom(r, {
+    memberCount: await countMembers(r.name),
+    member: claims ? await isMember(r.name, claims.sub) : false,
+  })))
+  return res.json({ ok: true, rooms: out })
+})
+
+// GET /rooms/mine -> { ok, rooms } (every room the caller is a member of, private ones included)
+app.get('/rooms/mine', requireAuth(), async (req, res) => {
+  const claims = (req as any).user as JwtClaims
+  const rooms = await listRoomsOf(claims.sub)
+  return res.json({ ok: true, rooms: rooms.map((r) => publicRoom(r, { member: true })) })
+})
+
+// POST /rooms { name, topic?, isPrivate? } -> { ok, room } (409 room_taken)
+app.post('/rooms', requireAuth(), async (req, res) => {
+  const claims = (req as any).user as JwtClaims
+  const { name, topic, isPrivate } = req.body || {}
+  const n = normalizeRoomName(name)
+  if (!n) return res.status(400).json({ ok: false, error: 'invalid_name' })
+  if (topic != null && (typeof topic !== 'string' || topic.length > 200)) return res.status(400).json({ ok: false, error: 'invalid_topic' })
+  const room = await createRoom({ name: n, ownerId: claims.sub, topic: topic || null, isPrivate: isPrivate === true })
+  if (!room) return res.status(409).json({ ok: false, error: 'room_taken' })
+  return res.json({ ok: true, room: publicRoom(room, { memberCount: 1, member: true }) })
+})
+
+// Loads the room named in the path; private rooms look missing to non-members
+async function roomForRequest(req: express.Request, res: express.Response, userId?: string | null) {
+  const room = await findRoom(normalizeRoomName(req.params.name) || '')
+  if (!room || (room.isPrivate && !(userId && (await isMember(room.name, userId))))) {
+    res.status(404).json({ ok: false, error: 'room_not_found' })
+    return null
+  }
+  return room
+}
+
+// GET /rooms/:name -> { ok, room }
+app.get('/rooms/:name', async (req, res) => {
+  const claims = await optionalClaims(req)
+  const room = await roomForRequest(req, res, claims?.sub)
+  if (!room) return
+  return res.json({ ok: true, room: publicRoom(room, { memberCount: await countMembers(room.name), member: claims ? await isMember(room.name, claims.sub) : false }) })
+})
+
+// PATCH /rooms/:name { topic?, isPrivate? } -> { ok, room } (owner only)
+app.patch('/rooms/:name', requireAuth(), async (req, res) => {
+  const claims = (req as any).user as JwtClaims
+  const room = await roomForRequest(req, res, claims.sub)
+  if (!room) return
+  if (room.ownerId !== claims.sub) return res.status(403).json({ ok: false, error: 'forbidden' })
+  const { topic, isPrivate } = req.body || {}
+  const patch: { topic?: string | null; isPrivate?: boolean } = {}
+  if (topic !== undefined) {
+    if (topic !== null && (typeof topic !== 'string' || topic.length > 200)) return res.status(400).json({ ok: false, error: 'invalid_topic' })
+    patch.topic = topic || null
+  }
+  if (isPrivate !== undefined) patch.isPrivate = isPrivate === true
+  const updated = await updateRoom(room.name, patch)
+  if (updated) io.to(room.name).emit('room:update', publicRoom(updated))
+  return res.json({ ok: true, room: updated ? publicRoom(updated) : null })
+})
+
+// POST /rooms/:name/join -> { ok, room } (public rooms; private ones need an invite)
+app.post('/rooms/:name/join', requireAuth(), async (req, res) => {
+  const claims = (req as any).user as JwtClaims
+  const room = await findRoom(normalizeRoomName(req.params.name) || '')
+  if (!room) return res.status(404).json({ ok: false, error: 'room_not_found' })
+  if (room.isPrivate && !(await isMember(room.name, claims.sub))) return res.status(403).json({ ok: false, error: 'invite_required' })
+  if (await activeBan(room.name, claims.sub)) return res.status(403).json({ ok: false, error: 'banned' })
+  await addMember(room.name, claims.sub)
+  return res.json({ ok: true, room: publicRoom(room, { member: true }) })
+})
+
+// POST /rooms/:name/leave -> { ok } (the owner cannot leave their own room)
+app.post('/rooms/:name/leave', requireAuth(), async (req, res) => {
+  const claims = (req as any).user as JwtClaims
+  const room = await roomForRequest(req, res, claims.sub)
+  if (!room) return
+  if (room.ownerId === claims.sub) return res.status(400).json({ ok: false, error: 'owner_cannot_leave' })
+  await removeMember(room.name, claims.sub)
+  // a private room stops delivering to the user's open sockets right away
+  if (room.isPrivate) await ejectFromRoom(room.name, claims.sub)
+  return res.json({ ok: true })
+})
+
+// Invites (owner only): GET lists live invites, POST { expiresInSeconds?, maxUses? } creates one, DELETE revokes
+app.get('/rooms/:name/invites', requireAuth(), async (req, res) => {
+  const claims = (req as any).user as JwtClaims
+  const room = await roomForRequest(req, res, claims.sub)
+  if (!room) return
+  if (room.ownerId !== claims.sub) return res.status(403).json({ ok: false, error: 'forbidden' })
+  return res.json({ ok: true, invites: (await listInvites(room.name)).map(publicInvite) })
+})
+app.post('/rooms/:name/invites', requireAuth(), async (req, res) => {
+  const claims = (req as any).user as JwtClaims
+  const room = await roomForRequest(req, res, claims.sub)
+  if (!room) return
+  if (room.ownerId !== claims.sub) return res.status(403).json({ ok: false, error: 'forbidden' })
+  const { expiresInSeconds, maxUses } = req.body || {}
+  const invite = await createInvite(room.name, claims.sub, { ttlSeconds: Number(expiresInSeconds) || undefined, maxUses: Number(maxUses) || null })
+  return res.json({ ok: true, invite: publicInvite(invite) })
+})
+app.delete('/rooms/:name/invites/:code', requireAuth(), async (req, res) => {
+  const claims = (req as any).user as JwtClaims
+  const room = await roomForRequest(req, res, claims.sub)
+  if (!room) return
+  if (room.ownerId !== claims.sub) return res.status(403).json({ ok: false, error: 'forbidden' })
+  if (!(await revokeInvite(room.name, req.params.code))) return res.status(404).json({ ok: false, error: 'not_found' })
+  return res.json({ ok: true })
+})
+
+// GET /rooms/:name/members -> { ok, members: [{ userId, name, role, joinedAt, mutedUntil }], myRole }
+app.get('/rooms/:name/members', async (req, res) => {
+  const claims = await optionalClaims(req)
+  const room = await roomForRequest(req, res, claims?.sub)
+  if (!room) return
+  const members = await Promise.all((await listMembers(room.name)).map(async (m) => {
+    if (isBotId(m.userId)) return { ...publicMember(m, room.ownerId), name: (await findBot(m.userId).catch(() => null))?.name || null, bot: true }
+    const acc = await findAccountById(m.userId).catch(() => null)
+    return { ...publicMember(m, room.ownerId), name: acc?.name || acc?.username || null, bot: false }
+  }))
+  const myRole = claims ? await roleIn(room, claims.sub) : null
+  return res.json({ ok: true, members, myRole: claims && MODERATOR_USER_IDS.has(claims.sub) && roleRank(myRole) < roleRank('moderator') ? 'moderator' : myRole })
+})
+
+// Moderators only: GET /rooms/:name/bans -> { ok, bans }, GET /rooms/:name/modlog?limit= -> { ok, entries } (newest first)
+app.get('/rooms/:name/bans', requireAuth(), async (req, res) => {
+  const claims = (req as any).user as JwtClaims
+  const room = await roomForRequest(req, res, claims.sub)
+  if (!room) return
+  if ((await moderatorRank(room, claims.sub)) < roleRank('moderator')) return res.status(403).json({ ok: false, error: 'forbidden' })
+  return res.json({ ok: true, bans: (await listBans(room.name)).map(publicBan) })
+})
+app.get('/rooms/:name/modlog', requireAuth(), async (req, res) => {
+  const claims = (req as any).user as JwtClaims
+  const room = await roomForRequest(req, res, claims.sub)
+  if (!room) return
+  if ((await moderatorRank(room, claims.sub)) < roleRank('moderator')) return res.status(403).json({ ok: false, error: 'forbidden' })
+  const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), 500)
+  return res.json({ ok: true, entries: await listModeration(room.name, limit) })
+})
+
+// GET /rooms/:name/filters -> { ok, filters, overrides, stages } (owner or moderator)
+// filters = the settings in effect, overrides = what the room changes, stages = every stage the server knows
+app.get('/rooms/:name/filters', requireAuth(), async (req, res) => {
+  const claims = (req as any).user as JwtClaims
+  const room = await roomForRequest(req, res, claims.sub)
+  if (!room) return
+  if ((await moderatorRank(room, claims.sub)) < roleRank('moderator')) return res.status(403).json({ ok: false, error: 'forbidden' })
+  return res.json({ ok: true, filters: filterConfigFor(room.filters), overrides: room.filters || {}, stages: stageNames() })
+})
+
+// PUT /rooms/:name/filters { stages?, words?, wordAction?, links?, linkAllow?, spam? } -> { ok, filters, overrides } (owner)
+// Replaces the room's overrides; {} goes back to the server defaults
+app.put('/rooms/:name/filters', requireAuth(), async (req, res) => {
+  const claims = (req as any).user as JwtClaims
+  const room = await roomForRequest(req, res, claims.sub)
+  if (!room) return
+  if (room.ownerId !== claims.sub) return res.status(403).json({ ok: false, error: 'forbidden' })
+  const parsed = parseFilterOverrides(req.body)
+  if (!parsed.ok) return res.status(400).json(parsed)
+  const overrides = Object.keys(parsed.filters).length ? parsed.filters : null
+  await updateRoom(room.name, { filters: overrides })
+  return res.json({ ok: true, filters: filterConfigFor(overrides), overrides: overrides || {} })
+})
+
+// Flagged messages of a room are reviewed by its owner and moderators; global chat and DMs by MODERATOR_USER_IDS
+async function canReviewFlags(room: string | null, userId: string) {
+  if (!room) return MODERATOR_USER_IDS.has(userId)
+  const info = await findRoom(room)
+  return !!info && (await moderatorRank(info, userId)) >= roleRank('moderator')
+}
+
+const FLAG_STATUSES: FlagStatus[] = ['pending', 'dismissed', 'removed']
+function flagQuery(req: express.Request) {
+  const status = req.query.status as FlagStatus | undefined
+  if (status !== undefined && !FLAG_STATUSES.includes(status)) return null
+  return { status, limit: Number(req.query.limit) || undefined }
+}
+
+// GET /rooms/:name/flags?status=&limit= -> { ok, flags: [{ id, messageId, room, conversationId, userId, name, text, stage, reason, rejected, status, reviewedBy, reviewedAt, createdAt }] }
+// Newest first; rejected flags were never delivered (messageId null)
+app.get('/rooms/:name/flags', requireAuth(), async (req, res) => {
+  const claims = (req as any).user as JwtClaims
+  const room = await roomForRequest(req, res, claims.sub)
+  if (!room) return
+  if (!(await canReviewFlags(room.name, claims.sub))) return res.status(403).json({ ok: false, error: 'forbidden' })
+  const q = flagQuery(req)
+  if (!q) return res.status(400).json({ ok: false, error: 'invalid_status' })
+  return res.json({ ok: true, flags: (await listFlags(room.name, q)).map(publicFlag) })
+})
+
+// GET /flags?status=&limit= -> { ok, flags } (global moderators: flags from global chat and DMs)
+app.get('/flags', requireAuth(), async (req, res) => {
+  const claims = (req as any).user as JwtClaims
+  if (!(await canReviewFlags(null, claims.sub))) return res.status(403).json({ ok: false, error: 'forbidden' })
+  const q = flagQuery(req)
+  if (!q) return res.status(400).json({ ok: false, error: 'invalid_status' })
+  return res.json({ ok: true, flags: (await listFlags(null, q)).map(publicFlag) })
+})
+
+// POST /flags/:id { action: 'dismiss' | 'remove' } -> { ok, flag }
+// remove deletes the delivered message (a moderator delete, logged for rooms; for a rejected edit, the message as it stands).
+// Rejected new messages were never delivered and can only be dismissed
+app.post('/flags/:id', requireAuth(), async (req, res) => {
+  const claims = (req as any).user as JwtClaims
+  const action = req.body?.action
+  if (action !== 'dismiss' && action !== 'remove') return res.status(400).json({ ok: false, error: 'invalid_action' })
+  const flag = await findFlag(req.params.id)
+  if (!flag || !(await canReviewFlags(flag.room, claims.sub))) return res.status(404).json({ ok: false, error: 'not_found' })
+  if (flag.status !== 'pending') return res.status(409).json({ ok: false, error: 'already_reviewed' })
+  if (action === 'remove') {
+    if (!flag.messageId) return res.status(400).json({ ok: false, error: 'invalid_action' })
+    const deleted = await deleteMessage(flag.messageId, claims.sub)
+    if (deleted) {
+      if (deleted.room) await recordModeration({ room: deleted.room, action: 'delete', actorId: claims.sub, targetId: deleted.userId ?? null, messageId: deleted.messageId, reason: flag.reason })
+      emitToAudience(deleted, 'message:delete', { id: deleted.messageId, room: deleted.room, conversationId: deleted.conversationId ?? null, deletedAt: deleted.deletedAt, deletedBy: deleted.deletedBy })
+      notifyWebhooks(deleted.room, 'message.deleted', { id: deleted.messageId, room: deleted.room, userId: deleted.userId ?? null, deletedAt: deleted.deletedAt, deletedBy: deleted.deletedBy })
+    }
+  }
+  const resolved = await resolveFlag(flag.flagId, action === 'remove' ? 'removed' : 'dismissed', claims.sub)
+  if (!resolved) return res.status(409).json({ ok: false, error: 'already_reviewed' })
+  return res.json({ ok: true, flag: publicFlag(resolved) })
+})
+
+// Webhooks (owner only). Each delivery is POSTed as { id, event, room, ts, data } with X-Echo-Event, X-Echo-Delivery,
+// X-Echo-Timestamp and X-Echo-Signature (sha256=HMAC of "<timestamp>.<body>" with the webhook's secret); failures are retried with backoff
+async function webhookRequest(req: express.Request, res: express.Response) {
+  const claims = (req as any).user as JwtClaims
+  const room = await roomForRequest(req, res, claims.sub)
+  if (!room) return null
+  if (room.ownerId !== claims.sub) {
+    res.status(403).json({ ok: false, error: 'forbidden' })
+    return null
+  }
+  return { room, userId: claims.sub }
+}
+
+// GET /rooms/:name/webhooks -> { ok, webhooks: [{ id, room, url, events, active, createdBy, createdAt }] }
+app.get('/rooms/:name/webhooks', requireAuth(), async (req, res) => {
+  const ctx = await webhookRequest(req, res)
+  if (!ctx) return
+  return res.json({ ok: true, webhooks: (await listWebhooks(ctx.room.name)).map(publicWebhook) })
+})
+
+// POST /rooms/:name/webhooks { url, events? } -> { ok, webhook, secret } (events omitted = all; the secret is only shown here)
+app.post('/rooms/:name/webhooks', requireAuth(), async (req, res) => {
+  const ctx = await webhookRequest(req, res)
+  if (!ctx) return
+  const url = parseWebhookUrl(req.body?.url)
+  if (!url) return res.status(400).json({ ok: false, error: 'invalid_url' })
+  const events = parseWebhookEvents(req.body?.events)
+  if (!events) return res.status(400).json({ ok: false, error: 'invalid_events' })
+  if ((await listWebhooks(ctx.room.name)).length >= MAX_WEBHOOKS_PER_ROOM) return res.status(409).json({ ok: false, error: 'too_many_webhooks' })
+  const hook = await createWebhook({ room: ctx.room.name, url, events, createdBy: ctx.userId })
+  return res.status(201).json({ ok: true, webhook: publicWebhook(hook), secret: hook.secret })
+})
+
+// PATCH /rooms/:name/webhooks/:id { url?, events?, active? } -> { ok, webhook } (a bot's webhook follows the bot: 403)
+app.patch('/rooms/:name/webhooks/:id', requireAuth(), async (req, res) => {
+  const ctx = await webhookRequest(req, res)
+  if (!ctx) return
+  const hook = await findWebhook(ctx.room.name, req.params.id)
+  if (!hook) return res.status(404).json({ ok: false, error: 'not_found' })
+  if (hook.botId) return res.status(403).json({ ok: false, error: 'forbidden' })
+  const { url, events, active } = req.body || {}
+  const patch: { url?: string; events?: WebhookEvent[]; active?: boolean } = {}
+  if (url !== undefined) {
+    const parsed = parseWebhookUrl(url)
+    if (!parsed) return res.status(400).json({ ok: false, error: 'invalid_url' })
+    patch.url = parsed
+  }
+  if (events !== undefined) {
+    const parsed = parseWebhookEvents(events)
+    if (!parsed) return res.status(400).json({ ok: false, error: 'invalid_events' })
+    patch.events = parsed
+  }
+  if (active !== undefined) patch.active = active === true
+  const updated = await updateWebhook(req.params.id, patch)
+  if (!updated) return res.status(404).json({ ok: false, error: 'not_found' })
+  return res.json({ ok: true, webhook: publicWebhook(updated) })
+})
+
+// DELETE /rooms/:name/webhooks/:id -> { ok } (drops its delivery log too)
+app.delete('/rooms/:name/webhooks/:id', requireAuth(), async (req, res) => {
+  const ctx = await webhookRequest(req, res)
+  if (!ctx) return
+  if (!(await findWebhook(ctx.room.name, req.params.id))) return res.status(404).json({ ok: false, error: 'not_found' })
+  await deleteWebhook(req.params.id)
+  return res.json({ ok: true })
+})
+
+// POST /rooms/:name/webhooks/:id/test -> { ok, delivery } (sends a `ping` event and reports the first attempt; not for bot webhooks)
+app.post('/rooms/:name/webhooks/:id/test', requireAuth(), async (req, res) => {
+  const ctx = await webhookRequest(req, res)
+  if (!ctx) return
+  const hook = await findWebhook(ctx.room.name, req.params.id)
+  if (!hook) return res.status(404).json({ ok: false, error: 'not_found' })
+  if (hook.botId) return res.status(403).json({ ok: false, error: 'forbidden' })
+  return res.json({ ok: true, delivery: publicDelivery(await sendTestEvent(hook, ctx.userId)) })
+})
+
+// GET /rooms/:name/webhooks/:id/deliveries?limit= -> { ok, deliveries: [{ id, event, status, attempts, responseStatus, error, nextAttemptAt, createdAt, completedAt, payload }] }
+// Newest first; status is pending (will be retried at nextAttemptAt), succeeded or failed (gave up)
+app.get('/rooms/:name/webhooks/:id/deliveries', requireAuth(), async (req, res) => {
+  const ctx = await webhookRequest(req, res)
+  if (!ctx) return
+  if (!(await findWebhook(ctx.room.name, req.params.id))) return res.status(404).json({ ok: false, error: 'not_found' })
+  return res.json({ ok: true, deliveries: (await listDeliveries(req.params.id, Number(req.query.limit) || undefined)).map(publicDelivery) })
+})
+
+// Bots: accounts owned by a user that sign in with a token instead of a password. Over the socket
+// ({ auth: { botToken } }) a bot joins rooms, receives messages and posts like a user; a bot with a webhookUrl
+// also gets `message.created` from every room it is added to, signed with its webhookSecret.
+async function ownBot(req: express.Request, res: express.Response) {
+  const claims = (req as any).user as JwtClaims
+  const bot = await findBot(req.params.id)
+  if (!bot || bot.ownerId !== claims.sub) {
+    res.status(404).json({ ok: false, error: 'not_found' })
+    return null
+  }
+  return bot
+}
+
+// The bot's room webhooks follow its webhookUrl: one per room it belongs to, none without a url
+async function syncBotWebhooks(bot: BotInfo, rooms?: string[]) {
+  for (const room of rooms || (await listRoomsOf(bot.botId)).map((r) => r.name)) {
+    await deleteBotWebhooks(bot.botId, room)
+    if (bot.webhookUrl) await createWebhook({ room, url: bot.webhookUrl, events: ['message.created'], createdBy: bot.ownerId, botId: bot.botId, secret: bot.webhookSecret })
+  }
+}
+
+// GET /bots -> { ok, bots: [{ id, name, ownerId, webhookUrl, webhookSecret, createdAt }] } (your bots)
+app.get('/bots', requireAuth(), async (req, res) => {
+  const claims = (req as any).user as JwtClaims
+  return res.json({ ok: true, bots: (await listBots(claims.sub)).map(publicBot) })
+})
+
+// POST /bots { name, webhookUrl? } -> { ok, bot, token } (the token is only shown here and when rotated)
+app.post('/bots', requireAuth(), async (req, res) => {
+  const claims = (req as any).user as JwtClaims
+  const name = normalizeDisplayName(req.body?.name)
+  if (!name) return res.status(400).json({ ok: false, error: 'invalid_name' })
+  const webhookUrl = req.body?.webhookUrl == null ? null : parseWebhookUrl(req.body.webhookUrl)
+  if (req.body?.webhookUrl != null && !webhookUrl) return res.status(400).json({ ok: false, error: 'invalid_url' })
+  if ((await listBots(claims.sub)).length >= MAX_BOTS_PER_USER) return res.status(409).json({ ok: false, error: 'too_many_bots' })
+  const { bot, token } = await createBot({ name, ownerId: claims.sub, webhookUrl })
+  return res.status(201).json({ ok: true, bot: publicBot(bot), token })
+})
+
+// PATCH /bots/:id { name?, webhookUrl? } -> { ok, bot } (webhookUrl null stops webhook delivery)
+app.patch('/bots/:id', requireAuth(), async (req, res) => {
+  const bot = await ownBot(req, res)
+  if (!bot) return
+  const { name, webhookUrl } = req.body || {}
+  const patch: { name?: string; webhookUrl?: string | null } = {}
+  if (name !== undefined) {
+    const parsed = normalizeDisplayName(name)
+    if (!parsed) return res.status(400).json({ ok: false, error: 'invalid_name' })
+    patch.name = parsed
+  }
+  if (webhookUrl !== undefined) {
+    const parsed = webhookUrl === null ? null : parseWebhookUrl(webhookUrl)
+    if (webhookUrl !== null && !parsed) return res.status(400).json({ ok: false, error: 'invalid_url' })
+    patch.webhookUrl = parsed
+  }
+  const urlChanged = patch.webhookUrl !== undefined && patch.webhookUrl !== bot.webhookUrl
+  const renamed = !!patch.name && patch.name !== bot.name
+  const updated = await updateBot(bot.botId, patch)
+  if (!updated) return res.status(404).json({ ok: false, error: 'not_found' })
+  if (urlChanged) await syncBotWebhooks(updated)
+  // connected bot sockets go by the new name
+  if (renamed) for (const room of await applyRename(bot.botId, updated.name)) await emitUsersInRoom(room)
+  return res.json({ ok: true, bot: publicBot(updated) })
+})
+
+// POST /bots/:id/token -> { ok, token } (the old token stops working; open sockets stay connected)
+app.post('/bots/:id/token', requireAuth(), async (req, res) => {
+  const bot = await ownBot(req, res)
+  if (!bot) return
+  const token = await rotateBotToken(bot.botId)
+  if (!token) return res.status(404).json({ ok: false, error: 'not_found' })
+  return res.json({ ok: true, token })
+})
+
+// DELETE /bots/:id -> { ok } (the bot leaves its rooms, loses its webhooks and is disconnected)
+app.delete('/bots/:id', requireAuth(), async (req, res) => {
+  const bot = await ownBot(req, res)
+  if (!bot) return
+  for (const room of await listRoomsOf(bot.botId)) await removeMember(room.name, bot.botId)
+  await deleteBotWebhooks(bot.botId)
+  await deleteBot(bot.botId)
+  io.in(userRoom(bot.botId)).disconnectSockets(true)
+  return res.json({ ok: true })
+})
+
+// GET /rooms/:name/bots -> { ok, bots: [{ id, name, ownerId }] } (room owner)
+app.get('/rooms/:name/bots', requireAuth(), async (req, res) => {
+  const ctx = await webhookRequest(req, res)
+  if (!ctx) return
+  const bots = await Promise.all((await listMembers(ctx.room.name)).filter((m) => isBotId(m.userId)).map((m) => findBot(m.userId)))
+  return res.json({ ok: true, bots: bots.flatMap((b) => (b ? [{ id: b.botId, name: b.name, ownerId: b.ownerId }] : [])) })
+})
+
+// PUT /rooms/:name/bots/:botId -> { ok } (room owner, for one of their own bots): the bot becomes a member and,
+// with a webhookUrl, hears the room's messages. Someone else's bot joins with an invite (POST /bot/invites/:code)
+app.put('/rooms/:name/bots/:botId', requireAuth(), async (req, res) => {
+  const ctx = await webhookRequest(req, res)
+  if (!ctx) return
+  const bot = await findBot(req.params.botId)
+  if (!bot || bot.ownerId !== ctx.userId) return res.status(404).json({ ok: false, error: 'not_found' })
+  if (await activeBan(ctx.room.name, bot.botId)) return res.status(403).json({ ok: false, error: 'banned' })
+  await addMember(ctx.room.name, bot.botId)
+  await syncBotWebhooks(bot, [ctx.room.name])
+  return res.json({ ok: true })
+})
+
+// DELETE /rooms/:name/bots/:botId -> { ok } (room owner)
+app.delete('/rooms/:name/bots/:botId', requireAuth(), async (req, res) => {
+  const ctx = await webhookRequest(req, res)
+  if (!ctx) return
+  if (!isBotId(req.params.botId) || !(await isMember(ctx.room.name, req.params.botId))) return res.status(404).json({ ok: false, error: 'not_found' })
+  await removeMember(ctx.room.name, req.params.botId)
+  await deleteBotWebhooks(req.params.botId, ctx.room.name)
+  await ejectFromRoom(ctx.room.name, req.params.botId)
+  return res.json({ ok: true })
+})
+
+// Bot API (`Authorization: Bot <token>`)
+// GET /bot/me -> { ok, bot: { id, name }, rooms: [name] }
+app.get('/bot/me', requireBot(), async (req, res) => {
+  const bot = (req as any).bot as BotInfo
+  return res.json({ ok: true, bot: { id: bot.botId, name: bot.name }, rooms: (await listRoomsOf(bot.botId)).map((r) => r.name) })
+})
+
+// POST /bot/messages { room, text, parentId?, action? } -> { ok, message } (rooms the bot was added to or joined)
+app.post('/bot/messages', requireBot(), async (req, res) => {
+  const bot = (req as any).bot as BotInfo
+  const room = typeof req.body?.room === 'string' ? normalizeRoomName(req.body.room) : null
+  if (!room) return res.status(400).json({ ok: false, error: 'invalid_room' })
+  if (!(await isMember(room, bot.botId))) return res.status(403).json({ ok: false, error: 'not_member' })
+  const { text, parentId, action } = req.body
+  const r = await postMessage({ userId: bot.botId, name: bot.name, bot: true }, { text, room, parentId, action: action === true }, room)
+  if (!r.ok) return res.status(r.error === 'forbidden' || r.error === 'banned' || r.error === 'muted' ? 403 : r.error === 'parent_not_found' ? 404 : 400).json(r)
+  return res.json({ ok: true, message: toPublicMessage(r.message) })
+})
+
+// POST /bot/invites/:code -> { ok, room } (the bot redeems a room invite; with a webhookUrl it then hears the room's messages)
+app.post('/bot/invites/:code', requireBot(), async (req, res) => {
+  const bot = (req as any).bot as BotInfo
+  const r = await redeemInvite(req.params.code, bot.botId)
+  if (!r.ok) return res.status(r.error === 'banned' ? 403 : 404).json({ ok: false, error: r.error })
+  await syncBotWebhooks(bot, [r.room.name])
+  return res.json({ ok: true, room: publicRoom(r.room, { member: true }) })
+})
+
+// GET /commands -> { ok, commands: [{ name, usage, description }] } (slash commands the server understands)
+app.get('/commands', (req, res) => {
+  return res.json({ ok: true, commands: listCommands() })
+})
+
+// POST /invites/:code -> { ok, room } (redeem: join the room the code belongs to)
+app.post('/invites/:code', requireAuth(), async (req, res) => {
+  const claims = (req as any).user as JwtClaims
+  const r = await redeemInvite(req.params.code, claims.sub)
+  if (!r.ok) return res.status(r.error === 'banned' ? 403 : 404).json({ ok: false, error: r.error })
+  return res.json({ ok: true, room: publicRoom(r.room, { member: true }) })
 })
 
 // Contacts API: owner scoping via query 'ownerId'; returns presence
-// GET /contacts?ownerId=ID
+// GET /contacts?ownerId=ID -> { ok, contacts: [{ name, contactId, online, status, lastSeen, customStatus }] }
 app.get('/contacts', requireAuth(), async (req, res) => {
   const ownerId = (req.query.ownerId as string) || ''
   const claims = (req as any).user as JwtClaims
@@ -333,22 +1760,28 @@ app.get('/contacts', requireAuth(), async (req, res) => {
   // if provided, ensure it matches the authenticated user
   if (ownerId && ownerId !== claims.sub) return res.status(403).json({ ok: false, error: 'forbidden_owner_mismatch' })
   if (!effectiveOwner) return res.status(400).json({ ok: false, error: 'ownerId required' })
-  if (!rateLimit(`get:${effectiveOwner}`)) return res.status(429).json({ ok: false, error: 'rate_limited' })
+  if (!(await rateLimit(`get:${effectiveOwner}`))) return res.status(429).json({ ok: false, error: 'rate_limited' })
   if (isMongoConnected()) {
     const docs = await Contact.find({ ownerId: effectiveOwner }).sort({ name: 1 }).lean().exec()
     const contacts = docs.map((d:any) => ({ name: d.name || '', contactId: d.contactId || '' }))
-    // presence by userId
-    let onlineIds: string[] = []
-    if (redis) onlineIds = await redis.smembers('presence:users')
-    else onlineIds = Array.from(onlineUserIds)
-    const withPresence = contacts.map((c:any) => ({ ...c, online: c.contactId ? onlineIds.includes(c.contactId) : false }))
-    return res.json({ ok: true, contacts: withPresence })
+    return res.json({ ok: true, contacts: await withPresence(contacts) })
   }
   const set = inMemContacts.get(effectiveOwner) || new Set<string>()
-  const arr = Array.from(set).sort().map((key) => { const [name, contactId=''] = key.split('|'); return { name, contactId, online: contactId ? onlineUserIds.has(contactId) : false } })
-  return res.json({ ok: true, contacts: arr })
+  const arr = Array.from(set).sort().map((key) => { const [name, contactId=''] = key.split('|'); return { name, contactId } })
+  return res.json({ ok: true, contacts: await withPresence(arr) })
 })
 
+// presence by userId; contacts without one are always offline
+async function withPresence(contacts: { name: string; contactId: string }[]) {
+  const ids = Array.from(new Set(contacts.map((c) => c.contactId).filter(Boolean)))
+  const byId = new Map((await presence.statusOf(ids)).map((p) => [p.userId, p]))
+  const statuses = await customStatusesOf(ids)
+  return contacts.map((c) => {
+    const p = byId.get(c.contactId)
+    return { ...c, online: p ? p.status !== 'offline' : false, status: p?.status || 'offline', lastSeen: p?.lastSeen ?? null, customStatus: statuses.get(c.contactId) || null }
+  })
+}
+
 // POST /contacts { ownerId, ownerName?, name, contactId? }
 app.post('/contacts', requireAuth(), async (req, res) => {
   const claims = (req as any).user as JwtClaims
@@ -359,7 +1792,7 @@ app.post('/contacts', requireAuth(), async (req, res) => {
   if ((name && typeof name !== 'string') || (name && name.length > 128)) return res.status(400).json({ ok: false, error: 'invalid name' })
   if (contactId && typeof contactId !== 'string') return res.status(400).json({ ok: false, error: 'invalid contactId' })
   if (!name && !contactId) return res.status(400).json({ ok: false, error: 'name or contactId required' })
-  if (!rateLimit(`post:${effectiveOwner}`)) return res.status(429).json({ ok: false, error: 'rate_limited' })
+  if (!(await rateLimit(`post:${effectiveOwner}`))) return res.status(429).json({ ok: false, error: 'rate_limited' })
   try {
     if (isMongoConnected()) {
       const filter: any = contactId ? { ownerId: effectiveOwner, contactId } : { ownerId: effectiveOwner, name }
@@ -388,7 +1821,7 @@ app.delete('/contacts', requireAuth(), async (req, res) => {
   const effectiveOwner = ownerId || claims.sub
   if (ownerId && ownerId !== claims.sub) return res.status(403).json({ ok: false, error: 'forbidden_owner_mismatch' })
   if (!effectiveOwner || (!name && !contactId)) return res.status(400).json({ ok: false, error: 'ownerId and (name or contactId) required' })
-  if (!rateLimit(`del:${effectiveOwner}`)) return res.status(429).json({ ok: false, error: 'rate_limited' })
+  if (!(await rateLimit(`del:${effectiveOwner}`))) return res.status(429).json({ ok: false, error: 'rate_limited' })
   try {
     if (isMongoConnected()) {
       const filter: any = { ownerId: effectiveOwner }
@@ -407,29 +1840,94 @@ app.delete('/contacts', requireAuth(), async (req, res) => {
   }
 })
 
-// Presence: store online user ids in Redis set per room (or global)
+// GET /presence?room= -> { ok, ids } (socket ids of joined users in the room, or everywhere)
 app.get('/presence', async (req, res) => {
-  const room = req.query.room as string | undefined
-  if (!redis) return res.status(200).json({ ok: false, reason: 'no redis' })
-  const key = room ? `presence:${room}` : 'presence:global'
-  const ids = await redis.smembers(key)
-  res.json({ ids })
+  const room = typeof req.query.room === 'string' && req.query.room ? normalizeRoomName(req.query.room) : null
+  const claims = await optionalClaims(req)
+  if (room && !(await canReadRoom(room, claims?.sub))) return res.status(claims ? 403 : 401).json({ ok: false, error: claims ? 'forbidden' : 'unauthorized' })
+  const users = room ? await registry.inRoom(room) : await registry.list()
+  res.json({ ok: true, ids: users.map((u) => u.id) })
+})
+
+// GET /presence/users?ids=a,b -> { ok, presence: [{ userId, status, lastSeen, devices, customStatus }] }
+// status is online while any device is active, away when every device is idle; lastSeen is ms (null = never)
+const MAX_PRESENCE_IDS = 100
+app.get('/presence/users', requireAuth(), async (req, res) => {
+  const ids = Array.from(new Set(String(req.query.ids || '').split(',').map((s) => s.trim()).filter(Boolean)))
+  if (ids.length === 0 || ids.length > MAX_PRESENCE_IDS) return res.status(400).json({ ok: false, error: 'invalid_ids' })
+  const statuses = await customStatusesOf(ids)
+  res.json({ ok: true, presence: (await presence.statusOf(ids)).map((p) => ({ ...p, customStatus: statuses.get(p.userId) || null })) })
+})
+
+// GET /status -> { ok, customStatus } (your own; null = available)
+app.get('/status', requireAuth(), async (req, res) => {
+  const claims = (req as any).user as JwtClaims
+  res.json({ ok: true, customStatus: await customStatusOf(claims.sub) })
+})
+
+// PUT /status { state: available|away|busy|dnd, text?, expiresInSeconds? } -> { ok, customStatus }
+// broadcast as `status`; dnd turns calls away as busy and logs them as missed
+app.put('/status', requireAuth(), async (req, res) => {
+  const claims = (req as any).user as JwtClaims
+  const parsed = parseStatus(req.body)
+  if (!parsed.ok) return res.status(400).json(parsed)
+  await changeCustomStatus(claims.sub, parsed.status)
+  res.json({ ok: true, customStatus: parsed.status })
+})
+
+// Scheduled messages and reminders (your own). Due schedules are sent by whichever instance claims them first;
+// with Mongo they survive restarts. Changes reach your sockets as `schedule`, reminders as `reminder`
+// GET /schedules?status=pending|sent|failed|canceled -> { ok, schedules } (soonest first; default pending)
+app.get('/schedules', requireAuth(), async (req, res) => {
+  const claims = (req as any).user as JwtClaims
+  const status = (req.query.status ?? 'pending') as ScheduleStatus
+  if (!SCHEDULE_STATUSES.includes(status)) return res.status(400).json({ ok: false, error: 'invalid_status' })
+  res.json({ ok: true, schedules: (await listSchedules(claims.sub, status)).map(publicSchedule) })
+})
+
+// POST /schedules { kind: 'message', room | to, text, sendAt | inSeconds } or { kind: 'reminder', messageId?, note?, sendAt | inSeconds }
+// -> { ok, schedule }. sendAt is epoch ms, at most a year ahead; a reminder needs a message, a note or both
+app.post('/schedules', requireAuth(), async (req, res) => {
+  const claims = (req as any).user as JwtClaims
+  const r = await scheduleFor(claims.sub, req.body)
+  if (!r.ok) return res.status(r.status).json({ ok: false, error: r.error })
+  return res.status(201).json({ ok: true, schedule: publicSchedule(r.schedule) })
 })
 
-// Group call logs (in-memory)
-app.get('/calls', (req, res) => {
-  const anyIo = io as any
-  const logs = Array.isArray(anyIo.__callLogs) ? anyIo.__callLogs : []
-  res.json({ logs })
+// DELETE /schedules/:id -> { ok, schedule } (cancel; pending only)
+app.delete('/schedules/:id', requireAuth(), async (req, res) => {
+  const claims = (req as any).user as JwtClaims
+  const canceled = await cancelSchedule(claims.sub, req.params.id)
+  if (canceled) {
+    announceSchedule(canceled)
+    return res.json({ ok: true, schedule: publicSchedule(canceled) })
+  }
+  const s = await findSchedule(claims.sub, req.params.id)
+  return res.status(s ? 409 : 404).json({ ok: false, error: s ? 'not_pending' : 'not_found' })
+})
+
+// GET /calls?before=&limit= -> { ok, calls: [{ id, kind, direction, media, room, caller, callees, outcome, startedAt, answeredAt, endedAt, durationMs, missed }], nextCursor }
+// The caller's own call history (placed and received), newest first
+app.get('/calls', requireAuth(), async (req, res) => {
+  const claims = (req as any).user as JwtClaims
+  const before = req.query.before !== undefined ? decodeCallCursor(req.query.before) : null
+  if (req.query.before !== undefined && !before) return res.status(400).json({ ok: false, error: 'invalid_cursor' })
+  const { calls, nextCursor } = await listCallsFor(claims.sub, { before, limit: Number(req.query.limit) || undefined })
+  const names: Record<string, string | null> = {}
+  for (const id of new Set(calls.flatMap((c) => [c.callerId, ...c.calleeIds]))) {
+    const acc = await findAccountById(id).catch(() => null)
+    names[id] = acc?.name || acc?.username || null
+  }
+  res.json({ ok: true, calls: calls.map((c) => publicCall(c, claims.sub, names)), nextCursor })
 })
 
 // Typing indicators: get typing users for a room
 app.get('/typing', async (req, res) => {
   const room = req.query.room as string | undefined
-  if (!redis) return res.status(200).json({ ok: false, reason: 'no redis' })
-  const key = room ? `typing:${room}` : 'typing:global'
-  const ids = await redis.smembers(key)
-  res.json({ ids })
+  const claims = await optionalClaims(req)
+  if (room && !(await canReadRoom(room, claims?.sub))) return res.status(claims ? 403 : 401).json({ ok: false, error: claims ? 'forbidden' : 'unauthorized' })
+  const list = await listTyping(redis, typingKey({ room }))
+  res.json({ ids: list.map((t) => t.socketId), users: publicTyping(list) })
 })
 
 function startListening(port: number, retries = 10) {
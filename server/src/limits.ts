@@ -0,0 +1,95 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Echo contributors
+import type { Redis } from 'ioredis'
+
+// At most `limit` hits per key in each fixed window of `windowMs`
+export type RateRule = { limit: number; windowMs: number }
+// count = hits in the current window, this one included
+export type RateResult = { ok: boolean; count: number; retryAfterMs: number }
+
+// One limiter for socket events, REST routes and connections; Redis makes the counts global across instances
+export interface RateLimiter {
+  hit(key: string, rule: RateRule): Promise<RateResult>
+}
+
+const num = (raw: string | undefined, fallback: number) => (raw && Number(raw) > 0 ? Number(raw) : fallback)
+
+// Socket events per user (per socket for guests); events not listed share SOCKET_DEFAULT_RULE.
+// webrtc:ice falls under the default, so it has to leave room for a burst of candidates.
+export const SOCKET_RULES: Record<string, RateRule> = {
+  message: { limit: 20, windowMs: 10_000 },
+  dm: { limit: 20, windowMs: 10_000 },
+  'message:edit': { limit: 20, windowMs: 10_000 },
+  'message:delete': { limit: 20, windowMs: 10_000 },
+  'reaction:add': { limit: 30, windowMs: 10_000 },
+  'reaction:remove': { limit: 30, windowMs: 10_000 },
+  'poll:create': { limit: 5, windowMs: 60_000 },
+  'poll:vote': { limit: 30, windowMs: 10_000 },
+  'typing:start': { limit: 30, windowMs: 10_000 },
+  joinRoom: { limit: 20, windowMs: 60_000 },
+  'call:invite': { limit: 10, windowMs: 60_000 },
+  'status:set': { limit: 10, windowMs: 60_000 },
+}
+export const SOCKET_DEFAULT_RULE: RateRule = { limit: 200, windowMs: 10_000 }
+// every REST request, per client IP
+export const REST_RULE: RateRule = { limit: num(process.env.REST_RATE_LIMIT, 300), windowMs: 60_000 }
+// new socket connections per client IP, and open sockets per IP on one instance
+export const CONNECT_RULE: RateRule = { limit: num(process.env.SOCKET_CONNECT_RATE, 30), windowMs: 60_000 }
+export const MAX_SOCKETS_PER_IP = num(process.env.MAX_SOCKETS_PER_IP, 20)
+
+// Message text must be a string of at most MAX_MESSAGE_LENGTH characters (empty is allowed; callers decide)
+export const MAX_MESSAGE_LENGTH = num(process.env.MAX_MESSAGE_LENGTH, 4000)
+// Largest socket packet the server accepts; bigger ones close the connection
+export const MAX_SOCKET_PAYLOAD_BYTES = 256 * 1024
+
+export function checkText(raw: unknown): { ok: true; text: string } | { ok: false; error: 'invalid_payload' | 'message_too_long' } {
+  if (raw == null) return { ok: true, text: '' }
+  if (typeof raw !== 'string') return { ok: false, error: 'invalid_payload' }
+  if (raw.length > MAX_MESSAGE_LENGTH) return { ok: false, error: 'message_too_long' }
+  return { ok: true, text: raw }
+}
+
+export function memoryRateLimiter(): RateLimiter {
+  const windows = new Map<string, { count: number; resetAt: number }>()
+  // drop lapsed windows so idle keys do not pile up
+  setInterval(() => {
+    const now = Date.now()
+    for (const [key, w] of windows) if (w.resetAt <= now) windows.delete(key)
+  }, 60_000).unref()
+  return {
+    async hit(key, rule) {
+      const now = Date.now()
+      let w = windows.get(key)
+      if (!w || w.resetAt <= now) {
+        w = { count: 0, resetAt: now + rule.windowMs }
+        windows.set(key, w)
+      }
+      w.count++
+      return { ok: w.count <= rule.limit, count: w.count, retryAfterMs: w.count <= rule.limit ? 0 : w.resetAt - now }
+    },
+  }
+}
+
+// Redis layout: `rl:<key>` counter that expires with its window. On Redis errors requests are let through.
+export function redisRateLimiter(redis: Redis): RateLimiter {
+  return {
+    async hit(key, rule) {
+      try {
+        const res = await redis.multi().incr(`rl:${key}`).pttl(`rl:${key}`).exec()
+        const count = Number(res?.[0]?.[1])
+        let ttl = Number(res?.[1]?.[1])
+        if (ttl < 0) {
+          await redis.pexpire(`rl:${key}`, rule.windowMs)
+          ttl = rule.windowMs
+        }
+        return { ok: count <= rule.limit, count, retryAfterMs: count <= rule.limit ? 0 : ttl }
+      } catch {
+        return { ok: true, count: 0, retryAfterMs: 0 }
+      }
+    },
+  }
+}
+
+export function createRateLimiter(redis: Redis | null): RateLimiter {
+  return redis ? redisRateLimiter(redis) : memoryRateLimiter()
+}
@@ -0,0 +1,328 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Echo contributors
+import crypto from 'crypto'
+import { isMongoConnected, Message } from './db.js'
+import { indexText, unindexText, matchIds } from './search.js'
+import { publicAttachment, type AttachmentInfo } from './attachments.js'
+import { publicPoll, type Poll } from './polls.js'
+
+export type MessageEdit = { text: string; ts: number }
+export type Reaction = { emoji: string; users: string[] }
+export type MessageAttachment = Pick<AttachmentInfo, 'attachmentId' | 'name' | 'contentType' | 'size' | 'width' | 'height' | 'hasThumbnail'>
+export type StoredMessage = {
+  messageId: string
+  name: string
+  text: string
+  ts: number
+  room: string | null
+  conversationId?: string | null
+  userId?: string | null
+  editedAt?: number | null
+  edits?: MessageEdit[]
+  deletedAt?: number | null
+  deletedBy?: string | null
+  reactions?: Reaction[]
+  parentId?: string | null
+  replyCount?: number
+  lastReplyAt?: number | null
+  attachments?: MessageAttachment[]
+  // /me messages ("* name waves"), and messages posted by a bot
+  action?: boolean
+  bot?: boolean
+  // set on polls (see polls.ts); the text is the question
+  poll?: Poll | null
+}
+
+// fallback message store, capped to the last 500
+const inMemMessages: StoredMessage[] = []
+const IN_MEM_CAP = 500
+// distinct emojis allowed on one message
+const MAX_REACTIONS = 20
+
+export function newMessageId() {
+  return crypto.randomUUID()
+}
+
+// persist a message if DB is available, else keep it in the capped in-memory buffer
+export async function saveMessage(m: StoredMessage) {
+  try {
+    if (isMongoConnected()) {
+      await Message.create(m)
+    } else {
+      inMemMessages.push(m)
+      indexText(m.messageId, m.text)
+      if (inMemMessages.length > IN_MEM_CAP) {
+        for (const old of inMemMessages.splice(0, inMemMessages.length - IN_MEM_CAP)) unindexText(old.messageId, old.text)
+      }
+    }
+  } catch (e) {
+    console.error('Failed to save message', e)
+  }
+}
+
+function fromDoc(d: any): StoredMessage {
+  return {
+    // documents written before message ids existed fall back to the Mongo _id
+    messageId: d.messageId || String(d._id), name: d.name, text: d.text, ts: d.ts, room: d.room ?? null,
+    conversationId: d.conversationId ?? null, userId: d.userId ?? null,
+    editedAt: d.editedAt ?? null, edits: d.edits || [], deletedAt: d.deletedAt ?? null, deletedBy: d.deletedBy ?? null,
+    reactions: (d.reactions || []).map((r: any) => ({ emoji: r.emoji, users: [...(r.users || [])] })),
+    parentId: d.parentId ?? null, replyCount: d.replyCount || 0, lastReplyAt: d.lastReplyAt ?? null,
+    attachments: (d.attachments || []).map((a: any) => ({ attachmentId: a.attachmentId, name: a.name, contentType: a.contentType, size: a.size, width: a.width ?? null, height: a.height ?? null, hasThumbnail: !!a.hasThumbnail })),
+    action: !!d.action, bot: !!d.bot,
+    poll: d.poll ? { options: (d.poll.options || []).map((o: any) => ({ text: o.text, voters: [...(o.voters || [])] })), multiple: !!d.poll.multiple, anonymous: !!d.poll.anonymous, closesAt: d.poll.closesAt ?? null, closedAt: d.poll.closedAt ?? null } : null,
+  }
+}
+
+export async function findMessage(messageId: string): Promise<StoredMessage | null> {
+  if (isMongoConnected()) {
+    const doc = await Message.findOne({ messageId }).lean().exec()
+    return doc ? fromDoc(doc) : null
+  }
+  const m = inMemMessages.find((x) => x.messageId === messageId)
+  if (!m) return null
+  const poll = m.poll ? { ...m.poll, options: m.poll.options.map((o) => ({ ...o, voters: [...o.voters] })) } : m.poll
+  return { ...m, reactions: (m.reactions || []).map((r) => ({ ...r, users: [...r.users] })), poll }
+}
+
+// Replace the text, keeping the previous text in the edit history
+export async function editMessage(messageId: string, text: string): Promise<StoredMessage | null> {
+  const cur = await findMessage(messageId)
+  if (!cur || cur.deletedAt) return null
+  const now = Date.now()
+  const edit: MessageEdit = { text: cur.text, ts: cur.editedAt || cur.ts }
+  const updated: StoredMessage = { ...cur, text, editedAt: now, edits: [...(cur.edits || []), edit] }
+  if (isMongoConnected()) {
+    await Message.updateOne({ messageId }, { $push: { edits: edit }, $set: { text, editedAt: now } })
+  } else {
+    const m = inMemMessages.find((x) => x.messageId === messageId)
+    if (m) {
+      unindexText(m.messageId, m.text)
+      Object.assign(m, { text, editedAt: now, edits: updated.edits })
+      indexText(m.messageId, text)
+    }
+  }
+  return updated
+}
+
+// Tombstone: the record stays (so replies and history keep their place) but its content is dropped
+export async function deleteMessage(messageId: string, by: string): Promise<StoredMessage | null> {
+  const cur = await findMessage(messageId)
+  if (!cur || cur.deletedAt) return null
+  const now = Date.now()
+  if (isMongoConnected()) {
+    await Message.updateOne({ messageId }, { $set: { text: '', edits: [], reactions: [], attachments: [], poll: null, deletedAt: now, deletedBy: by } })
+  } else {
+    const m = inMemMessages.find((x) => x.messageId === messageId)
+    if (m) {
+      unindexText(m.messageId, m.text)
+      m.text = ''; m.edits = []; m.reactions = []; m.attachments = []; m.poll = null; m.deletedAt = now; m.deletedBy = by
+    }
+  }
+  return { ...cur, text: '', edits: [], reactions: [], attachments: [], poll: null, deletedAt: now, deletedBy: by }
+}
+
+// Replace one user's vote on an open poll with these option indexes (empty = no vote)
+export async function setPollVote(messageId: string, userId: string, choices: number[]): Promise<StoredMessage | null> {
+  if (isMongoConnected()) {
+    const open = { messageId, deletedAt: null, 'poll.closedAt': null }
+    await Message.updateOne(open, { $pull: { 'poll.options.$[].voters': userId } })
+    if (choices.length) await Message.updateOne(open, { $addToSet: Object.fromEntries(choices.map((i) => [`poll.options.${i}.voters`, userId])) })
+    return findMessage(messageId)
+  }
+  const m = inMemMessages.find((x) => x.messageId === messageId)
+  if (!m?.poll || m.deletedAt || m.poll.closedAt != null) return null
+  m.poll.options.forEach((o, i) => {
+    o.voters = o.voters.filter((v) => v !== userId)
+    if (choices.includes(i)) o.voters.push(userId)
+  })
+  return findMessage(messageId)
+}
+
+// Close a poll (at `at`); null when there is no such poll or it was already closed
+export async function closePoll(messageId: string, at: number): Promise<StoredMessage | null> {
+  if (isMongoConnected()) {
+    const r = await Message.updateOne({ messageId, deletedAt: null, poll: { $ne: null }, 'poll.closedAt': null }, { $set: { 'poll.closedAt': at } })
+    return r.modifiedCount > 0 ? findMessage(messageId) : null
+  }
+  const m = inMemMessages.find((x) => x.messageId === messageId)
+  if (!m?.poll || m.deletedAt || m.poll.closedAt != null) return null
+  m.poll.closedAt = at
+  return findMessage(messageId)
+}
+
+// Open polls whose closing time has passed (their close timer was lost with the node that set it)
+export async function listDuePolls(now: number, limit = 100): Promise<{ messageId: string; closesAt: number }[]> {
+  if (isMongoConnected()) {
+    const docs = await Message.find({ 'poll.closesAt': { $lte: now }, 'poll.closedAt': null, deletedAt: null }, { messageId: 1, 'poll.closesAt': 1 }).limit(limit).lean().exec()
+    return docs.map((d: any) => ({ messageId: d.messageId, closesAt: d.poll.closesAt }))
+  }
+  return inMemMessages
+    .filter((m) => m.poll && !m.deletedAt && m.poll.closedAt == null && m.poll.closesAt != null && m.poll.closesAt <= now)
+    .slice(0, limit)
+    .map((m) => ({ messageId: m.messageId, closesAt: m.poll!.closesAt as number }))
+}
+
+// Add or remove one user's reaction; returns the message with its updated reactions
+export async function setReaction(messageId: string, emoji: string, userId: string, on: boolean): Promise<StoredMessage | null> {
+  const cur = await findMessage(messageId)
+  if (!cur || cur.deletedAt) return null
+  const reactions = cur.reactions || []
+  const existing = reactions.find((r) => r.emoji === emoji)
+  if (on && !existing && reactions.length >= MAX_REACTIONS) return null
+  if (isMongoConnected()) {
+    if (on) {
+      const r = await Message.updateOne({ messageId, 'reactions.emoji': emoji }, { $addToSet: { 'reactions.$.users': userId } })
+      if (r.matchedCount === 0) await Message.updateOne({ messageId, 'reactions.emoji': { $ne: emoji } }, { $push: { reactions: { emoji, users: [userId] } } })
+    } else {
+      await Message.updateOne({ messageId, 'reactions.emoji': emoji }, { $pull: { 'reactions.$.users': userId } })
+      await Message.updateOne({ messageId }, { $pull: { reactions: { users: { $size: 0 } } } })
+    }
+    return findMessage(messageId)
+  }
+  const m = inMemMessages.find((x) => x.messageId === messageId)
+  if (!m) return null
+  const list = m.reactions || (m.reactions = [])
+  const entry = list.find((r) => r.emoji === emoji)
+  if (on) {
+    if (!entry) list.push({ emoji, users: [userId] })
+    else if (!entry.users.includes(userId)) entry.users.push(userId)
+  } else if (entry) {
+    entry.users = entry.users.filter((u) => u !== userId)
+    if (entry.users.length === 0) m.reactions = list.filter((r) => r !== entry)
+  }
+  return findMessage(messageId)
+}
+
+// Count a new reply on its thread root
+export async function bumpReplyCount(parentId: string, ts: number): Promise<StoredMessage | null> {
+  if (isMongoConnected()) {
+    await Message.updateOne({ messageId: parentId }, { $inc: { replyCount: 1 }, $set: { lastReplyAt: ts } })
+  } else {
+    const m = inMemMessages.find((x) => x.messageId === parentId)
+    if (m) { m.replyCount = (m.replyCount || 0) + 1; m.lastReplyAt = ts }
+  }
+  return findMessage(parentId)
+}
+
+// Replies of a thread, oldest first
+export async function listThread(parentId: string): Promise<StoredMessage[]> {
+  if (isMongoConnected()) {
+    const docs = await Message.find({ parentId }).sort({ ts: 1 }).limit(500).lean().exec()
+    return docs.map(fromDoc)
+  }
+  return inMemMessages.filter((m) => m.parentId === parentId).sort((a, b) => a.ts - b.ts)
+}
+
+// History pages are ordered by (ts, messageId); a cursor names one position in that order
+export const DEFAULT_PAGE_SIZE = 50
+export const MAX_PAGE_SIZE = 200
+export type Cursor = { ts: number; messageId: string }
+export type MessagePage = { messages: StoredMessage[]; olderCursor: string | null; newerCursor: string | null }
+
+export function encodeCursor(m: Cursor) {
+  return Buffer.from(`${m.ts}:${m.messageId}`).toString('base64url')
+}
+
+export function decodeCursor(raw: unknown): Cursor | null {
+  if (typeof raw !== 'string' || !raw) return null
+  const s = Buffer.from(raw, 'base64url').toString('utf8')
+  const sep = s.indexOf(':')
+  const ts = Number(s.slice(0, sep))
+  if (sep <= 0 || !Number.isFinite(ts) || sep === s.length - 1) return null
+  return { ts, messageId: s.slice(sep + 1) }
+}
+
+function compareCursor(a: Cursor, b: Cursor) {
+  return a.ts - b.ts || (a.messageId < b.messageId ? -1 : a.messageId > b.messageId ? 1 : 0)
+}
+
+// One page of top-level messages of a room (null = all rooms) or a DM conversation, oldest first.
+// No cursor: the latest page. before: the page just older than the cursor. after: the page just newer.
+// excludeRooms drops those rooms from the all-rooms (no room, no conversation) listing.
+export async function listMessages(filter: { room?: string; conversationId?: string; before?: Cursor | null; after?: Cursor | null; limit?: number; excludeRooms?: string[] }): Promise<MessagePage> {
+  const { room, conversationId, before, after } = filter
+  const excluded = !room && !conversationId ? filter.excludeRooms || [] : []
+  const limit = Math.min(Math.max(Math.floor(filter.limit || DEFAULT_PAGE_SIZE), 1), MAX_PAGE_SIZE)
+  const forward = !!after && !before
+  let rows: StoredMessage[]
+  if (isMongoConnected()) {
+    // DMs never leak into room/global history; thread replies live in their thread
+    const q: any = { conversationId: conversationId || null, parentId: null }
+    if (room && !conversationId) q.room = room
+    else if (excluded.length) q.room = { $nin: excluded }
+    const c = before || after
+    if (c) {
+      const op = forward ? '$gt' : '$lt'
+      q.$or = [{ ts: { [op]: c.ts } }, { ts: c.ts, messageId: { [op]: c.messageId } }]
+    }
+    const dir = forward ? 1 : -1
+    // one extra row tells whether another page exists in this direction
+    const docs = await Message.find(q).sort({ ts: dir, messageId: dir }).limit(limit + 1).lean().exec()
+    rows = docs.map(fromDoc)
+  } else {
+    rows = inMemMessages
+      .filter((m) => !m.parentId)
+      .filter((m) => (conversationId ? m.conversationId === conversationId : !m.conversationId && (room ? m.room === room : !excluded.includes(m.room as string))))
+      .filter((m) => (before ? compareCursor(m, before) < 0 : after ? compareCursor(m, after) > 0 : true))
+      .sort((a, b) => (forward ? compareCursor(a, b) : compareCursor(b, a)))
+      .slice(0, limit + 1)
+  }
+  const more = rows.length > limit
+  const page = rows.slice(0, limit)
+  if (!forward) page.reverse()
+  const first = page[0]
+  const last = page[page.length - 1]
+  return {
+    messages: page,
+    olderCursor: first && (forward || more) ? encodeCursor(first) : null,
+    // the latest page has nothing newer; any page fetched with a cursor may
+    newerCursor: last && (forward ? more : !!before) ? encodeCursor(last) : null,
+  }
+}
+
+// Full-text search over live (not deleted) messages, newest first.
+// Room messages are searchable unless their room is excluded; DMs only within the given conversation ids.
+export type SearchFilter = { terms: string[]; conversationIds: string[]; excludeRooms: string[]; room?: string; userId?: string; from?: number; to?: number; limit: number }
+export async function searchMessages(f: SearchFilter): Promise<StoredMessage[]> {
+  if (f.terms.length === 0) return []
+  const inScope = (m: StoredMessage) => (m.conversationId ? f.conversationIds.includes(m.conversationId) : true)
+  if (isMongoConnected()) {
+    // quoted terms make $text require all of them
+    const q: any = { $text: { $search: f.terms.map((t) => `"${t}"`).join(' ') }, deletedAt: null }
+    if (f.room) { q.room = f.room; q.conversationId = null }
+    else q.$or = [{ conversationId: null }, { conversationId: { $in: f.conversationIds } }]
+    if (!f.room && f.excludeRooms.length) q.room = { $nin: f.excludeRooms }
+    if (f.userId) q.userId = f.userId
+    if (f.from || f.to) q.ts = { ...(f.from ? { $gte: f.from } : {}), ...(f.to ? { $lte: f.to } : {}) }
+    const docs = await Message.find(q).sort({ ts: -1 }).limit(f.limit).lean().exec()
+    return docs.map(fromDoc)
+  }
+  const ids = matchIds(f.terms)
+  return inMemMessages
+    .filter((m) => ids.has(m.messageId) && !m.deletedAt && inScope(m) && !f.excludeRooms.includes(m.room as string))
+    .filter((m) => (f.room ? m.room === f.room && !m.conversationId : true))
+    .filter((m) => (f.userId ? m.userId === f.userId : true))
+    .filter((m) => (f.from ? m.ts >= f.from : true) && (f.to ? m.ts <= f.to : true))
+    .sort((a, b) => b.ts - a.ts)
+    .slice(0, f.limit)
+}
+
+// Wire shape shared by socket events and GET /messages; viewerId adds the viewer's own poll votes
+export function toPublicMessage(m: StoredMessage, viewerId?: string | null) {
+  return {
+    id: m.messageId, name: m.name, userId: m.userId ?? null, text: m.text, ts: m.ts, room: m.room,
+    conversationId: m.conversationId ?? null,
+    editedAt: m.editedAt ?? null, edits: m.edits || [],
+    deleted: !!m.deletedAt, deletedAt: m.deletedAt ?? null, deletedBy: m.deletedBy ?? null,
+    reactions: publicReactions(m),
+    parentId: m.parentId ?? null, replyCount: m.replyCount || 0, lastReplyAt: m.lastReplyAt ?? null,
+    attachments: (m.attachments || []).map(publicAttachment),
+    action: !!m.action, bot: !!m.bot,
+    poll: m.poll ? publicPoll(m.poll, viewerId) : null,
+  }
+}
+
+export function publicReactions(m: StoredMessage) {
+  return (m.reactions || []).map((r) => ({ emoji: r.emoji, count: r.users.length, users: r.users }))
+}
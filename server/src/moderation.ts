@@ -0,0 +1,47 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Echo contributors
+import { isMongoConnected, ModerationLog } from './db.js'
+
+export type ModerationAction = 'kick' | 'ban' | 'unban' | 'mute' | 'unmute' | 'delete' | 'role'
+export type ModerationEntry = {
+  room: string
+  action: ModerationAction
+  actorId: string
+  targetId: string | null
+  messageId?: string | null
+  reason?: string | null
+  // ban/mute expiry (null = permanent); new role for 'role' entries
+  until?: number | null
+  role?: string | null
+  ts: number
+}
+
+// fallback log, capped to the last 1000 entries
+const inMemLog: ModerationEntry[] = []
+const IN_MEM_CAP = 1000
+
+export async function recordModeration(e: Omit<ModerationEntry, 'ts'>): Promise<ModerationEntry> {
+  const entry: ModerationEntry = { ...e, ts: Date.now() }
+  try {
+    if (isMongoConnected()) await ModerationLog.create(entry)
+    else {
+      inMemLog.push(entry)
+      if (inMemLog.length > IN_MEM_CAP) inMemLog.splice(0, inMemLog.length - IN_MEM_CAP)
+    }
+  } catch (err) {
+    console.error('Failed to record moderation action', err)
+  }
+  return entry
+}
+
+// Newest first
+export async function listModeration(room: string, limit = 100): Promise<ModerationEntry[]> {
+  if (isMongoConnected()) {
+    const docs = await ModerationLog.find({ room }).sort({ ts: -1 }).limit(limit).lean().exec()
+    return docs.map((d: any) => ({
+      room: d.room, action: d.action, actorId: d.actorId, targetId: d.targetId ?? null,
+      messageId: d.messageId ?? null, reason: d.reason ?? null, until: d.until ?? null, role: d.role ?? null, ts: d.ts,
+    }))
+  }
+  return inMemLog.filter((e) => e.room === room).reverse().slice(0, limit)
+}
@@ -0,0 +1,152 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Echo contributors
+
+// Settings for one room's pipeline. `stages` lists the stages to run, in order; the rest configure built-ins.
+export type FilterConfig = {
+  stages: string[]
+  // words: whole words, case-insensitive; wordAction decides what a hit does
+  words: string[]
+  wordAction: 'mask' | 'flag' | 'reject'
+  // links to hosts in linkAllow (and their subdomains) always pass
+  links: 'flag' | 'reject'
+  linkAllow: string[]
+  spam: 'flag' | 'reject'
+}
+// What a room stores: only the settings it overrides
+export type FilterOverrides = Partial<FilterConfig>
+
+// The message as it goes through the pipeline; a stage may rewrite `text` for the stages after it
+export type MessageDraft = { text: string; userId: string | null; room: string | null; conversationId: string | null; editOf: string | null }
+export type StageVerdict = { action: 'reject' | 'flag'; reason: string } | { action: 'rewrite'; text: string } | null | void
+export type ModerationStage = { name: string; run(draft: MessageDraft, config: FilterConfig): StageVerdict | Promise<StageVerdict> }
+
+export type PipelineResult =
+  | { ok: true; text: string; flags: { stage: string; reason: string }[] }
+  | { ok: false; stage: string; reason: string }
+
+const list = (raw: string | undefined) => (raw || '').split(',').map((s) => s.trim().toLowerCase()).filter(Boolean)
+
+// Server-wide defaults; FILTER_WORDS is a comma-separated list
+export const DEFAULT_FILTERS: FilterConfig = {
+  stages: process.env.MESSAGE_STAGES ? list(process.env.MESSAGE_STAGES) : ['words', 'spam'],
+  words: list(process.env.FILTER_WORDS),
+  wordAction: (['mask', 'flag', 'reject'] as const).find((a) => a === process.env.FILTER_WORD_ACTION) || 'mask',
+  links: 'flag',
+  linkAllow: [],
+  spam: 'reject',
+}
+
+const MAX_FILTER_WORDS = 500
+const MAX_WORD_LENGTH = 64
+
+const stages = new Map<string, ModerationStage>()
+
+// Add a stage; rooms (or MESSAGE_STAGES) enable it by name
+export function registerStage(stage: ModerationStage) {
+  stages.set(stage.name, stage)
+}
+
+export function stageNames() {
+  return Array.from(stages.keys())
+}
+
+export function filterConfigFor(overrides: FilterOverrides | null | undefined): FilterConfig {
+  return { ...DEFAULT_FILTERS, ...(overrides || {}) }
+}
+
+// Validate room overrides (PUT body); unknown keys are rejected so typos do not silently do nothing
+export function parseFilterOverrides(raw: any): { ok: true; filters: FilterOverrides } | { ok: false; error: 'invalid_filters' } {
+  const bad = { ok: false as const, error: 'invalid_filters' as const }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return bad
+  const words = (v: unknown, max: number) => Array.isArray(v) && v.length <= max && v.every((w) => typeof w === 'string' && w.trim() && w.length <= MAX_WORD_LENGTH)
+  const out: FilterOverrides = {}
+  for (const [k, v] of Object.entries(raw)) {
+    if (k === 'stages' && words(v, 20) && (v as string[]).every((s) => stages.has(s))) out.stages = v as string[]
+    else if (k === 'words' && words(v, MAX_FILTER_WORDS)) out.words = (v as string[]).map((w) => w.trim().toLowerCase())
+    else if (k === 'wordAction' && (v === 'mask' || v === 'flag' || v === 'reject')) out.wordAction = v
+    else if (k === 'links' && (v === 'flag' || v === 'reject')) out.links = v
+    else if (k === 'linkAllow' && words(v, 100)) out.linkAllow = (v as string[]).map((h) => h.trim().toLowerCase())
+    else if (k === 'spam' && (v === 'flag' || v === 'reject')) out.spam = v
+    else return bad
+  }
+  return { ok: true, filters: out }
+}
+
+// Run the enabled stages in order: the first reject stops the message, flags add up, rewrites carry forward.
+// A stage that throws is skipped so a broken custom stage cannot block chat.
+export async function runPipeline(draft: MessageDraft, config: FilterConfig): Promise<PipelineResult> {
+  const flags: { stage: string; reason: string }[] = []
+  let cur = draft
+  for (const name of config.stages) {
+    const stage = stages.get(name)
+    if (!stage) continue
+    let verdict: StageVerdict
+    try {
+      verdict = await stage.run(cur, config)
+    } catch (e) {
+      console.error(`Message stage ${name} failed`, e)
+      continue
+    }
+    if (!verdict) continue
+    if (verdict.action === 'rewrite') cur = { ...cur, text: verdict.text }
+    else if (verdict.action === 'reject') return { ok: false, stage: name, reason: verdict.reason }
+    else flags.push({ stage: name, reason: verdict.reason })
+  }
+  return { ok: true, text: cur.text, flags }
+}
+
+// --- Built-in stages ---
+
+const escapeRe = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+registerStage({
+  name: 'words',
+  run(draft, config) {
+    if (!config.words.length || !draft.text) return null
+    const re = new RegExp(`(?<![\\p{L}\\p{N}])(?:${config.words.map(escapeRe).join('|')})(?![\\p{L}\\p{N}])`, 'giu')
+    if (!re.test(draft.text)) return null
+    if (config.wordAction === 'mask') return { action: 'rewrite', text: draft.text.replace(re, (w) => '*'.repeat(w.length)) }
+    return { action: config.wordAction, reason: 'contains a blocked word' }
+  },
+})
+
+const LINK_RE = /\b(?:https?:\/\/|www\.)([^\s/?#:]+)[^\s]*/gi
+
+registerStage({
+  name: 'links',
+  run(draft, config) {
+    for (const m of draft.text.matchAll(LINK_RE)) {
+      const host = m[1].toLowerCase().replace(/^www\./, '')
+      if (config.linkAllow.some((h) => host === h || host.endsWith('.' + h))) continue
+      return { action: config.links, reason: 'links are not allowed here' }
+    }
+    return null
+  },
+})
+
+// Spam heuristics over each sender's recent messages (kept per process): flooding, the same text
+// sent again and again, and long runs of one character
+const SPAM_WINDOW_MS = 30_000
+const SPAM_FLOOD_COUNT = 8
+const SPAM_REPEAT_COUNT = 3
+const recent = new Map<string, { text: string; ts: number }[]>()
+setInterval(() => {
+  const cutoff = Date.now() - SPAM_WINDOW_MS
+  for (const [key, items] of recent) if (!items.some((i) => i.ts > cutoff)) recent.delete(key)
+}, 60_000).unref()
+
+registerStage({
+  name: 'spam',
+  run(draft, config) {
+    if (!draft.userId || draft.editOf) return null
+    const now = Date.now()
+    const text = draft.text.trim().toLowerCase().replace(/\s+/g, ' ')
+    const items = (recent.get(draft.userId) || []).filter((i) => i.ts > now - SPAM_WINDOW_MS)
+    items.push({ text, ts: now })
+    recent.set(draft.userId, items.slice(-SPAM_FLOOD_COUNT * 2))
+    if (items.length > SPAM_FLOOD_COUNT) return { action: config.spam, reason: 'you are sending messages too quickly' }
+    if (text && items.filter((i) => i.text === text).length >= SPAM_REPEAT_COUNT) return { action: config.spam, reason: 'repeated message' }
+    if (/(.)\1{29,}/su.test(text)) return { action: config.spam, reason: 'repeated characters' }
+    return null
+  },
+})
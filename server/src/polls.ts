@@ -0,0 +1,70 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Echo contributors
+
+// A poll rides on a message: the message text is the question, the poll holds the options and votes.
+// multiple = voters may pick several options; anonymous = voter ids are never sent to clients.
+// closesAt null = open until closed by hand; closedAt is set once it closes.
+export type PollOption = { text: string; voters: string[] }
+export type Poll = { options: PollOption[]; multiple: boolean; anonymous: boolean; closesAt: number | null; closedAt: number | null }
+
+export const MIN_POLL_OPTIONS = 2
+export const MAX_POLL_OPTIONS = 10
+export const MAX_POLL_QUESTION = 300
+export const MAX_POLL_OPTION = 100
+export const MAX_POLL_SECONDS = 7 * 24 * 3600
+
+// Validate { question, options, multiple?, anonymous?, closesInSeconds? }; options are single lines, no duplicates
+export function parsePoll(raw: any): { ok: true; question: string; poll: Poll } | { ok: false; error: 'invalid_poll' | 'invalid_duration' } {
+  const bad = { ok: false as const, error: 'invalid_poll' as const }
+  const question = typeof raw?.question === 'string' ? raw.question.trim() : ''
+  if (!question || question.length > MAX_POLL_QUESTION || !Array.isArray(raw.options)) return bad
+  if (raw.options.length < MIN_POLL_OPTIONS || raw.options.length > MAX_POLL_OPTIONS) return bad
+  const options: string[] = []
+  for (const o of raw.options) {
+    const text = typeof o === 'string' ? o.trim() : ''
+    if (!text || text.length > MAX_POLL_OPTION || /[\r\n]/.test(text)) return bad
+    if (options.some((t) => t.toLowerCase() === text.toLowerCase())) return bad
+    options.push(text)
+  }
+  if ((raw.multiple != null && typeof raw.multiple !== 'boolean') || (raw.anonymous != null && typeof raw.anonymous !== 'boolean')) return bad
+  const secs = raw.closesInSeconds
+  if (secs != null && (!Number.isInteger(secs) || secs <= 0 || secs > MAX_POLL_SECONDS)) return { ok: false, error: 'invalid_duration' }
+  return {
+    ok: true,
+    question,
+    poll: { options: options.map((text) => ({ text, voters: [] })), multiple: raw.multiple === true, anonymous: raw.anonymous === true, closesAt: secs != null ? Date.now() + secs * 1000 : null, closedAt: null },
+  }
+}
+
+export function isPollOpen(p: Poll, now = Date.now()) {
+  return p.closedAt == null && (p.closesAt == null || p.closesAt > now)
+}
+
+// A vote is a list of option indexes: distinct, in range, at most one unless the poll is multiple-choice.
+// An empty list takes the voter's vote back.
+export function parseChoices(p: Poll, raw: unknown): number[] | null {
+  if (!Array.isArray(raw) || raw.length > (p.multiple ? p.options.length : 1)) return null
+  const out: number[] = []
+  for (const i of raw) {
+    if (!Number.isInteger(i) || i < 0 || i >= p.options.length || out.includes(i)) return null
+    out.push(i)
+  }
+  return out.sort((a, b) => a - b)
+}
+
+export function votesOf(p: Poll, userId: string) {
+  return p.options.flatMap((o, i) => (o.voters.includes(userId) ? [i] : []))
+}
+
+// Wire shape: counts for everyone, voter ids unless anonymous; myVotes when the viewer is known
+export function publicPoll(p: Poll, viewerId?: string | null) {
+  const voters = new Set(p.options.flatMap((o) => o.voters))
+  return {
+    options: p.options.map((o) => ({ text: o.text, count: o.voters.length, ...(p.anonymous ? {} : { voters: o.voters }) })),
+    multiple: p.multiple, anonymous: p.anonymous,
+    closesAt: p.closesAt, closedAt: p.closedAt ?? (p.closesAt != null && p.closesAt <= Date.now() ? p.closesAt : null),
+    closed: !isPollOpen(p),
+    voterCount: voters.size,
+    ...(viewerId ? { myVotes: votesOf(p, viewerId) } : {}),
+  }
+}
@@ -0,0 +1,122 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Echo contributors
+import type { Redis } from 'ioredis'
+import { isMongoConnected, User } from './db.js'
+
+export type PresenceStatus = 'online' | 'away' | 'offline'
+// devices = live connections; lastSeen = last time any of them was alive (null = never seen)
+export type PresenceInfo = { userId: string; status: PresenceStatus; lastSeen: number | null; devices: number }
+
+// A connection counts as live until PRESENCE_TTL_SECONDS after its last heartbeat, so sockets of a
+// crashed server drop out on their own. Servers heartbeat their sockets every third of the TTL.
+export const PRESENCE_TTL_MS = Number(process.env.PRESENCE_TTL_SECONDS || 60) * 1000
+export const PRESENCE_HEARTBEAT_MS = Math.max(1000, Math.floor(PRESENCE_TTL_MS / 3))
+// lastSeen is written to the user record at most this often per user while connected (always on disconnect)
+const LAST_SEEN_WRITE_MS = 60_000
+
+export interface PresenceTracker {
+  // register or refresh one connection; away = the device reports its user idle
+  heartbeat(userId: string, socketId: string, away?: boolean): Promise<void>
+  drop(userId: string, socketId: string): Promise<void>
+  statusOf(userIds: string[]): Promise<PresenceInfo[]>
+}
+
+type Conn = { socketId: string; away: boolean }
+
+function aggregate(userId: string, conns: Conn[], lastSeen: number | null): PresenceInfo {
+  if (conns.length === 0) return { userId, status: 'offline', lastSeen, devices: 0 }
+  return { userId, status: conns.some((c) => !c.away) ? 'online' : 'away', lastSeen: Date.now(), devices: conns.length }
+}
+
+// Persisted lastSeen; the tracker keeps a fresher copy in memory or Redis
+const lastWritten = new Map<string, number>()
+async function persistLastSeen(userId: string, ts: number, force = false) {
+  if (!isMongoConnected()) return
+  if (!force && ts - (lastWritten.get(userId) || 0) < LAST_SEEN_WRITE_MS) return
+  lastWritten.set(userId, ts)
+  await User.updateOne({ userId }, { $max: { lastSeenAt: new Date(ts) } }).catch(() => {})
+}
+
+async function storedLastSeen(userIds: string[]): Promise<Map<string, number>> {
+  const out = new Map<string, number>()
+  if (!isMongoConnected() || userIds.length === 0) return out
+  const docs = await User.find({ userId: { $in: userIds } }, { userId: 1, lastSeenAt: 1 }).lean().exec()
+  for (const d of docs as any[]) if (d.lastSeenAt) out.set(d.userId, new Date(d.lastSeenAt).getTime())
+  return out
+}
+
+export function memoryPresence(): PresenceTracker {
+  const conns = new Map<string, Map<string, { expiresAt: number; away: boolean }>>()
+  const seen = new Map<string, number>()
+  const live = (userId: string): Conn[] => {
+    const m = conns.get(userId)
+    if (!m) return []
+    const now = Date.now()
+    for (const [id, c] of m) if (c.expiresAt <= now) m.delete(id)
+    if (m.size === 0) conns.delete(userId)
+    return Array.from(m, ([socketId, c]) => ({ socketId, away: c.away }))
+  }
+  return {
+    async heartbeat(userId, socketId, away) {
+      const m = conns.get(userId) || new Map()
+      const prev = m.get(socketId)
+      m.set(socketId, { expiresAt: Date.now() + PRESENCE_TTL_MS, away: away ?? prev?.away ?? false })
+      conns.set(userId, m)
+      seen.set(userId, Date.now())
+      await persistLastSeen(userId, Date.now())
+    },
+    async drop(userId, socketId) {
+      conns.get(userId)?.delete(socketId)
+      seen.set(userId, Date.now())
+      await persistLastSeen(userId, Date.now(), true)
+    },
+    async statusOf(userIds) {
+      const stored = await storedLastSeen(userIds.filter((id) => !seen.has(id)))
+      return userIds.map((id) => aggregate(id, live(id), seen.get(id) ?? stored.get(id) ?? null))
+    },
+  }
+}
+
+// Redis layout: `presence:conn:<userId>` sorted set socketId -> expiry, `presence:away:<userId>` set of idle
+// sockets, `presence:seen` hash userId -> last seen. The per-user keys expire with their last connection.
+export function redisPresence(redis: Redis): PresenceTracker {
+  const connKey = (userId: string) => `presence:conn:${userId}`
+  const awayKey = (userId: string) => `presence:away:${userId}`
+  const ttlSeconds = Math.ceil(PRESENCE_TTL_MS / 1000)
+  return {
+    async heartbeat(userId, socketId, away) {
+      const now = Date.now()
+      const m = redis.multi()
+        .zadd(connKey(userId), String(now + PRESENCE_TTL_MS), socketId).expire(connKey(userId), ttlSeconds)
+        .hset('presence:seen', userId, String(now))
+      if (away === true) m.sadd(awayKey(userId), socketId)
+      if (away === false) m.srem(awayKey(userId), socketId)
+      await m.expire(awayKey(userId), ttlSeconds).exec()
+      await persistLastSeen(userId, now)
+    },
+    async drop(userId, socketId) {
+      const now = Date.now()
+      await redis.multi().zrem(connKey(userId), socketId).srem(awayKey(userId), socketId).hset('presence:seen', userId, String(now)).exec()
+      await persistLastSeen(userId, now, true)
+    },
+    async statusOf(userIds) {
+      if (userIds.length === 0) return []
+      const now = Date.now()
+      const m = redis.multi()
+      for (const id of userIds) m.zremrangebyscore(connKey(id), 0, now).zrange(connKey(id), 0, -1).smembers(awayKey(id))
+      const res = ((await m.exec()) || []).map(([, v]) => v)
+      const seenRaw = await redis.hmget('presence:seen', ...userIds)
+      const stored = await storedLastSeen(userIds.filter((_, i) => !seenRaw[i]))
+      return userIds.map((id, i) => {
+        const sockets = (res[i * 3 + 1] as string[]) || []
+        const away = new Set((res[i * 3 + 2] as string[]) || [])
+        const conns = sockets.map((socketId) => ({ socketId, away: away.has(socketId) }))
+        return aggregate(id, conns, seenRaw[i] ? Number(seenRaw[i]) : stored.get(id) ?? null)
+      })
+    },
+  }
+}
+
+export function createPresence(redis: Redis | null): PresenceTracker {
+  return redis ? redisPresence(redis) : memoryPresence()
+}
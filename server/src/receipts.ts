@@ -0,0 +1,54 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Echo contributors
+import { isMongoConnected, Receipt } from './db.js'
+
+// Watermarks are message timestamps: everything up to deliveredTs/readTs counts as delivered/read
+export type ReceiptInfo = { userId: string; scope: string; deliveredTs: number; readTs: number }
+export type ReceiptKind = 'delivered' | 'read'
+
+// fallback receipt store: "<scope>|<userId>" -> receipt
+const inMemReceipts = new Map<string, ReceiptInfo>()
+
+// One watermark per user per DM conversation, named room, or the global room
+export function receiptScope(m: { room?: string | null; conversationId?: string | null }) {
+  if (m.conversationId) return m.conversationId
+  return m.room ? `room:${m.room}` : 'global'
+}
+
+function toInfo(d: any): ReceiptInfo {
+  return { userId: d.userId, scope: d.scope, deliveredTs: d.deliveredTs || 0, readTs: d.readTs || 0 }
+}
+
+// Move a watermark forward (never back); reading implies delivery.
+// Returns the receipt when it moved, null when it was already at or past ts.
+export async function advanceReceipt(userId: string, scope: string, kind: ReceiptKind, ts: number): Promise<ReceiptInfo | null> {
+  const max = kind === 'read' ? { deliveredTs: ts, readTs: ts } : { deliveredTs: ts }
+  if (isMongoConnected()) {
+    const before = await Receipt.findOneAndUpdate(
+      { userId, scope },
+      { $max: max, $set: { updatedAt: new Date() } },
+      { upsert: true, new: false }
+    ).lean().exec()
+    const prev = before ? toInfo(before) : { userId, scope, deliveredTs: 0, readTs: 0 }
+    const next = { ...prev, deliveredTs: Math.max(prev.deliveredTs, ts), readTs: kind === 'read' ? Math.max(prev.readTs, ts) : prev.readTs }
+    return next.deliveredTs === prev.deliveredTs && next.readTs === prev.readTs ? null : next
+  }
+  const key = `${scope}|${userId}`
+  const cur = inMemReceipts.get(key) || { userId, scope, deliveredTs: 0, readTs: 0 }
+  const next = { ...cur, deliveredTs: Math.max(cur.deliveredTs, ts), readTs: kind === 'read' ? Math.max(cur.readTs, ts) : cur.readTs }
+  if (next.deliveredTs === cur.deliveredTs && next.readTs === cur.readTs) return null
+  inMemReceipts.set(key, next)
+  return next
+}
+
+export async function listReceipts(scope: string): Promise<ReceiptInfo[]> {
+  if (isMongoConnected()) {
+    const docs = await Receipt.find({ scope }).lean().exec()
+    return docs.map(toInfo)
+  }
+  return Array.from(inMemReceipts.values()).filter((r) => r.scope === scope)
+}
+
+export function publicReceipt(r: ReceiptInfo) {
+  return { userId: r.userId, deliveredTs: r.deliveredTs, readTs: r.readTs }
+}
@@ -0,0 +1,322 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Echo contributors
+import crypto from 'crypto'
+import { isMongoConnected, Room, RoomMember, RoomInvite, RoomBan } from './db.js'
+import type { FilterOverrides } from './pipeline.js'
+
+// filters = message pipeline overrides (null = server defaults); never part of publicRoom
+export type RoomInfo = { name: string; topic: string | null; ownerId: string; isPrivate: boolean; createdAt: number; filters: FilterOverrides | null }
+export type RoomRole = 'owner' | 'moderator' | 'member'
+export type RoomMembership = { room: string; userId: string; joinedAt: number; role: RoomRole; mutedUntil: number | null }
+// until null = permanent
+export type RoomBanInfo = { room: string; userId: string; bannedBy: string; reason: string | null; until: number | null; createdAt: number }
+export type InviteInfo = { code: string; room: string; createdBy: string; createdAt: number; expiresAt: number; maxUses: number | null; uses: number }
+
+// invites expire after ROOM_INVITE_TTL_SECONDS unless the creator asks for less (never more than 30 days)
+export const ROOM_INVITE_TTL = Number(process.env.ROOM_INVITE_TTL_SECONDS || 7 * 24 * 3600)
+const MAX_INVITE_TTL = 30 * 24 * 3600
+
+// fallback stores: name -> room, "<room>|<userId>" -> membership / ban, code -> invite
+const inMemRooms = new Map<string, RoomInfo>()
+const inMemMembers = new Map<string, RoomMembership>()
+const inMemInvites = new Map<string, InviteInfo>()
+const inMemBans = new Map<string, RoomBanInfo>()
+
+const ROLE_RANK: Record<RoomRole, number> = { owner: 3, moderator: 2, member: 1 }
+export function roleRank(role: RoomRole | null | undefined) {
+  return role ? ROLE_RANK[role] : 0
+}
+
+const ROOM_NAME_RE = /^[a-z0-9][a-z0-9_-]{0,47}$/
+
+export function normalizeRoomName(raw: unknown) {
+  if (typeof raw !== 'string') return null
+  const n = raw.trim().toLowerCase()
+  return ROOM_NAME_RE.test(n) ? n : null
+}
+
+function toRoom(d: any): RoomInfo {
+  return { name: d.name, topic: d.topic ?? null, ownerId: d.ownerId, isPrivate: !!d.isPrivate, createdAt: new Date(d.createdAt).getTime(), filters: d.filters ?? null }
+}
+
+function toMembership(d: any): RoomMembership {
+  return {
+    room: d.room, userId: d.userId, joinedAt: new Date(d.joinedAt).getTime(), role: d.role || 'member',
+    mutedUntil: d.mutedUntil ? new Date(d.mutedUntil).getTime() : null,
+  }
+}
+
+function toBan(d: any): RoomBanInfo {
+  return {
+    room: d.room, userId: d.userId, bannedBy: d.bannedBy, reason: d.reason ?? null,
+    until: d.until ? new Date(d.until).getTime() : null, createdAt: new Date(d.createdAt).getTime(),
+  }
+}
+
+function toInvite(d: any): InviteInfo {
+  return {
+    code: d.code, room: d.room, createdBy: d.createdBy, createdAt: new Date(d.createdAt).getTime(),
+    expiresAt: new Date(d.expiresAt).getTime(), maxUses: d.maxUses ?? null, uses: d.uses || 0,
+  }
+}
+
+export async function findRoom(name: string): Promise<RoomInfo | null> {
+  if (isMongoConnected()) {
+    const doc = await Room.findOne({ name }).lean().exec()
+    return doc ? toRoom(doc) : null
+  }
+  return inMemRooms.get(name) || null
+}
+
+// Returns null when the name is taken; the owner becomes the first member
+export async function createRoom(input: { name: string; ownerId: string; topic?: string | null; isPrivate?: boolean }): Promise<RoomInfo | null> {
+  const room: RoomInfo = { name: input.name, topic: input.topic || null, ownerId: input.ownerId, isPrivate: !!input.isPrivate, createdAt: Date.now(), filters: null }
+  if (isMongoConnected()) {
+    try {
+      await Room.create({ ...room, createdAt: new Date(room.createdAt) })
+    } catch (e: any) {
+      if (e?.code === 11000) return null // duplicate key
+      throw e
+    }
+  } else {
+    if (inMemRooms.has(room.name)) return null
+    inMemRooms.set(room.name, room)
+  }
+  await addMember(room.name, room.ownerId, 'owner')
+  return room
+}
+
+export async function updateRoom(name: string, patch: { topic?: string | null; isPrivate?: boolean; filters?: FilterOverrides | null }): Promise<RoomInfo | null> {
+  if (isMongoConnected()) {
+    const doc = await Room.findOneAndUpdate({ name }, { $set: patch }, { new: true }).lean().exec()
+    return doc ? toRoom(doc) : null
+  }
+  const room = inMemRooms.get(name)
+  if (!room) return null
+  Object.assign(room, patch)
+  return room
+}
+
+// Public rooms for the room browser, newest first
+export async function listPublicRooms(limit = 100): Promise<RoomInfo[]> {
+  if (isMongoConnected()) {
+    const docs = await Room.find({ isPrivate: false }).sort({ createdAt: -1 }).limit(limit).lean().exec()
+    return docs.map(toRoom)
+  }
+  return Array.from(inMemRooms.values()).filter((r) => !r.isPrivate).sort((a, b) => b.createdAt - a.createdAt).slice(0, limit)
+}
+
+export async function listRoomsOf(userId: string): Promise<RoomInfo[]> {
+  if (isMongoConnected()) {
+    const names = (await RoomMember.find({ userId }).lean().exec()).map((m: any) => m.room)
+    const docs = await Room.find({ name: { $in: names } }).sort({ name: 1 }).lean().exec()
+    return docs.map(toRoom)
+  }
+  return Array.from(inMemMembers.values())
+    .filter((m) => m.userId === userId)
+    .map((m) => inMemRooms.get(m.room))
+    .filter((r): r is RoomInfo => !!r)
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+// Private rooms the user (or an anonymous reader) is not in; kept out of history listings and search
+export async function privateRoomsHiddenFrom(userId?: string | null): Promise<string[]> {
+  const mine = new Set(userId ? (await listRoomsOf(userId)).map((r) => r.name) : [])
+  if (isMongoConnected()) {
+    const docs = await Room.find({ isPrivate: true }, { name: 1 }).lean().exec()
+    return docs.map((d: any) => d.name).filter((n: string) => !mine.has(n))
+  }
+  return Array.from(inMemRooms.values()).filter((r) => r.isPrivate && !mine.has(r.name)).map((r) => r.name)
+}
+
+export async function isMember(room: string, userId: string) {
+  if (isMongoConnected()) return !!(await RoomMember.exists({ room, userId }))
+  return inMemMembers.has(`${room}|${userId}`)
+}
+
+// No-op for existing members (their role and mute are kept)
+export async function addMember(room: string, userId: string, role: RoomRole = 'member') {
+  if (isMongoConnected()) {
+    await RoomMember.updateOne({ room, userId }, { $setOnInsert: { room, userId, role, joinedAt: new Date() } }, { upsert: true })
+    return
+  }
+  const key = `${room}|${userId}`
+  if (!inMemMembers.has(key)) inMemMembers.set(key, { room, userId, joinedAt: Date.now(), role, mutedUntil: null })
+}
+
+export async function getMembership(room: string, userId: string): Promise<RoomMembership | null> {
+  if (isMongoConnected()) {
+    const doc = await RoomMember.findOne({ room, userId }).lean().exec()
+    return doc ? toMembership(doc) : null
+  }
+  return inMemMembers.get(`${room}|${userId}`) || null
+}
+
+export async function listMembers(room: string): Promise<RoomMembership[]> {
+  if (isMongoConnected()) {
+    const docs = await RoomMember.find({ room }).sort({ joinedAt: 1 }).lean().exec()
+    return docs.map(toMembership)
+  }
+  return Array.from(inMemMembers.values()).filter((m) => m.room === room).sort((a, b) => a.joinedAt - b.joinedAt)
+}
+
+// Role in a room: the owner is always 'owner'; null for non-members
+export async function roleIn(room: RoomInfo, userId: string): Promise<RoomRole | null> {
+  if (room.ownerId === userId) return 'owner'
+  const m = await getMembership(room.name, userId)
+  return m ? (m.role === 'owner' ? 'member' : m.role) : null
+}
+
+export async function setMemberRole(room: string, userId: string, role: Exclude<RoomRole, 'owner'>) {
+  if (isMongoConnected()) return (await RoomMember.updateOne({ room, userId }, { $set: { role } })).matchedCount > 0
+  const m = inMemMembers.get(`${room}|${userId}`)
+  if (m) m.role = role
+  return !!m
+}
+
+// until null lifts the mute
+export async function setMute(room: string, userId: string, until: number | null) {
+  if (isMongoConnected()) return (await RoomMember.updateOne({ room, userId }, { $set: { mutedUntil: until ? new Date(until) : null } })).matchedCount > 0
+  const m = inMemMembers.get(`${room}|${userId}`)
+  if (m) m.mutedUntil = until
+  return !!m
+}
+
+export function isMuted(m: RoomMembership | null) {
+  return !!m?.mutedUntil && m.mutedUntil > Date.now()
+}
+
+// A ban also ends the membership; an expired ban counts as none
+export async function banUser(ban: Omit<RoomBanInfo, 'createdAt'>): Promise<RoomBanInfo> {
+  const info: RoomBanInfo = { ...ban, createdAt: Date.now() }
+  if (isMongoConnected()) {
+    await RoomBan.updateOne(
+      { room: ban.room, userId: ban.userId },
+      { $set: { ...info, until: info.until ? new Date(info.until) : null, createdAt: new Date(info.createdAt) } },
+      { upsert: true }
+    )
+  } else {
+    inMemBans.set(`${ban.room}|${ban.userId}`, info)
+  }
+  await removeMember(ban.room, ban.userId)
+  return info
+}
+
+export async function unbanUser(room: string, userId: string) {
+  if (isMongoConnected()) return (await RoomBan.deleteOne({ room, userId })).deletedCount > 0
+  return inMemBans.delete(`${room}|${userId}`)
+}
+
+export async function activeBan(room: string, userId: string): Promise<RoomBanInfo | null> {
+  let ban: RoomBanInfo | null
+  if (isMongoConnected()) {
+    const doc = await RoomBan.findOne({ room, userId }).lean().exec()
+    ban = doc ? toBan(doc) : null
+  } else {
+    ban = inMemBans.get(`${room}|${userId}`) || null
+  }
+  return ban && (ban.until === null || ban.until > Date.now()) ? ban : null
+}
+
+export async function listBans(room: string): Promise<RoomBanInfo[]> {
+  const now = Date.now()
+  const all = isMongoConnected()
+    ? (await RoomBan.find({ room }).sort({ createdAt: -1 }).lean().exec()).map(toBan) as RoomBanInfo[]
+    : Array.from(inMemBans.values()).filter((b) => b.room === room).sort((a, b) => b.createdAt - a.createdAt)
+  return all.filter((b) => b.until === null || b.until > now)
+}
+
+export async function removeMember(room: string, userId: string) {
+  if (isMongoConnected()) {
+    await RoomMember.deleteOne({ room, userId })
+    return
+  }
+  inMemMembers.delete(`${room}|${userId}`)
+}
+
+export async function countMembers(room: string) {
+  if (isMongoConnected()) return RoomMember.countDocuments({ room })
+  let n = 0
+  for (const m of inMemMembers.values()) if (m.room === room) n++
+  return n
+}
+
+// Global (null) and unregistered rooms are open; a private room needs membership
+export async function canReadRoom(name: string | null, userId?: string | null) {
+  if (!name) return true
+  const room = await findRoom(name)
+  if (!room || !room.isPrivate) return true
+  return !!userId && isMember(name, userId)
+}
+
+export async function createInvite(room: string, createdBy: string, opts: { ttlSeconds?: number; maxUses?: number | null }): Promise<InviteInfo> {
+  const ttl = Math.min(Math.max(Math.floor(opts.ttlSeconds || ROOM_INVITE_TTL), 60), MAX_INVITE_TTL)
+  const now = Date.now()
+  const invite: InviteInfo = {
+    code: crypto.randomBytes(9).toString('base64url'), room, createdBy, createdAt: now, expiresAt: now + ttl * 1000,
+    maxUses: opts.maxUses && opts.maxUses > 0 ? Math.floor(opts.maxUses) : null, uses: 0,
+  }
+  if (isMongoConnected()) await RoomInvite.create({ ...invite, createdAt: new Date(invite.createdAt), expiresAt: new Date(invite.expiresAt) })
+  else inMemInvites.set(invite.code, invite)
+  return invite
+}
+
+export async function listInvites(room: string): Promise<InviteInfo[]> {
+  const now = Date.now()
+  if (isMongoConnected()) {
+    const docs = await RoomInvite.find({ room, expiresAt: { $gt: new Date(now) } }).sort({ createdAt: -1 }).lean().exec()
+    return docs.map(toInvite)
+  }
+  return Array.from(inMemInvites.values()).filter((i) => i.room === room && i.expiresAt > now).sort((a, b) => b.createdAt - a.createdAt)
+}
+
+export async function revokeInvite(room: string, code: string) {
+  if (isMongoConnected()) return (await RoomInvite.deleteOne({ room, code })).deletedCount > 0
+  const inv = inMemInvites.get(code)
+  if (!inv || inv.room !== room) return false
+  inMemInvites.delete(code)
+  return true
+}
+
+// Use up one redemption and make the user a member; null when the code is unknown, expired or used up
+// Banned users are turned away before the invite is used up
+export async function redeemInvite(code: string, userId: string): Promise<{ ok: true; room: RoomInfo } | { ok: false; error: 'invalid_invite' | 'banned' }> {
+  const now = Date.now()
+  let roomName: string | null = null
+  const target = isMongoConnected() ? ((await RoomInvite.findOne({ code }).lean().exec()) as any)?.room : inMemInvites.get(code)?.room
+  if (target && (await activeBan(target, userId))) return { ok: false, error: 'banned' }
+  if (isMongoConnected()) {
+    const doc = await RoomInvite.findOneAndUpdate(
+      { code, expiresAt: { $gt: new Date(now) }, $or: [{ maxUses: null }, { $expr: { $lt: ['$uses', '$maxUses'] } }] },
+      { $inc: { uses: 1 } },
+      { new: true }
+    ).lean().exec()
+    roomName = doc ? (doc as any).room : null
+  } else {
+    const inv = inMemInvites.get(code)
+    if (inv && inv.expiresAt > now && (inv.maxUses == null || inv.uses < inv.maxUses)) {
+      inv.uses++
+      roomName = inv.room
+    }
+  }
+  const room = roomName ? await findRoom(roomName) : null
+  if (!room) return { ok: false, error: 'invalid_invite' }
+  await addMember(room.name, userId)
+  return { ok: true, room }
+}
+
+export function publicRoom(r: RoomInfo, extra: { memberCount?: number; member?: boolean } = {}) {
+  return { name: r.name, topic: r.topic, ownerId: r.ownerId, isPrivate: r.isPrivate, createdAt: r.createdAt, ...extra }
+}
+
+export function publicMember(m: RoomMembership, ownerId: string) {
+  return { userId: m.userId, role: m.userId === ownerId ? 'owner' : m.role === 'owner' ? 'member' : m.role, joinedAt: m.joinedAt, mutedUntil: isMuted(m) ? m.mutedUntil : null }
+}
+
+export function publicBan(b: RoomBanInfo) {
+  return { userId: b.userId, bannedBy: b.bannedBy, reason: b.reason, until: b.until, createdAt: b.createdAt }
+}
+
+export function publicInvite(i: InviteInfo) {
+  return { code: i.code, room: i.room, createdBy: i.createdBy, expiresAt: i.expiresAt, maxUses: i.maxUses, uses: i.uses }
+}
@@ -0,0 +1,197 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Echo contributors
+import crypto from 'crypto'
+import { isMongoConnected, Schedule } from './db.js'
+
+// Something a user asked the server to do later: post a message (to a room, or a DM to `to`),
+// or remind them of a message (messageId) and/or a note. Pending schedules are swept by every instance.
+export type ScheduleKind = 'message' | 'reminder'
+export type ScheduleStatus = 'pending' | 'sent' | 'failed' | 'canceled'
+export type ScheduleInfo = {
+  scheduleId: string
+  kind: ScheduleKind
+  userId: string
+  sendAt: number
+  room: string | null
+  to: string | null
+  text: string | null
+  messageId: string | null
+  note: string | null
+  status: ScheduleStatus
+  error: string | null
+  // set while an instance runs it, so others do not pick it up too
+  claimedUntil: number | null
+  attempts: number
+  createdAt: number
+  completedAt: number | null
+  // the message a scheduled message turned into
+  sentMessageId: string | null
+}
+export type ScheduleInput = Pick<ScheduleInfo, 'kind' | 'sendAt' | 'room' | 'to' | 'text' | 'messageId' | 'note'>
+// What running a schedule came to; a run that throws is tried again once its claim lapses
+export type ScheduleOutcome = { ok: true; messageId?: string } | { ok: false; error: string }
+
+export const SCHEDULE_STATUSES: ScheduleStatus[] = ['pending', 'sent', 'failed', 'canceled']
+export const MAX_PENDING_SCHEDULES = 100
+export const MAX_SCHEDULE_SECONDS = 365 * 24 * 3600
+export const MAX_REMINDER_NOTE = 200
+const MAX_ATTEMPTS = 3
+const CLAIM_MS = 60_000
+const SWEEP_MS = Number(process.env.SCHEDULE_SWEEP_SECONDS || 5) * 1000
+
+// fallback store: scheduleId -> schedule
+const inMemSchedules = new Map<string, ScheduleInfo>()
+
+function toSchedule(d: any): ScheduleInfo {
+  return {
+    scheduleId: d.scheduleId, kind: d.kind, userId: d.userId, sendAt: d.sendAt, room: d.room ?? null, to: d.to ?? null, text: d.text ?? null,
+    messageId: d.messageId ?? null, note: d.note ?? null, status: d.status, error: d.error ?? null, claimedUntil: d.claimedUntil ?? null,
+    attempts: d.attempts || 0, createdAt: d.createdAt, completedAt: d.completedAt ?? null, sentMessageId: d.sentMessageId ?? null,
+  }
+}
+
+// Validate a POST /schedules body: { kind: 'message', room | to, text } or { kind: 'reminder', messageId?, note? },
+// each with sendAt (epoch ms) or inSeconds. Room names and DM targets are checked by the caller.
+export function parseSchedule(raw: any): { ok: true; input: ScheduleInput } | { ok: false; error: 'invalid_schedule' | 'invalid_time' } {
+  const bad = { ok: false as const, error: 'invalid_schedule' as const }
+  if (!raw || typeof raw !== 'object') return bad
+  const now = Date.now()
+  if ((raw.sendAt == null) === (raw.inSeconds == null)) return { ok: false, error: 'invalid_time' }
+  const sendAt = raw.sendAt != null ? raw.sendAt : now + raw.inSeconds * 1000
+  if (!Number.isInteger(sendAt) || sendAt <= now || sendAt > now + MAX_SCHEDULE_SECONDS * 1000) return { ok: false, error: 'invalid_time' }
+  const str = (v: unknown) => (typeof v === 'string' && v.trim() ? v.trim() : null)
+  if (raw.kind === 'message') {
+    const room = str(raw.room)
+    const to = str(raw.to)
+    if (typeof raw.text !== 'string' || !raw.text.trim() || (!room) === (!to)) return bad
+    return { ok: true, input: { kind: 'message', sendAt, room, to, text: raw.text, messageId: null, note: null } }
+  }
+  if (raw.kind === 'reminder') {
+    const messageId = str(raw.messageId)
+    const note = str(raw.note)
+    if ((raw.note != null && typeof raw.note !== 'string') || (note && note.length > MAX_REMINDER_NOTE) || (!messageId && !note)) return bad
+    return { ok: true, input: { kind: 'reminder', sendAt, room: null, to: null, text: null, messageId, note } }
+  }
+  return bad
+}
+
+export async function createSchedule(userId: string, input: ScheduleInput): Promise<ScheduleInfo> {
+  const s: ScheduleInfo = {
+    ...input, userId, scheduleId: crypto.randomUUID(), status: 'pending', error: null, claimedUntil: null, attempts: 0,
+    createdAt: Date.now(), completedAt: null, sentMessageId: null,
+  }
+  if (isMongoConnected()) await Schedule.create(s)
+  else inMemSchedules.set(s.scheduleId, s)
+  return s
+}
+
+export async function countPendingSchedules(userId: string): Promise<number> {
+  if (isMongoConnected()) return Schedule.countDocuments({ userId, status: 'pending' })
+  return Array.from(inMemSchedules.values()).filter((s) => s.userId === userId && s.status === 'pending').length
+}
+
+// A user's schedules with this status, soonest first
+export async function listSchedules(userId: string, status: ScheduleStatus = 'pending', limit = 200): Promise<ScheduleInfo[]> {
+  if (isMongoConnected()) {
+    const docs = await Schedule.find({ userId, status }).sort({ sendAt: 1 }).limit(limit).lean().exec()
+    return docs.map(toSchedule)
+  }
+  return Array.from(inMemSchedules.values())
+    .filter((s) => s.userId === userId && s.status === status)
+    .sort((a, b) => a.sendAt - b.sendAt)
+    .slice(0, limit)
+}
+
+export async function findSchedule(userId: string, scheduleId: string): Promise<ScheduleInfo | null> {
+  if (isMongoConnected()) {
+    const doc = await Schedule.findOne({ userId, scheduleId }).lean().exec()
+    return doc ? toSchedule(doc) : null
+  }
+  const s = inMemSchedules.get(scheduleId)
+  return s && s.userId === userId ? { ...s } : null
+}
+
+// Only a pending schedule that no instance is running right now can be canceled
+export async function cancelSchedule(userId: string, scheduleId: string): Promise<ScheduleInfo | null> {
+  const now = Date.now()
+  if (isMongoConnected()) {
+    const doc = await Schedule.findOneAndUpdate(
+      { userId, scheduleId, status: 'pending', $or: [{ claimedUntil: null }, { claimedUntil: { $lte: now } }] },
+      { $set: { status: 'canceled', completedAt: now, claimedUntil: null } },
+      { new: true },
+    ).lean().exec()
+    return doc ? toSchedule(doc) : null
+  }
+  const s = inMemSchedules.get(scheduleId)
+  if (!s || s.userId !== userId || s.status !== 'pending' || (s.claimedUntil !== null && s.claimedUntil > now)) return null
+  Object.assign(s, { status: 'canceled', completedAt: now, claimedUntil: null })
+  return { ...s }
+}
+
+async function finishSchedule(scheduleId: string, set: Partial<ScheduleInfo>): Promise<ScheduleInfo | null> {
+  if (isMongoConnected()) {
+    const doc = await Schedule.findOneAndUpdate({ scheduleId }, { $set: set }, { new: true }).lean().exec()
+    return doc ? toSchedule(doc) : null
+  }
+  const s = inMemSchedules.get(scheduleId)
+  if (!s) return null
+  Object.assign(s, set)
+  return { ...s }
+}
+
+// Take one due schedule for this instance
+async function claimDue(now: number): Promise<ScheduleInfo | null> {
+  if (isMongoConnected()) {
+    const doc = await Schedule.findOneAndUpdate(
+      { status: 'pending', sendAt: { $lte: now }, $or: [{ claimedUntil: null }, { claimedUntil: { $lte: now } }] },
+      { $set: { claimedUntil: now + CLAIM_MS }, $inc: { attempts: 1 } },
+      { sort: { sendAt: 1 }, new: true },
+    ).lean().exec()
+    return doc ? toSchedule(doc) : null
+  }
+  for (const s of inMemSchedules.values()) {
+    if (s.status === 'pending' && s.sendAt <= now && (s.claimedUntil === null || s.claimedUntil <= now)) {
+      s.claimedUntil = now + CLAIM_MS
+      s.attempts += 1
+      return { ...s }
+    }
+  }
+  return null
+}
+
+// Run due schedules every few seconds on every instance; with Mongo, schedules that came due while
+// the server was down go out on the first sweep. onDone hears about every schedule that finished.
+export function startScheduler(run: (s: ScheduleInfo) => Promise<ScheduleOutcome>, onDone: (s: ScheduleInfo) => void) {
+  let sweeping = false
+  setInterval(async () => {
+    if (sweeping) return
+    sweeping = true
+    try {
+      for (let s = await claimDue(Date.now()); s; s = await claimDue(Date.now())) {
+        let outcome: ScheduleOutcome
+        try {
+          outcome = await run(s)
+        } catch (e) {
+          console.error('Scheduled run failed', e)
+          if (s.attempts < MAX_ATTEMPTS) continue
+          outcome = { ok: false, error: 'delivery_failed' }
+        }
+        const done = await finishSchedule(s.scheduleId, outcome.ok
+          ? { status: 'sent', error: null, claimedUntil: null, completedAt: Date.now(), sentMessageId: outcome.messageId ?? null }
+          : { status: 'failed', error: outcome.error, claimedUntil: null, completedAt: Date.now() })
+        if (done) onDone(done)
+      }
+    } catch (e) {
+      console.error('Schedule sweep failed', e)
+    } finally {
+      sweeping = false
+    }
+  }, SWEEP_MS).unref()
+}
+
+export function publicSchedule(s: ScheduleInfo) {
+  return {
+    id: s.scheduleId, kind: s.kind, sendAt: s.sendAt, room: s.room, to: s.to, text: s.text, messageId: s.messageId, note: s.note,
+    status: s.status, error: s.error, createdAt: s.createdAt, completedAt: s.completedAt, sentMessageId: s.sentMessageId,
+  }
+}
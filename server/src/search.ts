@@ -0,0 +1,60 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Echo contributors
+
+// In-memory full-text index used when Mongo is not connected: token -> message ids
+const inMemIndex = new Map<string, Set<string>>()
+
+// Lowercased letter/digit runs; the same rule is applied to messages and queries
+export function tokenize(text: string) {
+  return Array.from(new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean)))
+}
+
+export function indexText(messageId: string, text: string) {
+  for (const t of tokenize(text)) {
+    let ids = inMemIndex.get(t)
+    if (!ids) inMemIndex.set(t, (ids = new Set()))
+    ids.add(messageId)
+  }
+}
+
+export function unindexText(messageId: string, text: string) {
+  for (const t of tokenize(text)) {
+    const ids = inMemIndex.get(t)
+    if (!ids) continue
+    ids.delete(messageId)
+    if (ids.size === 0) inMemIndex.delete(t)
+  }
+}
+
+// Ids of messages containing every term
+export function matchIds(terms: string[]) {
+  if (terms.length === 0) return new Set<string>()
+  const sets = terms.map((t) => inMemIndex.get(t) || new Set<string>()).sort((a, b) => a.size - b.size)
+  return new Set(Array.from(sets[0]).filter((id) => sets.every((s) => s.has(id))))
+}
+
+// Up to ~SNIPPET_RADIUS chars either side of the first hit, with [start, end) ranges of every term in the snippet
+const SNIPPET_RADIUS = 60
+export function highlightSnippet(text: string, terms: string[]) {
+  const lower = text.toLowerCase()
+  const first = Math.min(...terms.map((t) => lower.indexOf(t)).filter((i) => i >= 0))
+  const at = Number.isFinite(first) ? first : 0
+  const start = Math.max(0, at - SNIPPET_RADIUS)
+  const end = Math.min(text.length, at + SNIPPET_RADIUS)
+  const prefix = start > 0 ? '…' : ''
+  const snippet = prefix + text.slice(start, end) + (end < text.length ? '…' : '')
+  const body = lower.slice(start, end)
+  const highlights: Array<[number, number]> = []
+  for (const t of terms) {
+    for (let i = body.indexOf(t); i >= 0; i = body.indexOf(t, i + t.length)) highlights.push([prefix.length + i, prefix.length + i + t.length])
+  }
+  highlights.sort((a, b) => a[0] - b[0])
+  // overlapping hits (e.g. "echo" inside "echoes") collapse into one range
+  const merged: Array<[number, number]> = []
+  for (const h of highlights) {
+    const prev = merged[merged.length - 1]
+    if (prev && h[0] <= prev[1]) prev[1] = Math.max(prev[1], h[1])
+    else merged.push([h[0], h[1]])
+  }
+  return { snippet, highlights: merged }
+}
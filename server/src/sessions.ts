@@ -0,0 +1,188 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Echo contributors
+import crypto from 'crypto'
+import { isMongoConnected, Session } from './db.js'
+
+export const ACCESS_TOKEN_TTL = Number(process.env.ACCESS_TOKEN_TTL_SECONDS || 900)
+export const REFRESH_TOKEN_TTL = Number(process.env.REFRESH_TOKEN_TTL_SECONDS || 30 * 24 * 3600)
+// lastUsedAt is only written when older than this, to keep per-request cost low
+const TOUCH_INTERVAL_MS = 60_000
+// the token a rotation just replaced answers 409 instead of revoking the session for this long (two tabs refreshing at once)
+const ROTATION_GRACE_MS = 60_000
+
+export type SessionInfo = {
+  sessionId: string
+  userId: string
+  refreshHash: string
+  device?: string
+  ip?: string
+  createdAt: number
+  lastUsedAt: number
+  expiresAt: number
+  revokedAt: number | null
+  // hash replaced by the last rotation, and when
+  previousHash: string | null
+  rotatedAt: number | null
+}
+
+// fallback session store: sessionId -> session
+const inMemSessions = new Map<string, SessionInfo>()
+const revokeListeners: Array<(s: SessionInfo) => void> = []
+// drop expired and revoked sessions so the fallback store does not grow forever
+setInterval(() => {
+  const now = Date.now()
+  for (const [id, s] of inMemSessions) if (!isLive(s, now)) inMemSessions.delete(id)
+}, 60_000).unref()
+
+function sha256(v: string) {
+  return crypto.createHash('sha256').update(v).digest('hex')
+}
+
+// Refresh tokens are "<sessionId>.<secret>"; only the hash of the secret is stored
+function newRefreshToken(sessionId: string) {
+  const secret = crypto.randomBytes(32).toString('base64url')
+  return { token: `${sessionId}.${secret}`, hash: sha256(secret) }
+}
+
+function parseRefreshToken(token: string) {
+  const dot = token.indexOf('.')
+  if (dot <= 0) return null
+  return { sessionId: token.slice(0, dot), secret: token.slice(dot + 1) }
+}
+
+function toInfo(d: any): SessionInfo {
+  return {
+    sessionId: d.sessionId, userId: d.userId, refreshHash: d.refreshHash, device: d.device || undefined, ip: d.ip || undefined,
+    createdAt: new Date(d.createdAt).getTime(), lastUsedAt: new Date(d.lastUsedAt).getTime(),
+    expiresAt: new Date(d.expiresAt).getTime(), revokedAt: d.revokedAt ? new Date(d.revokedAt).getTime() : null,
+    previousHash: d.previousHash ?? null, rotatedAt: d.rotatedAt ? new Date(d.rotatedAt).getTime() : null,
+  }
+}
+
+async function getSession(sessionId: string): Promise<SessionInfo | null> {
+  if (isMongoConnected()) {
+    const doc = await Session.findOne({ sessionId }).lean().exec()
+    return doc ? toInfo(doc) : null
+  }
+  return inMemSessions.get(sessionId) || null
+}
+
+function toSet(patch: Partial<SessionInfo>) {
+  const set: any = {}
+  for (const [k, v] of Object.entries(patch)) set[k] = typeof v === 'number' ? new Date(v) : v
+  return set
+}
+
+async function updateSession(sessionId: string, patch: Partial<SessionInfo>) {
+  if (isMongoConnected()) {
+    await Session.updateOne({ sessionId }, { $set: toSet(patch) })
+    return
+  }
+  const cur = inMemSessions.get(sessionId)
+  if (cur) Object.assign(cur, patch)
+}
+
+// Apply a rotation only if the session still holds refreshHash and is not revoked; false when another request got there first
+async function swapRefreshHash(sessionId: string, refreshHash: string, patch: Partial<SessionInfo>) {
+  if (isMongoConnected()) {
+    const r = await Session.updateOne({ sessionId, refreshHash, revokedAt: null }, { $set: toSet(patch) })
+    return r.modifiedCount === 1
+  }
+  const cur = inMemSessions.get(sessionId)
+  if (!cur || cur.refreshHash !== refreshHash || cur.revokedAt) return false
+  Object.assign(cur, patch)
+  return true
+}
+
+function isLive(s: SessionInfo, now = Date.now()) {
+  return !s.revokedAt && s.expiresAt > now
+}
+
+// Called whenever a session is revoked (e.g. to drop its sockets)
+export function onSessionRevoked(fn: (s: SessionInfo) => void) {
+  revokeListeners.push(fn)
+}
+
+export async function createSession(userId: string, meta: { device?: string; ip?: string }) {
+  const sessionId = crypto.randomUUID()
+  const { token, hash } = newRefreshToken(sessionId)
+  const now = Date.now()
+  const info: SessionInfo = {
+    sessionId, userId, refreshHash: hash, device: meta.device?.slice(0, 256), ip: meta.ip,
+    createdAt: now, lastUsedAt: now, expiresAt: now + REFRESH_TOKEN_TTL * 1000, revokedAt: null, previousHash: null, rotatedAt: null,
+  }
+  if (isMongoConnected()) {
+    await Session.create({ ...info, createdAt: new Date(now), lastUsedAt: new Date(now), expiresAt: new Date(info.expiresAt) })
+  } else {
+    inMemSessions.set(sessionId, info)
+  }
+  return { session: info, refreshToken: token }
+}
+
+export type RotateResult =
+  | { ok: true; session: SessionInfo; refreshToken: string; accessToken: string }
+  | { ok: false; error: 'invalid_refresh_token' | 'refresh_conflict' }
+
+// Rotate a refresh token. Presenting an already-rotated token revokes the session (likely theft), except the one
+// a concurrent refresh has just replaced: that answers refresh_conflict, and the caller retries with the new token.
+// The access token is issued before the new hash is saved: if issuing fails, the presented token stays valid.
+export async function rotateRefreshToken(refreshToken: string, meta: { ip?: string }, issue: (s: SessionInfo) => Promise<string>): Promise<RotateResult> {
+  const invalid = { ok: false as const, error: 'invalid_refresh_token' as const }
+  const conflict = { ok: false as const, error: 'refresh_conflict' as const }
+  const parsed = parseRefreshToken(refreshToken)
+  if (!parsed) return invalid
+  const s = await getSession(parsed.sessionId)
+  if (!s || !isLive(s)) return invalid
+  const presented = sha256(parsed.secret)
+  if (presented !== s.refreshHash) {
+    if (presented === s.previousHash && s.rotatedAt !== null && Date.now() - s.rotatedAt < ROTATION_GRACE_MS) return conflict
+    await revokeSession(s.sessionId)
+    return invalid
+  }
+  const accessToken = await issue(s)
+  const { token, hash } = newRefreshToken(s.sessionId)
+  const now = Date.now()
+  const patch = { refreshHash: hash, previousHash: presented, rotatedAt: now, lastUsedAt: now, ip: meta.ip || s.ip, expiresAt: now + REFRESH_TOKEN_TTL * 1000 }
+  if (!(await swapRefreshHash(s.sessionId, presented, patch))) return conflict
+  return { ok: true, session: { ...s, ...patch }, refreshToken: token, accessToken }
+}
+
+// True when the session exists, belongs to userId and is neither revoked nor expired
+export async function isSessionActive(sessionId: string, userId: string) {
+  const s = await getSession(sessionId)
+  if (!s || s.userId !== userId || !isLive(s)) return false
+  const now = Date.now()
+  if (now - s.lastUsedAt > TOUCH_INTERVAL_MS) updateSession(sessionId, { lastUsedAt: now }).catch(() => {})
+  return true
+}
+
+export async function listSessions(userId: string): Promise<SessionInfo[]> {
+  const now = Date.now()
+  if (isMongoConnected()) {
+    const docs = await Session.find({ userId, revokedAt: null, expiresAt: { $gt: new Date(now) } }).sort({ lastUsedAt: -1 }).lean().exec()
+    return docs.map(toInfo)
+  }
+  return Array.from(inMemSessions.values())
+    .filter((s) => s.userId === userId && isLive(s, now))
+    .sort((a, b) => b.lastUsedAt - a.lastUsedAt)
+}
+
+export async function revokeSession(sessionId: string) {
+  const s = await getSession(sessionId)
+  if (!s || s.revokedAt) return false
+  const now = Date.now()
+  await updateSession(sessionId, { revokedAt: now })
+  const revoked = { ...s, revokedAt: now }
+  revokeListeners.forEach((fn) => { try { fn(revoked) } catch {} })
+  return true
+}
+
+export async function getSessionOwner(sessionId: string) {
+  const s = await getSession(sessionId)
+  return s ? s.userId : null
+}
+
+// Public view of a session for listing
+export function publicSession(s: SessionInfo, currentSessionId?: string) {
+  return { sessionId: s.sessionId, device: s.device || null, ip: s.ip || null, createdAt: s.createdAt, lastUsedAt: s.lastUsedAt, current: s.sessionId === currentSessionId }
+}
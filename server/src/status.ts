@@ -0,0 +1,62 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Echo contributors
+import { isMongoConnected, User } from './db.js'
+
+export type StatusState = 'available' | 'away' | 'busy' | 'dnd'
+// A user-chosen status; expiresAt null = until changed. No stored status means available.
+export type CustomStatus = { state: StatusState; text: string | null; expiresAt: number | null }
+
+export const STATUS_STATES: StatusState[] = ['available', 'away', 'busy', 'dnd']
+export const MAX_STATUS_TEXT = 100
+export const MAX_STATUS_SECONDS = 7 * 24 * 3600
+
+// fallback status store: userId -> status
+const inMemStatus = new Map<string, CustomStatus>()
+
+// Validate { state, text?, expiresInSeconds? }; null status = back to plain available
+export function parseStatus(raw: any): { ok: true; status: CustomStatus | null } | { ok: false; error: 'invalid_state' | 'invalid_text' | 'invalid_duration' } {
+  if (!STATUS_STATES.includes(raw?.state)) return { ok: false, error: 'invalid_state' }
+  if (raw.text != null && (typeof raw.text !== 'string' || raw.text.trim().length > MAX_STATUS_TEXT)) return { ok: false, error: 'invalid_text' }
+  const secs = raw.expiresInSeconds
+  if (secs != null && (!Number.isInteger(secs) || secs <= 0 || secs > MAX_STATUS_SECONDS)) return { ok: false, error: 'invalid_duration' }
+  const text = typeof raw.text === 'string' && raw.text.trim() ? raw.text.trim() : null
+  if (raw.state === 'available' && !text) return { ok: true, status: null }
+  return { ok: true, status: { state: raw.state, text, expiresAt: secs != null ? Date.now() + secs * 1000 : null } }
+}
+
+function live(s: CustomStatus | null | undefined): CustomStatus | null {
+  if (!s?.state || (s.expiresAt !== null && s.expiresAt <= Date.now())) return null
+  return s
+}
+
+export async function setCustomStatus(userId: string, status: CustomStatus | null) {
+  if (isMongoConnected()) {
+    await User.updateOne({ userId }, { $set: { customStatus: status } })
+    return
+  }
+  if (status) inMemStatus.set(userId, status)
+  else inMemStatus.delete(userId)
+}
+
+// Current statuses of the given users; expired and unset ones are left out
+export async function customStatusesOf(userIds: string[]): Promise<Map<string, CustomStatus>> {
+  const out = new Map<string, CustomStatus>()
+  if (userIds.length === 0) return out
+  if (isMongoConnected()) {
+    const docs = await User.find({ userId: { $in: userIds } }, { userId: 1, customStatus: 1 }).lean().exec()
+    for (const d of docs as any[]) {
+      const s = live(d.customStatus && { state: d.customStatus.state, text: d.customStatus.text ?? null, expiresAt: d.customStatus.expiresAt ?? null })
+      if (s) out.set(d.userId, s)
+    }
+    return out
+  }
+  for (const id of userIds) {
+    const s = live(inMemStatus.get(id))
+    if (s) out.set(id, s)
+  }
+  return out
+}
+
+export async function customStatusOf(userId: string): Promise<CustomStatus | null> {
+  return (await customStatusesOf([userId])).get(userId) || null
+}
@@ -0,0 +1,40 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Echo contributors
+import fs from 'fs/promises'
+import path from 'path'
+
+// Where uploaded bytes live. Keys are server-generated ("<id>" / "<id>.thumb"), never user input.
+export interface BlobStorage {
+  put(key: string, data: Buffer): Promise<void>
+  get(key: string): Promise<Buffer | null>
+  remove(key: string): Promise<void>
+}
+
+// Default driver: one file per key under UPLOAD_DIR
+export function localDiskStorage(dir: string): BlobStorage {
+  const fileFor = (key: string) => path.join(dir, path.basename(key))
+  let ready: Promise<unknown> | null = null
+  const ensureDir = () => (ready ||= fs.mkdir(dir, { recursive: true }))
+  return {
+    async put(key, data) {
+      await ensureDir()
+      await fs.writeFile(fileFor(key), data)
+    },
+    async get(key) {
+      try { return await fs.readFile(fileFor(key)) } catch (e: any) {
+        if (e?.code === 'ENOENT') return null
+        throw e
+      }
+    },
+    async remove(key) {
+      await fs.rm(fileFor(key), { force: true })
+    },
+  }
+}
+
+// STORAGE_DRIVER selects the backend; an S3-compatible driver can be added here behind the same interface
+export function createStorage(): BlobStorage {
+  const driver = process.env.STORAGE_DRIVER || 'local'
+  if (driver === 'local') return localDiskStorage(process.env.UPLOAD_DIR || path.resolve('uploads'))
+  throw new Error(`Unknown STORAGE_DRIVER "${driver}"`)
+}
@@ -0,0 +1,75 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Echo contributors
+import type { Redis } from 'ioredis'
+
+// A typing flag lapses unless the client re-sends typing:start within this window
+export const TYPING_TTL_MS = Number(process.env.TYPING_TTL_SECONDS || 6) * 1000
+
+export type Typist = { socketId: string; userId: string; name: string; expiresAt: number }
+
+// fallback typing store: key -> socketId -> typist
+const inMemTyping = new Map<string, Map<string, Typist>>()
+
+// Redis: sorted set `typing:<scope>` of socket ids scored by expiry, plus `typing:<scope>:who` with their identity.
+// Both keys expire TYPING_TTL_MS after the last typing:start, so entries of crashed clients or nodes do not linger
+export function typingKey(scope: { room?: string | null; conversationId?: string | null }) {
+  return `typing:${scope.conversationId || scope.room || 'global'}`
+}
+
+// Returns true when the socket was not already typing here
+export async function startTyping(redis: Redis | null, key: string, t: Omit<Typist, 'expiresAt'>) {
+  const expiresAt = Date.now() + TYPING_TTL_MS
+  if (redis) {
+    const added = await redis.zadd(key, String(expiresAt), t.socketId)
+    await redis.hset(`${key}:who`, t.socketId, JSON.stringify({ userId: t.userId, name: t.name }))
+    await redis.pexpire(key, TYPING_TTL_MS)
+    await redis.pexpire(`${key}:who`, TYPING_TTL_MS)
+    return Number(added) > 0
+  }
+  let set = inMemTyping.get(key)
+  if (!set) inMemTyping.set(key, (set = new Map()))
+  const prev = set.get(t.socketId)
+  set.set(t.socketId, { ...t, expiresAt })
+  return !prev || prev.expiresAt <= Date.now()
+}
+
+// Returns true when the socket was typing here
+export async function stopTyping(redis: Redis | null, key: string, socketId: string) {
+  if (redis) {
+    const removed = await redis.zrem(key, socketId)
+    await redis.hdel(`${key}:who`, socketId)
+    return removed > 0
+  }
+  const set = inMemTyping.get(key)
+  const had = !!set?.delete(socketId)
+  if (set && set.size === 0) inMemTyping.delete(key)
+  return had
+}
+
+// Live typists, expired entries dropped
+export async function listTyping(redis: Redis | null, key: string): Promise<Typist[]> {
+  const now = Date.now()
+  if (redis) {
+    const expired = await redis.zrangebyscore(key, 0, now)
+    if (expired.length) {
+      await redis.hdel(`${key}:who`, ...expired)
+      await redis.zremrangebyscore(key, 0, now)
+    }
+    const rows = await redis.zrange(key, 0, -1, 'WITHSCORES')
+    const out: Typist[] = []
+    for (let i = 0; i < rows.length; i += 2) {
+      const who = await redis.hget(`${key}:who`, rows[i])
+      const parsed = who ? JSON.parse(who) : {}
+      out.push({ socketId: rows[i], userId: parsed.userId || '', name: parsed.name || 'Anonymous', expiresAt: Number(rows[i + 1]) })
+    }
+    return out
+  }
+  return Array.from(inMemTyping.get(key)?.values() || []).filter((t) => t.expiresAt > now)
+}
+
+// One entry per user (a user may type from several sockets)
+export function publicTyping(list: Typist[]) {
+  const byUser = new Map<string, { userId: string; name: string }>()
+  for (const t of list) if (!byUser.has(t.userId)) byUser.set(t.userId, { userId: t.userId, name: t.name })
+  return Array.from(byUser.values())
+}
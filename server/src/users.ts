@@ -0,0 +1,76 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Echo contributors
+import crypto from 'crypto'
+import { isMongoConnected, User } from './db.js'
+
+export type Account = { userId: string; username: string; name?: string; passwordHash: string; createdAt: number }
+
+// fallback account store: username -> account
+const inMemUsers = new Map<string, Account>()
+
+const USERNAME_RE = /^[a-z0-9_.-]{3,32}$/
+
+export function normalizeUsername(raw: unknown) {
+  if (typeof raw !== 'string') return null
+  const u = raw.trim().toLowerCase()
+  return USERNAME_RE.test(u) ? u : null
+}
+
+function toAccount(d: any): Account {
+  return { userId: d.userId, username: d.username, name: d.name || undefined, passwordHash: d.passwordHash, createdAt: new Date(d.createdAt).getTime() }
+}
+
+export async function findAccountByUsername(username: string): Promise<Account | null> {
+  if (isMongoConnected()) {
+    const doc = await User.findOne({ username }).lean().exec()
+    return doc ? toAccount(doc) : null
+  }
+  return inMemUsers.get(username) || null
+}
+
+export async function findAccountById(userId: string): Promise<Account | null> {
+  if (isMongoConnected()) {
+    const doc = await User.findOne({ userId }).lean().exec()
+    return doc ? toAccount(doc) : null
+  }
+  for (const acc of inMemUsers.values()) if (acc.userId === userId) return acc
+  return null
+}
+
+// Returns null when the username is already taken
+export async function createAccount(input: { username: string; name?: string; passwordHash: string }): Promise<Account | null> {
+  const acc: Account = { userId: crypto.randomUUID(), username: input.username, name: input.name, passwordHash: input.passwordHash, createdAt: Date.now() }
+  if (isMongoConnected()) {
+    try {
+      await User.create({ ...acc, createdAt: new Date(acc.createdAt) })
+      return acc
+    } catch (e: any) {
+      if (e?.code === 11000) return null // duplicate key
+      throw e
+    }
+  }
+  if (inMemUsers.has(acc.username)) return null
+  inMemUsers.set(acc.username, acc)
+  return acc
+}
+
+const MAX_DISPLAY_NAME = 32
+
+export function normalizeDisplayName(raw: unknown) {
+  if (typeof raw !== 'string') return null
+  const name = raw.trim()
+  return name && name.length <= MAX_DISPLAY_NAME && !/[\p{Cc}]/u.test(name) ? name : null
+}
+
+export async function setDisplayName(userId: string, name: string) {
+  if (isMongoConnected()) {
+    await User.updateOne({ userId }, { $set: { name } })
+    return
+  }
+  for (const acc of inMemUsers.values()) if (acc.userId === userId) acc.name = name
+}
+
+// Public profile (never expose the hash)
+export function publicProfile(acc: Account) {
+  return { userId: acc.userId, username: acc.username, name: acc.name || acc.username }
+}
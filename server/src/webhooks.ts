@@ -0,0 +1,334 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Echo contributors
+import crypto from 'crypto'
+import dns from 'dns/promises'
+import net from 'net'
+import { isMongoConnected, Webhook, WebhookDelivery } from './db.js'
+
+export type WebhookEvent =
+  | 'message.created' | 'message.edited' | 'message.deleted'
+  | 'member.joined' | 'member.left'
+  | 'call.started' | 'call.ended'
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['message.created', 'message.edited', 'message.deleted', 'member.joined', 'member.left', 'call.started', 'call.ended']
+
+// A room's subscription: events are POSTed to url, signed with secret. botId is set when the webhook feeds a bot
+export type WebhookInfo = { webhookId: string; room: string; url: string; events: WebhookEvent[]; secret: string; active: boolean; createdBy: string; createdAt: number; botId: string | null }
+// One event sent to one webhook; pending deliveries are retried until they succeed or run out of attempts
+export type DeliveryStatus = 'pending' | 'succeeded' | 'failed'
+export type DeliveryInfo = {
+  deliveryId: string
+  webhookId: string
+  event: WebhookEvent | 'ping'
+  body: string
+  status: DeliveryStatus
+  attempts: number
+  responseStatus: number | null
+  error: string | null
+  nextAttemptAt: number | null
+  createdAt: number
+  completedAt: number | null
+}
+
+export const MAX_WEBHOOKS_PER_ROOM = 10
+// attempt n+1 waits WEBHOOK_RETRY_BASE_SECONDS * 4^(n-1): 10 s, 40 s, ~3 min, ~11 min, ~43 min
+const MAX_ATTEMPTS = 6
+const RETRY_BASE_MS = Number(process.env.WEBHOOK_RETRY_BASE_SECONDS || 10) * 1000
+const DELIVERY_TIMEOUT_MS = 10_000
+// a claimed delivery is not picked up again for this long, so instances do not send it twice
+const CLAIM_MS = 60_000
+const SWEEP_MS = 5_000
+
+// fallback stores: webhookId -> webhook, deliveryId -> delivery (capped)
+const inMemHooks = new Map<string, WebhookInfo>()
+const inMemDeliveries = new Map<string, DeliveryInfo>()
+const IN_MEM_DELIVERY_CAP = 5000
+
+function toHook(d: any): WebhookInfo {
+  return { webhookId: d.webhookId, room: d.room, url: d.url, events: d.events || [], secret: d.secret, active: d.active !== false, createdBy: d.createdBy, createdAt: d.createdAt, botId: d.botId ?? null }
+}
+
+function toDelivery(d: any): DeliveryInfo {
+  return {
+    deliveryId: d.deliveryId, webhookId: d.webhookId, event: d.event, body: d.body, status: d.status, attempts: d.attempts || 0,
+    responseStatus: d.responseStatus ?? null, error: d.error ?? null, nextAttemptAt: d.nextAttemptAt ?? null, createdAt: d.createdAt, completedAt: d.completedAt ?? null,
+  }
+}
+
+// Webhooks only reach public addresses: loopback, private, link-local, unique-local and similar ranges are refused
+// unless the URL's host is listed in WEBHOOK_ALLOWED_HOSTS (comma-separated, e.g. "localhost" for scripts/webhook-receiver.js)
+const ALLOWED_HOSTS = new Set((process.env.WEBHOOK_ALLOWED_HOSTS || '').split(',').map((h) => h.trim().toLowerCase()).filter(Boolean))
+const blocked = new net.BlockList()
+for (const [net4, bits] of [['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]] as const) {
+  blocked.addSubnet(net4, bits, 'ipv4')
+}
+for (const [net6, bits] of [['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  blocked.addSubnet(net6, bits, 'ipv6')
+}
+
+function isBlockedAddress(address: string) {
+  // IPv4-mapped IPv6 (::ffff:127.0.0.1) is checked as the IPv4 address
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)
+  if (mapped) return blocked.check(mapped[1], 'ipv4')
+  return blocked.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4')
+}
+
+function hostOf(u: URL) {
+  return u.hostname.replace(/^\[|\]$/g, '').toLowerCase()
+}
+
+// http(s) only; hosts that are plainly internal (localhost, a blocked IP literal) are refused up front
+export function parseWebhookUrl(raw: unknown): string | null {
+  if (typeof raw !== 'string' || raw.length > 2000) return null
+  try {
+    const u = new URL(raw)
+    if (u.protocol !== 'http:' && u.protocol !== 'https:') return null
+    const host = hostOf(u)
+    if (!ALLOWED_HOSTS.has(host) && (host === 'localhost' || host.endsWith('.localhost') || (net.isIP(host) && isBlockedAddress(host)))) return null
+    return u.toString()
+  } catch {
+    return null
+  }
+}
+
+// Checked again before every attempt, since a name may resolve somewhere else by then
+async function checkWebhookHost(url: string): Promise<string | null> {
+  const u = new URL(url)
+  const host = hostOf(u)
+  if (ALLOWED_HOSTS.has(host)) return null
+  if (host === 'localhost' || host.endsWith('.localhost')) return 'blocked_address'
+  const addresses = net.isIP(host) ? [{ address: host }] : await dns.lookup(host, { all: true, verbatim: true }).catch(() => null)
+  if (!addresses || addresses.length === 0) return 'unresolvable_host'
+  return addresses.some((a) => isBlockedAddress(a.address)) ? 'blocked_address' : null
+}
+
+// null = invalid; omitted = every event
+export function parseWebhookEvents(raw: unknown): WebhookEvent[] | null {
+  if (raw === undefined) return [...WEBHOOK_EVENTS]
+  if (!Array.isArray(raw) || raw.length === 0 || !raw.every((e) => WEBHOOK_EVENTS.includes(e))) return null
+  return Array.from(new Set(raw as WebhookEvent[]))
+}
+
+// Bot webhooks reuse the bot's secret, so the bot checks every room's deliveries with one key
+export async function createWebhook(input: { room: string; url: string; events: WebhookEvent[]; createdBy: string; botId?: string; secret?: string }): Promise<WebhookInfo> {
+  const hook: WebhookInfo = {
+    room: input.room, url: input.url, events: input.events, createdBy: input.createdBy, botId: input.botId ?? null,
+    webhookId: crypto.randomUUID(), secret: input.secret || 'whsec_' + crypto.randomBytes(24).toString('hex'), active: true, createdAt: Date.now(),
+  }
+  if (isMongoConnected()) await Webhook.create(hook)
+  else inMemHooks.set(hook.webhookId, hook)
+  return hook
+}
+
+export async function listWebhooks(room: string): Promise<WebhookInfo[]> {
+  if (isMongoConnected()) {
+    const docs = await Webhook.find({ room }).sort({ createdAt: 1 }).lean().exec()
+    return docs.map(toHook)
+  }
+  return Array.from(inMemHooks.values()).filter((h) => h.room === room)
+}
+
+export async function findWebhook(room: string, webhookId: string): Promise<WebhookInfo | null> {
+  if (isMongoConnected()) {
+    const doc = await Webhook.findOne({ room, webhookId }).lean().exec()
+    return doc ? toHook(doc) : null
+  }
+  const hook = inMemHooks.get(webhookId)
+  return hook && hook.room === room ? hook : null
+}
+
+export async function updateWebhook(webhookId: string, patch: Partial<Pick<WebhookInfo, 'url' | 'events' | 'active'>>): Promise<WebhookInfo | null> {
+  if (isMongoConnected()) {
+    const doc = await Webhook.findOneAndUpdate({ webhookId }, { $set: patch }, { new: true }).lean().exec()
+    return doc ? toHook(doc) : null
+  }
+  const hook = inMemHooks.get(webhookId)
+  if (!hook) return null
+  Object.assign(hook, patch)
+  return hook
+}
+
+// Removes the webhook and its delivery log
+export async function deleteWebhook(webhookId: string): Promise<boolean> {
+  if (isMongoConnected()) {
+    const r = await Webhook.deleteOne({ webhookId })
+    await WebhookDelivery.deleteMany({ webhookId })
+    return r.deletedCount > 0
+  }
+  for (const [id, d] of inMemDeliveries) if (d.webhookId === webhookId) inMemDeliveries.delete(id)
+  return inMemHooks.delete(webhookId)
+}
+
+// Drop a bot's webhooks (in one room, or everywhere) along with their delivery logs
+export async function deleteBotWebhooks(botId: string, room?: string) {
+  const q: any = room ? { botId, room } : { botId }
+  if (isMongoConnected()) {
+    const ids = (await Webhook.find(q, { webhookId: 1 }).lean().exec()).map((d: any) => d.webhookId)
+    await Webhook.deleteMany({ webhookId: { $in: ids } })
+    await WebhookDelivery.deleteMany({ webhookId: { $in: ids } })
+    return
+  }
+  for (const h of Array.from(inMemHooks.values())) if (h.botId === botId && (!room || h.room === room)) await deleteWebhook(h.webhookId)
+}
+
+// Newest first
+export async function listDeliveries(webhookId: string, limit = 50): Promise<DeliveryInfo[]> {
+  limit = Math.min(Math.max(limit, 1), 200)
+  if (isMongoConnected()) {
+    const docs = await WebhookDelivery.find({ webhookId }).sort({ createdAt: -1 }).limit(limit).lean().exec()
+    return docs.map(toDelivery)
+  }
+  return Array.from(inMemDeliveries.values()).filter((d) => d.webhookId === webhookId).reverse().slice(0, limit)
+}
+
+async function saveDelivery(d: DeliveryInfo) {
+  if (isMongoConnected()) {
+    await WebhookDelivery.create(d)
+    return
+  }
+  inMemDeliveries.set(d.deliveryId, d)
+  if (inMemDeliveries.size > IN_MEM_DELIVERY_CAP) inMemDeliveries.delete(inMemDeliveries.keys().next().value as string)
+}
+
+async function updateDelivery(deliveryId: string, set: Partial<DeliveryInfo>) {
+  if (isMongoConnected()) {
+    await WebhookDelivery.updateOne({ deliveryId }, { $set: set })
+    return
+  }
+  const d = inMemDeliveries.get(deliveryId)
+  if (d) Object.assign(d, set)
+}
+
+// Take one due delivery for this instance by pushing its next attempt past the claim window
+async function claimDue(now: number): Promise<DeliveryInfo | null> {
+  if (isMongoConnected()) {
+    const doc = await WebhookDelivery.findOneAndUpdate(
+      { status: 'pending', nextAttemptAt: { $lte: now } },
+      { $set: { nextAttemptAt: now + CLAIM_MS } },
+      { sort: { nextAttemptAt: 1 } },
+    ).lean().exec()
+    return doc ? toDelivery(doc) : null
+  }
+  for (const d of inMemDeliveries.values()) {
+    if (d.status === 'pending' && d.nextAttemptAt !== null && d.nextAttemptAt <= now) {
+      d.nextAttemptAt = now + CLAIM_MS
+      return { ...d }
+    }
+  }
+  return null
+}
+
+// X-Echo-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<body>" keyed with the webhook secret>
+export function signWebhook(secret: string, timestamp: string, body: string) {
+  return 'sha256=' + crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+async function findHookById(webhookId: string): Promise<WebhookInfo | null> {
+  if (isMongoConnected()) {
+    const doc = await Webhook.findOne({ webhookId }).lean().exec()
+    return doc ? toHook(doc) : null
+  }
+  return inMemHooks.get(webhookId) || null
+}
+
+// One attempt; 2xx succeeds, anything else schedules a retry or gives up. Internal addresses fail without a retry;
+// redirects are not followed (they count as a failed attempt)
+async function attempt(d: DeliveryInfo, hook: WebhookInfo): Promise<DeliveryInfo> {
+  const timestamp = String(Math.floor(Date.now() / 1000))
+  const attempts = d.attempts + 1
+  let responseStatus: number | null = null
+  let error: string | null = null
+  const refused = await checkWebhookHost(hook.url)
+  if (refused === 'blocked_address') {
+    const set: Partial<DeliveryInfo> = { status: 'failed', attempts, responseStatus: null, error: refused, nextAttemptAt: null, completedAt: Date.now() }
+    await updateDelivery(d.deliveryId, set)
+    return { ...d, ...set }
+  }
+  if (refused) error = refused
+  else {
+    try {
+      const res = await fetch(hook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Echo-Webhooks/1',
+          'X-Echo-Event': d.event,
+          'X-Echo-Delivery': d.deliveryId,
+          'X-Echo-Timestamp': timestamp,
+          'X-Echo-Signature': signWebhook(hook.secret, timestamp, d.body),
+        },
+        body: d.body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      })
+      responseStatus = res.status
+      if (!res.ok) error = `HTTP ${res.status}`
+      await res.body?.cancel().catch(() => {})
+    } catch (e: any) {
+      // no error details: they would tell a room owner which internal hosts and ports answer
+      error = e?.name === 'TimeoutError' ? 'timeout' : 'request_failed'
+    }
+  }
+  const now = Date.now()
+  const set: Partial<DeliveryInfo> = !error
+    ? { status: 'succeeded', attempts, responseStatus, error: null, nextAttemptAt: null, completedAt: now }
+    : attempts >= MAX_ATTEMPTS
+      ? { status: 'failed', attempts, responseStatus, error, nextAttemptAt: null, completedAt: now }
+      : { status: 'pending', attempts, responseStatus, error, nextAttemptAt: now + RETRY_BASE_MS * 4 ** (attempts - 1) }
+  await updateDelivery(d.deliveryId, set)
+  return { ...d, ...set }
+}
+
+// Queue an event for one webhook and make the first attempt right away
+async function deliver(hook: WebhookInfo, event: DeliveryInfo['event'], data: unknown): Promise<DeliveryInfo> {
+  const deliveryId = crypto.randomUUID()
+  const body = JSON.stringify({ id: deliveryId, event, room: hook.room, ts: Date.now(), data })
+  const d: DeliveryInfo = {
+    deliveryId, webhookId: hook.webhookId, event, body, status: 'pending', attempts: 0,
+    responseStatus: null, error: null, nextAttemptAt: Date.now() + CLAIM_MS, createdAt: Date.now(), completedAt: null,
+  }
+  await saveDelivery(d)
+  return attempt(d, hook)
+}
+
+// Fan an event out to the room's active webhooks that subscribe to it; a bot does not hear about its own actions
+export async function dispatchWebhooks(room: string, event: WebhookEvent, data: unknown, actorId?: string | null) {
+  const hooks = (await listWebhooks(room)).filter((h) => h.active && h.events.includes(event) && (!h.botId || h.botId !== actorId))
+  await Promise.all(hooks.map((h) => deliver(h, event, data).catch((e) => console.error('Webhook delivery failed', e))))
+}
+
+// "Send test event": a ping to one webhook, whatever its event list; resolves after the first attempt
+export function sendTestEvent(hook: WebhookInfo, actorId: string) {
+  return deliver(hook, 'ping', { webhookId: hook.webhookId, sentBy: actorId })
+}
+
+// Retry loop: every instance sweeps for due deliveries (including those left over by a restart)
+let sweeping = false
+setInterval(async () => {
+  if (sweeping) return
+  sweeping = true
+  try {
+    for (let d = await claimDue(Date.now()); d; d = await claimDue(Date.now())) {
+      const hook = await findHookById(d.webhookId)
+      if (!hook || !hook.active) await updateDelivery(d.deliveryId, { status: 'failed', error: hook ? 'webhook_disabled' : 'webhook_deleted', nextAttemptAt: null, completedAt: Date.now() })
+      else await attempt(d, hook)
+    }
+  } catch (e) {
+    console.error('Webhook retry sweep failed', e)
+  } finally {
+    sweeping = false
+  }
+}, SWEEP_MS).unref()
+
+// The secret is only shown when the webhook is created
+// A bot's url is its owner's business, not the room owner's
+export function publicWebhook(h: WebhookInfo) {
+  return { id: h.webhookId, room: h.room, ...(h.botId ? {} : { url: h.url }), events: h.events, active: h.active, createdBy: h.createdBy, createdAt: h.createdAt, botId: h.botId }
+}
+
+export function publicDelivery(d: DeliveryInfo) {
+  return {
+    id: d.deliveryId, webhookId: d.webhookId, event: d.event, status: d.status, attempts: d.attempts, responseStatus: d.responseStatus,
+    error: d.error, nextAttemptAt: d.status === 'pending' ? d.nextAttemptAt : null, createdAt: d.createdAt, completedAt: d.completedAt,
+    payload: JSON.parse(d.body),
+  }
+}